@@ -10,7 +10,13 @@ import {
   FlowManager,
   AgentManager,
   FlowRunnerUI,
-  DEFAULT_LLM_SETTINGS
+  DEFAULT_LLM_SETTINGS,
+  validateBundle,
+  importProject,
+  BundleValidationError,
+  SearchResult,
+  TranscriptDoc,
+  confirmLeavingUnsavedChanges
 } from './doc-flow-kit'
 import { LLMSettings } from './doc-flow-kit/LLMService'
 import { useUser } from './doc-flow-kit/UserContext'
@@ -21,7 +27,7 @@ import { Box, CircularProgress, Typography, Alert, Stack } from '@mui/material'
 
 function App() {
   // User context for authentication
-  const { currentUser, isLoading: userLoading } = useUser();
+  const { currentUser, isLoading: userLoading, addProject } = useUser();
   
   // Project context for project management
   const { project, loadProject, saveProject, createNewProject } = useProject();
@@ -33,6 +39,7 @@ function App() {
   const [activeFlowDoc, setActiveFlowDoc] = useState<FlowDoc | null>(null);
   const [activeAgentDoc, setActiveAgentDoc] = useState<AgentDoc | null>(null);
   const [showFlowRunner, setShowFlowRunner] = useState<boolean>(false);
+  const [focusNodeId, setFocusNodeId] = useState<string | undefined>(undefined);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   
   // Update LLM settings
@@ -72,6 +79,8 @@ function App() {
       setError('No project loaded. Cannot create diagram.');
       return;
     }
+    // Ask before creating, so cancelling doesn't leave an unopened document behind
+    if (!confirmLeavingUnsavedChanges()) return;
     
     setIsLoading(true);
     
@@ -81,6 +90,7 @@ function App() {
         docId: crypto.randomUUID(),
         docType: 'Diagram',
         title: 'Untitled Diagram',
+        projectIds: [project.docId],
         content: {
           nodes: [],
           edges: [],
@@ -122,6 +132,7 @@ function App() {
       setError('No project loaded. Cannot create flow.');
       return;
     }
+    if (!confirmLeavingUnsavedChanges()) return;
     
     setIsLoading(true);
     
@@ -131,6 +142,7 @@ function App() {
         docId: crypto.randomUUID(),
         docType: 'Flow',
         title: 'Untitled Flow',
+        projectIds: [project.docId],
         content: {
           nodes: [],
           edges: [],
@@ -172,6 +184,7 @@ function App() {
       setError('No project loaded. Cannot create agent.');
       return;
     }
+    if (!confirmLeavingUnsavedChanges()) return;
     
     setIsLoading(true);
     
@@ -181,6 +194,7 @@ function App() {
         docId: crypto.randomUUID(),
         docType: 'Agent',
         title: 'Untitled Agent',
+        projectIds: [project.docId],
         content: {
           promptTemplate: `# Agent Prompt Template
 
@@ -222,10 +236,39 @@ Provide a thoughtful response that helps with their analysis.`
     }
   }
 
-  // Load a diagram by ID
-  async function loadDiagram(docId: string) {
+  // Import a project bundle and switch to it
+  async function handleImportProject(file: File) {
+    if (!confirmLeavingUnsavedChanges()) return;
     setIsLoading(true);
     setError(null);
+
+    try {
+      const bundle = await validateBundle(JSON.parse(await file.text()));
+      const imported = await importProject(bundle);
+      await addProject(imported.docId);
+
+      setActiveDiagramDoc(null);
+      setActiveFlowDoc(null);
+      setActiveAgentDoc(null);
+      await loadProject(imported.docId);
+      setStatus(`Project "${imported.content.name}" imported with ${bundle.documents.length} documents`);
+    } catch (error) {
+      console.error('Error importing project:', error);
+      const message = error instanceof BundleValidationError
+        ? error.problems.join('; ')
+        : error instanceof Error ? error.message : String(error);
+      setError(`Error importing project: ${message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Load a diagram by ID, optionally highlighting one of its nodes
+  async function loadDiagram(docId: string, nodeId?: string) {
+    if (!confirmLeavingUnsavedChanges()) return;
+    setIsLoading(true);
+    setError(null);
+    setFocusNodeId(nodeId);
     
     try {
       // Close any active documents
@@ -257,6 +300,7 @@ Provide a thoughtful response that helps with their analysis.`
 
   // Load a flow by ID
   async function loadFlow(docId: string) {
+    if (!confirmLeavingUnsavedChanges()) return;
     setIsLoading(true);
     setError(null);
     
@@ -290,6 +334,7 @@ Provide a thoughtful response that helps with their analysis.`
 
   // Load an agent by ID
   async function loadAgent(docId: string) {
+    if (!confirmLeavingUnsavedChanges()) return;
     setIsLoading(true);
     setError(null);
     
@@ -321,85 +366,6 @@ Provide a thoughtful response that helps with their analysis.`
     }
   }
 
-  // Handle document updates
-  function handleDiagramUpdate(updatedDoc: DiagramDoc) {
-    setActiveDiagramDoc(updatedDoc);
-    
-    // Also update the reference in the project if the title changed
-    if (project && updatedDoc.title !== activeDiagramDoc?.title) {
-      const updatedDocuments = project.content.documents.map(doc => 
-        doc.docId === updatedDoc.docId 
-          ? { ...doc, title: updatedDoc.title }
-          : doc
-      );
-      
-      const updatedProject = {
-        ...project,
-        content: {
-          ...project.content,
-          documents: updatedDocuments
-        }
-      };
-      
-      // Save the updated project
-      saveProject(updatedProject).catch(error => {
-        console.error('Error updating project with new diagram title:', error);
-      });
-    }
-  }
-
-  function handleFlowUpdate(updatedDoc: FlowDoc) {
-    setActiveFlowDoc(updatedDoc);
-    
-    // Also update the reference in the project if the title changed
-    if (project && updatedDoc.title !== activeFlowDoc?.title) {
-      const updatedDocuments = project.content.documents.map(doc => 
-        doc.docId === updatedDoc.docId 
-          ? { ...doc, title: updatedDoc.title }
-          : doc
-      );
-      
-      const updatedProject = {
-        ...project,
-        content: {
-          ...project.content,
-          documents: updatedDocuments
-        }
-      };
-      
-      // Save the updated project
-      saveProject(updatedProject).catch(error => {
-        console.error('Error updating project with new flow title:', error);
-      });
-    }
-  }
-
-  function handleAgentUpdate(updatedDoc: AgentDoc) {
-    setActiveAgentDoc(updatedDoc);
-    
-    // Also update the reference in the project if the title changed
-    if (project && updatedDoc.title !== activeAgentDoc?.title) {
-      const updatedDocuments = project.content.documents.map(doc => 
-        doc.docId === updatedDoc.docId 
-          ? { ...doc, title: updatedDoc.title }
-          : doc
-      );
-      
-      const updatedProject = {
-        ...project,
-        content: {
-          ...project.content,
-          documents: updatedDocuments
-        }
-      };
-      
-      // Save the updated project
-      saveProject(updatedProject).catch(error => {
-        console.error('Error updating project with new agent title:', error);
-      });
-    }
-  }
-
   // Close active documents
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   function closeActiveDiagram() {
@@ -417,6 +383,43 @@ Provide a thoughtful response that helps with their analysis.`
     setActiveAgentDoc(null);
   }
 
+  // Open the document behind a search hit, switching project if needed
+  async function openSearchResult(result: SearchResult) {
+    if (!confirmLeavingUnsavedChanges()) return;
+    try {
+      if (project && result.projectIds.length > 0 && !result.projectIds.includes(project.docId)) {
+        await loadProject(result.projectIds[0]);
+      }
+
+      switch (result.docType) {
+        case 'Diagram':
+          await loadDiagram(result.docId, result.nodeId);
+          break;
+        case 'Flow':
+          await loadFlow(result.docId);
+          break;
+        case 'Agent':
+          await loadAgent(result.docId);
+          break;
+        case 'Transcript': {
+          // Transcripts have no editor; open the flow that produced them
+          const transcript = await docFlowKit.getDocument(result.docId) as TranscriptDoc | null;
+          if (transcript) await loadFlow(transcript.content.flowId);
+          break;
+        }
+        case 'Project':
+          setActiveDiagramDoc(null);
+          setActiveFlowDoc(null);
+          setActiveAgentDoc(null);
+          await loadProject(result.docId);
+          break;
+      }
+    } catch (error) {
+      console.error('Error opening search result:', error);
+      setError(`Error opening search result: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   // Initialize the app
   useEffect(() => {
     async function initDB() {
@@ -541,8 +544,14 @@ Provide a thoughtful response that helps with their analysis.`
         <>
           {statusMessage}
           <DiagramManager
+            key={activeDiagramDoc.docId}
             diagramDoc={activeDiagramDoc}
-            onUpdate={handleDiagramUpdate}
+            onUpdate={setActiveDiagramDoc}
+            focusNodeId={focusNodeId}
+            lintRules={project?.content.lintRules}
+            onOpenDiagram={loadDiagram}
+            reportTemplate={project?.content.reportTemplate}
+            llmSettings={project?.content.llmSettings}
           />
         </>
       );
@@ -570,8 +579,9 @@ Provide a thoughtful response that helps with their analysis.`
             <Typography variant="h5">Editing Flow: {activeFlowDoc.title}</Typography>
           </Stack>
           <FlowManager
+            key={activeFlowDoc.docId}
             flowDoc={activeFlowDoc}
-            onUpdate={handleFlowUpdate}
+            onUpdate={setActiveFlowDoc}
             project={project}
           />
         </>
@@ -587,8 +597,9 @@ Provide a thoughtful response that helps with their analysis.`
             <Typography variant="h5">Editing Agent: {activeAgentDoc.title}</Typography>
           </Stack>
           <AgentManager
+            key={activeAgentDoc.docId}
             agentDoc={activeAgentDoc}
-            onUpdate={handleAgentUpdate}
+            onUpdate={setActiveAgentDoc}
           />
         </>
       );
@@ -605,13 +616,18 @@ Provide a thoughtful response that helps with their analysis.`
           onCreateDiagram={createNewDiagram}
           onCreateFlow={createNewFlow}
           onCreateAgent={createNewAgent}
+          onImportProject={handleImportProject}
         />
       </>
     );
   };
 
   return (
-    <AppLayout title={getActiveTitle()}>
+    <AppLayout
+      title={getActiveTitle()}
+      currentProjectId={project?.docId}
+      onSearchResultSelect={openSearchResult}
+    >
       {renderContent()}
     </AppLayout>
   );
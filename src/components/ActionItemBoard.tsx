@@ -0,0 +1,256 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Select,
+  MenuItem,
+  TextField,
+  FormControlLabel,
+  Switch,
+  Chip,
+  Link,
+  Alert,
+} from '@mui/material';
+import {
+  ACTION_ITEM_PRIORITIES,
+  ACTION_ITEM_STATUSES,
+  ActionItemEntry,
+  getActionItems,
+  listProjectActionItems,
+  saveActionItem,
+} from '../doc-flow-kit/ActionItems';
+import { useDocuments } from '../doc-flow-kit/DocumentHooks';
+import { docFlowKit } from '../doc-flow-kit/DocFlowKit';
+import { ActionItemPriority, ActionItemProperties, ActionItemStatus, DiagramDoc, UserDoc } from '../doc-flow-kit/types';
+
+interface ActionItemBoardProps {
+  projectId: string;
+  onOpenNode: (diagramId: string, nodeId: string) => void;
+}
+
+const PRIORITY_RANK: Record<ActionItemPriority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Due date input that saves on blur, so typing a date writes once rather
+ * than once per keystroke
+ */
+const DueDateField: React.FC<{ value?: string; onSave: (dueDate?: string) => void }> = ({ value, onSave }) => {
+  const [draft, setDraft] = useState(value ?? '');
+
+  useEffect(() => {
+    setDraft(value ?? '');
+  }, [value]);
+
+  return (
+    <TextField
+      size="small"
+      type="date"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== (value ?? '')) onSave(draft || undefined);
+      }}
+    />
+  );
+};
+
+/**
+ * Every ActionItem across the project's diagrams. Edits are written back to
+ * the diagram nodes, and a changed diagram's entries are refreshed from the
+ * change event.
+ */
+const ActionItemBoard: React.FC<ActionItemBoardProps> = ({ projectId, onOpenNode }) => {
+  const [entries, setEntries] = useState<ActionItemEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ActionItemStatus | 'all' | 'unfinished'>('unfinished');
+  const [ownerFilter, setOwnerFilter] = useState<string>('all');
+  const [priorityFilter, setPriorityFilter] = useState<ActionItemPriority | 'all'>('all');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [search, setSearch] = useState('');
+  const { documents: users } = useDocuments<UserDoc>({ docType: 'User' });
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setEntries(await listProjectActionItems(projectId));
+      setError(null);
+    } catch (err) {
+      setError(`Error loading action items: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadEntries();
+    return docFlowKit.subscribe({ projectId, docType: 'Diagram' }, (event) => {
+      const diagram = event.document as DiagramDoc;
+      const updated = event.type === 'delete' || diagram.deletedAt ? [] : getActionItems(diagram);
+      setEntries((current) => [...current.filter((entry) => entry.diagramId !== event.docId), ...updated]);
+    });
+  }, [loadEntries, projectId]);
+
+  const handleChange = async (entry: ActionItemEntry, changes: Partial<ActionItemProperties>) => {
+    try {
+      await saveActionItem(entry.diagramId, entry.node.id, changes);
+    } catch (err) {
+      setError(`Error saving action item: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const ownerName = (ownerId?: string) => {
+    const user = users.find((u) => u.docId === ownerId);
+    return user ? user.content.displayName || user.content.email : '';
+  };
+
+  const term = search.trim().toLowerCase();
+  const visible = entries
+    .filter((entry) => {
+      const { status, ownerId, priority } = entry.properties;
+      if (statusFilter === 'unfinished' && (status === 'verified' || status === 'closed')) return false;
+      if (statusFilter !== 'all' && statusFilter !== 'unfinished' && status !== statusFilter) return false;
+      if (ownerFilter === 'unassigned' && ownerId) return false;
+      if (ownerFilter !== 'all' && ownerFilter !== 'unassigned' && ownerId !== ownerFilter) return false;
+      if (priorityFilter !== 'all' && priority !== priorityFilter) return false;
+      if (overdueOnly && !entry.overdue) return false;
+      if (term && !`${entry.node.label} ${entry.diagramTitle} ${entry.mitigates?.label ?? ''}`.toLowerCase().includes(term)) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) =>
+      Number(b.overdue) - Number(a.overdue) ||
+      (a.properties.dueDate ?? '9999').localeCompare(b.properties.dueDate ?? '9999') ||
+      PRIORITY_RANK[a.properties.priority ?? 'medium'] - PRIORITY_RANK[b.properties.priority ?? 'medium']
+    );
+
+  const overdueCount = entries.filter((e) => e.overdue).length;
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h5">Action Items</Typography>
+        {overdueCount > 0 && <Chip color="error" label={`${overdueCount} overdue`} />}
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Box display="flex" gap={2} flexWrap="wrap" alignItems="center" mb={2}>
+        <TextField size="small" label="Search" value={search} onChange={(e) => setSearch(e.target.value)} />
+        <Select size="small" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}>
+          <MenuItem value="unfinished">Not done</MenuItem>
+          <MenuItem value="all">Any status</MenuItem>
+          {ACTION_ITEM_STATUSES.map((status) => (
+            <MenuItem key={status} value={status}>{status}</MenuItem>
+          ))}
+        </Select>
+        <Select size="small" value={ownerFilter} onChange={(e) => setOwnerFilter(e.target.value)}>
+          <MenuItem value="all">Any owner</MenuItem>
+          <MenuItem value="unassigned">Unassigned</MenuItem>
+          {users.map((user) => (
+            <MenuItem key={user.docId} value={user.docId}>{ownerName(user.docId)}</MenuItem>
+          ))}
+        </Select>
+        <Select size="small" value={priorityFilter} onChange={(e) => setPriorityFilter(e.target.value as typeof priorityFilter)}>
+          <MenuItem value="all">Any priority</MenuItem>
+          {ACTION_ITEM_PRIORITIES.map((priority) => (
+            <MenuItem key={priority} value={priority}>{priority}</MenuItem>
+          ))}
+        </Select>
+        <FormControlLabel
+          control={<Switch checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />}
+          label="Overdue only"
+        />
+      </Box>
+
+      {visible.length === 0 ? (
+        <Typography color="text.secondary">
+          {entries.length === 0
+            ? 'No action items yet. Add ActionItem nodes to a diagram to track them here.'
+            : 'No action items match the filters.'}
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Action Item</TableCell>
+              <TableCell>Mitigates</TableCell>
+              <TableCell>Owner</TableCell>
+              <TableCell>Due</TableCell>
+              <TableCell>Priority</TableCell>
+              <TableCell>Status</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visible.map((entry) => (
+              <TableRow
+                key={`${entry.diagramId}-${entry.node.id}`}
+                sx={entry.overdue ? { backgroundColor: 'rgba(244, 67, 54, 0.08)' } : undefined}
+              >
+                <TableCell>
+                  <Link component="button" onClick={() => onOpenNode(entry.diagramId, entry.node.id)}>
+                    {entry.node.label || 'Untitled'}
+                  </Link>
+                  <Typography variant="caption" display="block" color="text.secondary">
+                    {entry.diagramTitle}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  {entry.mitigates ? entry.mitigates.label : <Typography variant="body2" color="error">Not linked</Typography>}
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={entry.properties.ownerId ?? ''}
+                    displayEmpty
+                    onChange={(e) => handleChange(entry, { ownerId: e.target.value || undefined })}
+                  >
+                    <MenuItem value="">Unassigned</MenuItem>
+                    {users.map((user) => (
+                      <MenuItem key={user.docId} value={user.docId}>{ownerName(user.docId)}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Box display="flex" alignItems="center" gap={1}>
+                    <DueDateField
+                      value={entry.properties.dueDate}
+                      onSave={(dueDate) => handleChange(entry, { dueDate })}
+                    />
+                    {entry.overdue && <Chip size="small" color="error" label="Overdue" />}
+                  </Box>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={entry.properties.priority}
+                    onChange={(e) => handleChange(entry, { priority: e.target.value as ActionItemPriority })}
+                  >
+                    {ACTION_ITEM_PRIORITIES.map((priority) => (
+                      <MenuItem key={priority} value={priority}>{priority}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select
+                    size="small"
+                    value={entry.properties.status}
+                    onChange={(e) => handleChange(entry, { status: e.target.value as ActionItemStatus })}
+                  >
+                    {ACTION_ITEM_STATUSES.map((status) => (
+                      <MenuItem key={status} value={status}>{status}</MenuItem>
+                    ))}
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+export default ActionItemBoard;
@@ -0,0 +1,244 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Select,
+  MenuItem,
+  Chip,
+  Link,
+  Alert,
+  Collapse,
+  IconButton,
+  Paper,
+} from '@mui/material';
+import { KeyboardArrowDown as ExpandIcon, KeyboardArrowUp as CollapseIcon } from '@mui/icons-material';
+import {
+  FactorCluster,
+  analyzeIncidents,
+  countByPeriod,
+  loadProjectDiagrams,
+} from '../doc-flow-kit/IncidentAnalytics';
+import { docFlowKit } from '../doc-flow-kit/DocFlowKit';
+import { DiagramDoc, ProjectDoc } from '../doc-flow-kit/types';
+
+interface AnalyticsDashboardProps {
+  project: ProjectDoc;
+  onOpenNode: (diagramId: string, nodeId: string) => void;
+}
+
+interface TrendChartProps {
+  periods: string[];
+  counts: number[];
+  /** Drawn as a line over the bars, e.g. the selected cluster */
+  highlight?: number[];
+}
+
+/**
+ * Bars per month, with an optional second series as a line
+ */
+const TrendChart: React.FC<TrendChartProps> = ({ periods, counts, highlight }) => {
+  const width = Math.max(240, periods.length * 48);
+  const height = 140;
+  const top = 10;
+  const bottom = 24;
+  const max = Math.max(1, ...counts, ...(highlight ?? []));
+  const step = width / Math.max(1, periods.length);
+  const y = (count: number) => top + (height - top - bottom) * (1 - count / max);
+
+  return (
+    <svg width={width} height={height} style={{ display: 'block' }}>
+      {periods.map((period, i) => (
+        <g key={period}>
+          <rect x={i * step + step * 0.2} y={y(counts[i])} width={step * 0.6} height={height - bottom - y(counts[i])} fill="#90CAF9">
+            <title>{`${period}: ${counts[i]}`}</title>
+          </rect>
+          <text x={i * step + step / 2} y={height - 8} textAnchor="middle" fontSize="10" fill="#666">
+            {period}
+          </text>
+        </g>
+      ))}
+      {highlight && (
+        <polyline
+          fill="none"
+          stroke="#f44336"
+          strokeWidth={2}
+          points={highlight.map((count, i) => `${i * step + step / 2},${y(count)}`).join(' ')}
+        />
+      )}
+      <line x1={0} y1={height - bottom} x2={width} y2={height - bottom} stroke="#999" />
+    </svg>
+  );
+};
+
+/**
+ * Recurring causal factors across the project's diagrams: similar factors are
+ * clustered and counted as root causes, with monthly trends and links back
+ * to the diagrams behind each cluster.
+ */
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ project, onOpenNode }) => {
+  const [diagrams, setDiagrams] = useState<DiagramDoc[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [similarity, setSimilarity] = useState(0.5);
+  const [scope, setScope] = useState<'rootCauses' | 'all'>('rootCauses');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadDiagrams = useCallback(async () => {
+    try {
+      setDiagrams(await loadProjectDiagrams(project));
+      setError(null);
+    } catch (err) {
+      setError(`Error loading diagrams: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [project]);
+
+  useEffect(() => {
+    loadDiagrams();
+    return docFlowKit.subscribe({ projectId: project.docId, docType: 'Diagram' }, () => {
+      loadDiagrams();
+    });
+  }, [loadDiagrams, project.docId]);
+
+  const analytics = useMemo(() => analyzeIncidents(diagrams, { similarity }), [diagrams, similarity]);
+  const rootCausesOnly = scope === 'rootCauses';
+  const clusters = analytics.clusters.filter((c) => !rootCausesOnly || c.rootCauseCount > 0);
+  const expanded = clusters.find((c) => c.id === expandedId);
+  const trendOf = (cluster?: FactorCluster) =>
+    countByPeriod(cluster ? cluster.occurrences : analytics.occurrences, analytics.periods, rootCausesOnly);
+  const maxTypeCount = Math.max(1, ...analytics.typeCounts.map((t) => (rootCausesOnly ? t.rootCauses : t.occurrences)));
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2} flexWrap="wrap" gap={2}>
+        <Typography variant="h5">Analytics</Typography>
+        <Box display="flex" gap={2} alignItems="center">
+          <Select size="small" value={scope} onChange={(e) => setScope(e.target.value as typeof scope)}>
+            <MenuItem value="rootCauses">Root causes</MenuItem>
+            <MenuItem value="all">All factors</MenuItem>
+          </Select>
+          <Select size="small" value={similarity} onChange={(e) => setSimilarity(Number(e.target.value))}>
+            <MenuItem value={1}>Exact labels</MenuItem>
+            <MenuItem value={0.7}>Close matches</MenuItem>
+            <MenuItem value={0.5}>Similar labels</MenuItem>
+            <MenuItem value={0.3}>Loose matches</MenuItem>
+          </Select>
+        </Box>
+      </Box>
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <Box display="flex" gap={1} mb={2} flexWrap="wrap">
+        <Chip label={`${analytics.diagramCount} diagrams`} />
+        <Chip label={`${analytics.occurrences.length} factors`} />
+        <Chip label={`${analytics.occurrences.filter((o) => o.isRootCause).length} root causes`} />
+        <Chip label={`${clusters.length} clusters`} />
+      </Box>
+
+      {analytics.occurrences.length === 0 ? (
+        <Typography color="text.secondary">
+          No causal factors yet. Analytics appear once the project's diagrams have nodes.
+        </Typography>
+      ) : (
+        <>
+          <Box display="flex" gap={2} mb={3} flexWrap="wrap">
+            <Paper variant="outlined" sx={{ p: 2, flex: '1 1 300px' }}>
+              <Typography variant="subtitle1" gutterBottom>
+                {rootCausesOnly ? 'Root causes' : 'Factors'} by type
+              </Typography>
+              {analytics.typeCounts.map((count) => {
+                const value = rootCausesOnly ? count.rootCauses : count.occurrences;
+                return (
+                  <Box key={count.type} display="flex" alignItems="center" gap={1} mb={0.5}>
+                    <Typography variant="body2" sx={{ width: 120 }}>{count.type}</Typography>
+                    <Box sx={{ height: 12, width: `${(value / maxTypeCount) * 60}%`, minWidth: 2, backgroundColor: 'primary.light' }} />
+                    <Typography variant="body2">{value}</Typography>
+                  </Box>
+                );
+              })}
+            </Paper>
+            <Paper variant="outlined" sx={{ p: 2, flex: '2 1 400px', overflowX: 'auto' }}>
+              <Typography variant="subtitle1" gutterBottom>
+                {rootCausesOnly ? 'Root causes' : 'Factors'} per month
+                {expanded && (
+                  <Typography component="span" variant="body2" color="error" sx={{ ml: 1 }}>
+                    — "{expanded.label}"
+                  </Typography>
+                )}
+              </Typography>
+              {analytics.periods.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">No dated incidents.</Typography>
+              ) : (
+                <TrendChart
+                  periods={analytics.periods}
+                  counts={trendOf()}
+                  highlight={expanded ? trendOf(expanded) : undefined}
+                />
+              )}
+            </Paper>
+          </Box>
+
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                <TableCell>Factor</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell align="right">Root cause</TableCell>
+                <TableCell align="right">Occurrences</TableCell>
+                <TableCell align="right">Diagrams</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {clusters.map((cluster) => (
+                <React.Fragment key={cluster.id}>
+                  <TableRow hover selected={cluster.id === expandedId}>
+                    <TableCell padding="checkbox">
+                      <IconButton
+                        size="small"
+                        aria-label={cluster.id === expandedId ? 'Hide diagrams' : 'Show diagrams'}
+                        onClick={() => setExpandedId(cluster.id === expandedId ? null : cluster.id)}
+                      >
+                        {cluster.id === expandedId ? <CollapseIcon /> : <ExpandIcon />}
+                      </IconButton>
+                    </TableCell>
+                    <TableCell>{cluster.label}</TableCell>
+                    <TableCell>{cluster.type}</TableCell>
+                    <TableCell align="right">{cluster.rootCauseCount}</TableCell>
+                    <TableCell align="right">{cluster.occurrences.length}</TableCell>
+                    <TableCell align="right">{cluster.diagramIds.length}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={6} sx={{ py: 0, borderBottom: cluster.id === expandedId ? undefined : 'none' }}>
+                      <Collapse in={cluster.id === expandedId} unmountOnExit>
+                        <Box py={1} pl={6}>
+                          {cluster.occurrences.map((occurrence) => (
+                            <Box key={`${occurrence.diagramId}-${occurrence.node.id}`} display="flex" gap={1} alignItems="center">
+                              <Link component="button" onClick={() => onOpenNode(occurrence.diagramId, occurrence.node.id)}>
+                                {occurrence.diagramTitle || 'Untitled'}
+                              </Link>
+                              <Typography variant="body2" color="text.secondary">
+                                {occurrence.node.label}
+                                {occurrence.period ? ` · ${occurrence.period}` : ''}
+                              </Typography>
+                              {occurrence.isRootCause && <Chip size="small" label="root cause" />}
+                            </Box>
+                          ))}
+                        </Box>
+                      </Collapse>
+                    </TableCell>
+                  </TableRow>
+                </React.Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -32,15 +32,25 @@ import {
   KeyboardArrowDown,
 } from '@mui/icons-material';
 import { useUser } from '../doc-flow-kit/UserContext';
+import { SearchResult } from '../doc-flow-kit/SearchIndex';
+import { confirmLeavingUnsavedChanges } from '../doc-flow-kit/Autosave';
+import GlobalSearch from './GlobalSearch';
 
 const drawerWidth = 240;
 
 interface AppLayoutProps {
   children: React.ReactNode;
   title?: string;
+  currentProjectId?: string;
+  onSearchResultSelect?: (result: SearchResult) => void;
 }
 
-const AppLayout: React.FC<AppLayoutProps> = ({ children, title = 'WhyBecause Analysis' }) => {
+const AppLayout: React.FC<AppLayoutProps> = ({
+  children,
+  title = 'WhyBecause Analysis',
+  currentProjectId,
+  onSearchResultSelect,
+}) => {
   const { currentUser, logout, isDarkMode, toggleDarkMode } = useUser();
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
@@ -61,6 +71,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children, title = 'WhyBecause Ana
 
   const handleLogout = () => {
     handleUserMenuClose();
+    if (!confirmLeavingUnsavedChanges()) return;
     logout();
   };
 
@@ -113,6 +124,10 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children, title = 'WhyBecause Ana
           <Typography variant="h6" noWrap component="div" sx={{ flexGrow: 1 }}>
             {title}
           </Typography>
+
+          {currentUser && onSearchResultSelect && (
+            <GlobalSearch currentProjectId={currentProjectId} onSelect={onSearchResultSelect} />
+          )}
           
           <IconButton color="inherit" onClick={toggleDarkMode} sx={{ mr: 2 }}>
             {isDarkMode ? <Brightness7 /> : <Brightness4 />}
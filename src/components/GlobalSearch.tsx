@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  InputBase,
+  Paper,
+  Popper,
+  List,
+  ListItemButton,
+  ListItemText,
+  Typography,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  ClickAwayListener,
+  alpha,
+} from '@mui/material';
+import { Search as SearchIcon } from '@mui/icons-material';
+import { searchIndex, tokenize, SearchResult } from '../doc-flow-kit/SearchIndex';
+import { useUser } from '../doc-flow-kit/UserContext';
+
+const DOC_TYPES = ['Diagram', 'Flow', 'Agent', 'Transcript', 'Project'];
+
+const FIELD_LABELS: Record<SearchResult['field'], string> = {
+  title: 'Title',
+  node: 'Node',
+  property: 'Node details',
+  prompt: 'Prompt',
+  transcript: 'Run transcript',
+};
+
+interface GlobalSearchProps {
+  currentProjectId?: string;
+  onSelect: (result: SearchResult) => void;
+}
+
+/**
+ * Highlights the query words in a snippet
+ */
+const Snippet: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  const terms = tokenize(query).map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${terms.join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? <mark key={i}>{part}</mark> : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+const GlobalSearch: React.FC<GlobalSearchProps> = ({ currentProjectId, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [docType, setDocType] = useState('');
+  const [thisProjectOnly, setThisProjectOnly] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const anchorRef = useRef<HTMLDivElement>(null);
+  const { currentUser } = useUser();
+  const userProjects = currentUser?.projects;
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    // Wait for a pause in typing
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchIndex.search(query, userProjects ?? [], {
+          docType: docType || undefined,
+          projectId: thisProjectOnly ? currentProjectId : undefined,
+        });
+        if (!cancelled) setResults(found);
+      } catch (err) {
+        console.error('Error searching:', err);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, docType, thisProjectOnly, currentProjectId, userProjects]);
+
+  const handleSelect = (result: SearchResult) => {
+    setIsOpen(false);
+    onSelect(result);
+  };
+
+  return (
+    <ClickAwayListener onClickAway={() => setIsOpen(false)}>
+      <Box ref={anchorRef} sx={{ position: 'relative', mr: 2, width: { xs: 160, md: 320 } }}>
+        <Box
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            px: 1,
+            borderRadius: 1,
+            bgcolor: theme => alpha(theme.palette.common.white, 0.15),
+            '&:hover': { bgcolor: theme => alpha(theme.palette.common.white, 0.25) },
+          }}
+        >
+          <SearchIcon sx={{ mr: 1 }} />
+          <InputBase
+            placeholder="Search your projects…"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setIsOpen(true);
+            }}
+            onFocus={() => setIsOpen(true)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') setIsOpen(false);
+              if (e.key === 'Enter' && results.length > 0) handleSelect(results[0]);
+            }}
+            sx={{ color: 'inherit', flexGrow: 1 }}
+            inputProps={{ 'aria-label': 'search' }}
+          />
+        </Box>
+
+        <Popper
+          open={isOpen && query.trim().length > 0}
+          anchorEl={anchorRef.current}
+          placement="bottom-start"
+          sx={{ zIndex: theme => theme.zIndex.appBar + 1, width: { xs: 300, md: 480 } }}
+        >
+          <Paper elevation={4} sx={{ mt: 1, maxHeight: '70vh', overflowY: 'auto' }}>
+            <Box display="flex" alignItems="center" gap={1} px={2} pt={1}>
+              <Select
+                size="small"
+                value={docType}
+                displayEmpty
+                onChange={(e) => setDocType(e.target.value)}
+              >
+                <MenuItem value="">All types</MenuItem>
+                {DOC_TYPES.map(type => (
+                  <MenuItem key={type} value={type}>{type}</MenuItem>
+                ))}
+              </Select>
+              {currentProjectId && (
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={thisProjectOnly}
+                      onChange={(e) => setThisProjectOnly(e.target.checked)}
+                    />
+                  }
+                  label="This project only"
+                />
+              )}
+            </Box>
+
+            {results.length === 0 ? (
+              <Typography color="text.secondary" sx={{ p: 2 }}>
+                No matches.
+              </Typography>
+            ) : (
+              <List dense>
+                {results.map((result) => (
+                  <ListItemButton
+                    key={`${result.docId}-${result.field}-${result.nodeId ?? ''}`}
+                    onClick={() => handleSelect(result)}
+                  >
+                    <ListItemText
+                      primary={`${result.title || 'Untitled'} · ${result.docType}`}
+                      secondary={
+                        <>
+                          <Typography component="span" variant="caption" sx={{ mr: 1 }}>
+                            {FIELD_LABELS[result.field]}:
+                          </Typography>
+                          <Snippet text={result.snippet} query={query} />
+                        </>
+                      }
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Popper>
+      </Box>
+    </ClickAwayListener>
+  );
+};
+
+export default GlobalSearch;
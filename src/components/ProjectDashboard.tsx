@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   Box,
   Typography,
@@ -20,6 +20,9 @@ import {
   DialogActions,
   useTheme,
   Paper,
+  List,
+  ListItem,
+  ListItemText,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -29,9 +32,22 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   Settings as SettingsIcon,
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon,
+  DeleteOutline as TrashIcon,
+  AssignmentTurnedIn as ActionItemIcon,
+  Insights as AnalyticsIcon,
 } from '@mui/icons-material';
 import { useProject } from '../doc-flow-kit/ProjectContext';
-import { DocRef } from '../doc-flow-kit/types';
+import { DiagramDoc, DocRef } from '../doc-flow-kit/types';
+import { exportProject } from '../doc-flow-kit/ProjectBundle';
+import { diagramToDot, importDotDiagram } from '../doc-flow-kit/DotFormat';
+import { docFlowKit } from '../doc-flow-kit/DocFlowKit';
+import { downloadFile, toFileName } from '../utils/download';
+import ProjectSettingsDialog from './ProjectSettingsDialog';
+import TrashView from './TrashView';
+import ActionItemBoard from './ActionItemBoard';
+import AnalyticsDashboard from './AnalyticsDashboard';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -62,12 +78,13 @@ const a11yProps = (index: number) => {
 };
 
 interface ProjectDashboardProps {
-  onOpenDiagram: (docId: string) => void;
+  onOpenDiagram: (docId: string, nodeId?: string) => void;
   onOpenFlow: (docId: string) => void;
   onOpenAgent: (docId: string) => void;
   onCreateDiagram: () => void;
   onCreateFlow: () => void;
   onCreateAgent: () => void;
+  onImportProject: (file: File) => void;
 }
 
 const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
@@ -77,11 +94,18 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
   onCreateDiagram,
   onCreateFlow,
   onCreateAgent,
+  onImportProject,
 }) => {
-  const { project } = useProject();
+  const { project, loadProject } = useProject();
   const [tabValue, setTabValue] = useState(0);
   const [isRenameDialogOpen, setIsRenameDialogOpen] = useState(false);
   const [newProjectName, setNewProjectName] = useState('');
+  const [exportError, setExportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const dotInputRef = useRef<HTMLInputElement>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<DocRef | null>(null);
+  const [deleteUsedBy, setDeleteUsedBy] = useState<DocRef[]>([]);
   const theme = useTheme();
 
   if (!project) {
@@ -107,6 +131,92 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
     closeRenameDialog();
   };
 
+  const handleExport = async () => {
+    try {
+      setExportError(null);
+      const bundle = await exportProject(project.docId);
+      downloadFile(
+        `${toFileName(project.content.name)}.whybecause.json`,
+        JSON.stringify(bundle, null, 2),
+        'application/json'
+      );
+    } catch (err) {
+      console.error('Error exporting project:', err);
+      setExportError(`Error exporting project: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onImportProject(file);
+    }
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  const handleExportDot = async (doc: DocRef) => {
+    try {
+      setExportError(null);
+      const diagram = await docFlowKit.getDocument(doc.docId);
+      if (!diagram || diagram.docType !== 'Diagram') {
+        throw new Error('Diagram not found');
+      }
+      downloadFile(`${toFileName(diagram.title)}.dot`, diagramToDot(diagram as DiagramDoc), 'text/vnd.graphviz');
+    } catch (err) {
+      console.error('Error exporting diagram:', err);
+      setExportError(`Error exporting diagram: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleImportDot = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setExportError(null);
+      const diagram = await importDotDiagram(await file.text(), project.docId, file.name.replace(/\.[^.]*$/, ''));
+      onOpenDiagram(diagram.docId);
+    } catch (err) {
+      console.error('Error importing diagram:', err);
+      setExportError(`Error importing ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const openDeleteDialog = async (doc: DocRef) => {
+    setDeleteTarget(doc);
+    try {
+      // Everything other than this project that links to the document
+      const referrers = await docFlowKit.findReferrers(doc.docId);
+      setDeleteUsedBy(
+        referrers
+          .filter(r => r.docId !== project.docId && !r.deletedAt)
+          .map(r => ({ docId: r.docId, docType: r.docType, title: r.title }))
+      );
+    } catch (err) {
+      console.error('Error looking up document usage:', err);
+      setDeleteUsedBy([]);
+    }
+  };
+
+  const closeDeleteDialog = () => {
+    setDeleteTarget(null);
+    setDeleteUsedBy([]);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await docFlowKit.trashDocument(deleteTarget.docId);
+      await loadProject(project.docId);
+    } catch (err) {
+      console.error('Error deleting document:', err);
+      setExportError(`Error deleting document: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    closeDeleteDialog();
+  };
+
   // Filter documents by type
   const diagrams = project.content.documents.filter(doc => doc.docType === 'Diagram');
   const flows = project.content.documents.filter(doc => doc.docType === 'Flow');
@@ -173,10 +283,15 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
         <CardActions>
           <Button size="small" onClick={handleOpen}>Open</Button>
           <Box flexGrow={1} />
+          {type === 'Diagram' && (
+            <IconButton size="small" title="Export as Graphviz DOT" onClick={() => handleExportDot(doc)}>
+              <ExportIcon fontSize="small" />
+            </IconButton>
+          )}
           <IconButton size="small">
             <EditIcon fontSize="small" />
           </IconButton>
-          <IconButton size="small">
+          <IconButton size="small" onClick={() => openDeleteDialog(doc)}>
             <DeleteIcon fontSize="small" />
           </IconButton>
         </CardActions>
@@ -190,14 +305,33 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
         <Typography variant="h4" component="h1" sx={{ flexGrow: 1 }}>
           {project.content.name}
         </Typography>
+        <Button startIcon={<ExportIcon />} onClick={handleExport} sx={{ mr: 1 }}>
+          Export
+        </Button>
+        <Button startIcon={<ImportIcon />} onClick={() => importInputRef.current?.click()} sx={{ mr: 1 }}>
+          Import
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={handleImportFile}
+        />
         <IconButton onClick={openRenameDialog} color="primary" sx={{ mr: 1 }}>
           <EditIcon />
         </IconButton>
-        <IconButton color="primary">
+        <IconButton color="primary" onClick={() => setIsSettingsOpen(true)}>
           <SettingsIcon />
         </IconButton>
       </Box>
 
+      {exportError && (
+        <Typography color="error" sx={{ mb: 2 }}>
+          {exportError}
+        </Typography>
+      )}
+
       <Paper sx={{ width: '100%', mb: 4 }}>
         <Tabs
           value={tabValue}
@@ -221,6 +355,21 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
             label="Agents"
             {...a11yProps(2)}
           />
+          <Tab
+            icon={<ActionItemIcon />}
+            label="Action Items"
+            {...a11yProps(3)}
+          />
+          <Tab
+            icon={<AnalyticsIcon />}
+            label="Analytics"
+            {...a11yProps(4)}
+          />
+          <Tab
+            icon={<TrashIcon />}
+            label="Trash"
+            {...a11yProps(5)}
+          />
         </Tabs>
 
         <Divider />
@@ -230,14 +379,26 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
             <Typography variant="h5">
               Diagrams
             </Typography>
-            <Button
-              variant="contained"
-              color="primary"
-              startIcon={<AddIcon />}
-              onClick={onCreateDiagram}
-            >
-              New Diagram
-            </Button>
+            <Box>
+              <Button startIcon={<ImportIcon />} onClick={() => dotInputRef.current?.click()} sx={{ mr: 1 }}>
+                Import DOT
+              </Button>
+              <input
+                ref={dotInputRef}
+                type="file"
+                accept=".dot,.gv,text/vnd.graphviz"
+                hidden
+                onChange={handleImportDot}
+              />
+              <Button
+                variant="contained"
+                color="primary"
+                startIcon={<AddIcon />}
+                onClick={onCreateDiagram}
+              >
+                New Diagram
+              </Button>
+            </Box>
           </Box>
 
           {diagrams.length === 0 ? (
@@ -314,8 +475,62 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = ({
             </Grid>
           )}
         </TabPanel>
+
+        <TabPanel value={tabValue} index={3}>
+          <ActionItemBoard projectId={project.docId} onOpenNode={onOpenDiagram} />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={4}>
+          <AnalyticsDashboard project={project} onOpenNode={onOpenDiagram} />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={5}>
+          <TrashView
+            projectId={project.docId}
+            onProjectChanged={() => loadProject(project.docId)}
+          />
+        </TabPanel>
       </Paper>
 
+      {/* Delete Dialog */}
+      <Dialog open={deleteTarget !== null} onClose={closeDeleteDialog}>
+        <DialogTitle>Move "{deleteTarget?.title || 'Untitled'}" to the trash?</DialogTitle>
+        <DialogContent>
+          {deleteUsedBy.length > 0 ? (
+            <>
+              <Typography>This document is also used by:</Typography>
+              <List dense>
+                {deleteUsedBy.map(ref => (
+                  <ListItem key={ref.docId}>
+                    <ListItemText primary={ref.title || ref.docId} secondary={ref.docType} />
+                  </ListItem>
+                ))}
+              </List>
+              <Typography variant="body2" color="text.secondary">
+                Those links are kept while it is in the trash, and removed if it is deleted permanently.
+              </Typography>
+            </>
+          ) : (
+            <Typography>Nothing else uses this document.</Typography>
+          )}
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            You can restore it from the Trash tab.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDeleteDialog}>Cancel</Button>
+          <Button onClick={handleDelete} variant="contained" color="error">
+            Move to Trash
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <ProjectSettingsDialog
+        open={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        onProjectChanged={() => loadProject(project.docId)}
+      />
+
       {/* Rename Dialog */}
       <Dialog open={isRenameDialogOpen} onClose={closeRenameDialog}>
         <DialogTitle>Rename Project</DialogTitle>
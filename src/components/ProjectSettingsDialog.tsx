@@ -0,0 +1,271 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+  Alert,
+  CircularProgress,
+  Divider,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import { docFlowKit } from '../doc-flow-kit/DocFlowKit';
+import { useProject } from '../doc-flow-kit/ProjectContext';
+import { getLintRules } from '../doc-flow-kit/GraphLinter';
+import { DEFAULT_REPORT_TEMPLATE, REPORT_SECTIONS } from '../doc-flow-kit/ReportGenerator';
+import { IntegrityReport, LintSeverity, ReportSectionId, ReportTemplate } from '../doc-flow-kit/types';
+
+interface ProjectSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called after a change that may have modified the current project */
+  onProjectChanged: () => void;
+}
+
+const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ open, onClose, onProjectChanged }) => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const { project, saveProject } = useProject();
+  const lintRules = project?.content.lintRules ?? {};
+  const savedTemplate = project?.content.reportTemplate;
+  const [reportTemplate, setReportTemplate] = useState<ReportTemplate>(savedTemplate ?? DEFAULT_REPORT_TEMPLATE);
+  const agents = project?.content.documents.filter((ref) => ref.docType === 'Agent') ?? [];
+
+  useEffect(() => {
+    setReportTemplate(savedTemplate ?? DEFAULT_REPORT_TEMPLATE);
+  }, [savedTemplate]);
+
+  // 'default' drops the override so the rule follows its own default severity
+  const setLintRule = async (ruleId: string, setting: LintSeverity | 'off' | 'default') => {
+    if (!project) return;
+    const updatedRules = { ...lintRules };
+    if (setting === 'default') delete updatedRules[ruleId];
+    else updatedRules[ruleId] = setting;
+    try {
+      await saveProject({ ...project, content: { ...project.content, lintRules: updatedRules } });
+    } catch (err) {
+      setMessage(`Error saving lint rules: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Sections keep the report's standard order whatever order they're ticked in
+  const toggleReportSection = (sectionId: ReportSectionId, included: boolean) => {
+    const sections = new Set(reportTemplate.sections);
+    if (included) sections.add(sectionId);
+    else sections.delete(sectionId);
+    setReportTemplate({ ...reportTemplate, sections: REPORT_SECTIONS.map((s) => s.id).filter((id) => sections.has(id)) });
+  };
+
+  const saveReportTemplate = async () => {
+    if (!project) return;
+    const template: ReportTemplate = {
+      title: reportTemplate.title.trim() || DEFAULT_REPORT_TEMPLATE.title,
+      sections: reportTemplate.sections,
+    };
+    if (reportTemplate.preamble?.trim()) template.preamble = reportTemplate.preamble;
+    if (reportTemplate.summaryAgentId) template.summaryAgentId = reportTemplate.summaryAgentId;
+    try {
+      await saveProject({ ...project, content: { ...project.content, reportTemplate: template } });
+      setMessage('Report template saved.');
+    } catch (err) {
+      setMessage(`Error saving report template: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const runCheck = async () => {
+    setIsChecking(true);
+    setMessage(null);
+    try {
+      setReport(await docFlowKit.checkIntegrity());
+    } catch (err) {
+      setMessage(`Error checking integrity: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const runRepair = async () => {
+    if (!report) return;
+    setIsChecking(true);
+    try {
+      const result = await docFlowKit.repairIntegrity(report);
+      setMessage(
+        `Removed ${result.linksRemoved} broken link(s), re-attached ${result.reattached} document(s), deleted ${result.deleted} orphan(s).`
+      );
+      setReport(await docFlowKit.checkIntegrity());
+      onProjectChanged();
+    } catch (err) {
+      setMessage(`Error repairing database: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const problemCount = report ? report.danglingReferences.length + report.orphanedDocuments.length : 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Project Settings</DialogTitle>
+      <DialogContent>
+        <Typography variant="h6" sx={{ mb: 1 }}>
+          Database Integrity
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Finds links to documents that no longer exist and documents that nothing links to.
+        </Typography>
+
+        <Box display="flex" gap={1} mb={2}>
+          <Button variant="outlined" onClick={runCheck} disabled={isChecking}>
+            Check Integrity
+          </Button>
+          <Button variant="contained" onClick={runRepair} disabled={isChecking || problemCount === 0}>
+            Repair
+          </Button>
+          {isChecking && <CircularProgress size={24} />}
+        </Box>
+
+        {message && <Alert severity="info" sx={{ mb: 2 }}>{message}</Alert>}
+
+        {report && (
+          problemCount === 0 ? (
+            <Alert severity="success">
+              Checked {report.documentCount} documents. No problems found.
+            </Alert>
+          ) : (
+            <List dense>
+              {report.danglingReferences.map((ref) => (
+                <ListItem key={`${ref.source.docId}-${ref.missingDocId}`}>
+                  <ListItemText
+                    primary={`Broken link in ${ref.source.docType} "${ref.source.title}"`}
+                    secondary={`Points to missing document ${ref.missingDocId}`}
+                  />
+                </ListItem>
+              ))}
+              {report.orphanedDocuments.map((ref) => (
+                <ListItem key={ref.docId}>
+                  <ListItemText
+                    primary={`Orphaned ${ref.docType} "${ref.title}"`}
+                    secondary="Not used by any project or document"
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )
+        )}
+
+        {project && (
+          <>
+            <Divider sx={{ my: 3 }} />
+            <Typography variant="h6" sx={{ mb: 1 }}>
+              Graph Check Rules
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              How strictly the diagram editor reports each structural problem in this project.
+            </Typography>
+            <List dense>
+              {getLintRules().map((rule) => (
+                <ListItem
+                  key={rule.id}
+                  secondaryAction={
+                    <Select
+                      size="small"
+                      value={lintRules[rule.id] ?? 'default'}
+                      onChange={(e) => setLintRule(rule.id, e.target.value as LintSeverity | 'off' | 'default')}
+                    >
+                      <MenuItem value="default">Default ({rule.defaultSeverity})</MenuItem>
+                      <MenuItem value="error">Error</MenuItem>
+                      <MenuItem value="warning">Warning</MenuItem>
+                      <MenuItem value="info">Info</MenuItem>
+                      <MenuItem value="off">Off</MenuItem>
+                    </Select>
+                  }
+                >
+                  <ListItemText primary={rule.description} secondary={rule.id} />
+                </ListItem>
+              ))}
+            </List>
+
+            <Divider sx={{ my: 3 }} />
+            <Typography variant="h6" sx={{ mb: 1 }}>
+              Report Template
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              What diagram reports in this project contain. The title may use {'{diagramTitle}'} and {'{date}'}.
+            </Typography>
+            <TextField
+              label="Title"
+              size="small"
+              fullWidth
+              value={reportTemplate.title}
+              onChange={(e) => setReportTemplate({ ...reportTemplate, title: e.target.value })}
+              sx={{ mb: 2 }}
+            />
+            <TextField
+              label="Preamble"
+              size="small"
+              fullWidth
+              multiline
+              minRows={2}
+              value={reportTemplate.preamble ?? ''}
+              onChange={(e) => setReportTemplate({ ...reportTemplate, preamble: e.target.value })}
+              sx={{ mb: 1 }}
+            />
+            <FormGroup sx={{ mb: 2 }}>
+              {REPORT_SECTIONS.map((section) => (
+                <FormControlLabel
+                  key={section.id}
+                  label={section.heading}
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={reportTemplate.sections.includes(section.id)}
+                      onChange={(e) => toggleReportSection(section.id, e.target.checked)}
+                    />
+                  }
+                />
+              ))}
+            </FormGroup>
+            <FormControl size="small" fullWidth sx={{ mb: 2 }}>
+              <InputLabel id="report-summary-agent">Summary agent</InputLabel>
+              <Select
+                labelId="report-summary-agent"
+                label="Summary agent"
+                value={reportTemplate.summaryAgentId ?? ''}
+                onChange={(e) => setReportTemplate({ ...reportTemplate, summaryAgentId: e.target.value || undefined })}
+              >
+                <MenuItem value="">None</MenuItem>
+                {agents.map((agent) => (
+                  <MenuItem key={agent.docId} value={agent.docId}>
+                    {agent.title || agent.docId}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Button variant="outlined" onClick={saveReportTemplate}>
+              Save Report Template
+            </Button>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ProjectSettingsDialog;
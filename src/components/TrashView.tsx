@@ -0,0 +1,139 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Typography,
+  List,
+  ListItem,
+  ListItemText,
+  Alert,
+} from '@mui/material';
+import {
+  RestoreFromTrash as RestoreIcon,
+  DeleteForever as PurgeIcon,
+} from '@mui/icons-material';
+import { docFlowKit } from '../doc-flow-kit/DocFlowKit';
+import { BaseDocument } from '../doc-flow-kit/types';
+
+interface TrashViewProps {
+  projectId: string;
+  /** Called after a restore or purge changed the project */
+  onProjectChanged: () => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ projectId, onProjectChanged }) => {
+  const [documents, setDocuments] = useState<BaseDocument[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const retentionDays = docFlowKit.getTrashRetentionDays();
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setDocuments(await docFlowKit.listTrash(projectId));
+      setError(null);
+    } catch (err) {
+      setError(`Error loading trash: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadTrash();
+    // Trashing, restoring and purging all write to the project's documents
+    return docFlowKit.subscribe({ projectId }, () => {
+      loadTrash();
+    });
+  }, [loadTrash, projectId]);
+
+  const handleRestore = async (docId: string) => {
+    try {
+      await docFlowKit.restoreFromTrash(docId);
+      onProjectChanged();
+    } catch (err) {
+      setError(`Error restoring document: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handlePurge = async (doc: BaseDocument) => {
+    if (!confirm(`Permanently delete "${doc.title || 'Untitled'}"? This cannot be undone.`)) {
+      return;
+    }
+    try {
+      await docFlowKit.purgeDocument(doc.docId);
+      await loadTrash();
+    } catch (err) {
+      setError(`Error deleting document: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${documents.length} document(s) in the trash?`)) {
+      return;
+    }
+    try {
+      for (const doc of documents) {
+        await docFlowKit.purgeDocument(doc.docId);
+      }
+      await loadTrash();
+    } catch (err) {
+      setError(`Error emptying trash: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+        <Typography variant="h5">
+          Trash
+        </Typography>
+        <Button
+          variant="outlined"
+          color="error"
+          startIcon={<PurgeIcon />}
+          onClick={handleEmptyTrash}
+          disabled={documents.length === 0}
+        >
+          Empty Trash
+        </Button>
+      </Box>
+
+      {Number.isFinite(retentionDays) && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Documents are deleted permanently after {retentionDays} days in the trash.
+        </Typography>
+      )}
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      {documents.length === 0 ? (
+        <Typography variant="body1" color="text.secondary" sx={{ my: 4, textAlign: 'center' }}>
+          The trash is empty.
+        </Typography>
+      ) : (
+        <List>
+          {documents.map((doc) => (
+            <ListItem
+              key={doc.docId}
+              divider
+              secondaryAction={
+                <>
+                  <Button size="small" startIcon={<RestoreIcon />} onClick={() => handleRestore(doc.docId)}>
+                    Restore
+                  </Button>
+                  <Button size="small" color="error" startIcon={<PurgeIcon />} onClick={() => handlePurge(doc)}>
+                    Delete Permanently
+                  </Button>
+                </>
+              }
+            >
+              <ListItemText
+                primary={doc.title || `Untitled ${doc.docType}`}
+                secondary={`${doc.docType} · deleted ${new Date(doc.deletedAt!).toLocaleString()}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,96 @@
+import { ActionItemPriority, ActionItemStatus, GraphNode, UserDoc } from './types'
+import {
+  ACTION_ITEM_PRIORITIES,
+  ACTION_ITEM_STATUSES,
+  getActionItemProperties,
+  isOverdue,
+  updateActionItemProperties,
+} from './ActionItems'
+
+interface ActionItemFieldsProps {
+  node: GraphNode
+  /**
+   * Every node of the diagram; the causal factors among them can be mitigated
+   */
+  nodes: GraphNode[]
+  mitigatedId?: string
+  users: UserDoc[]
+  onChange: (node: GraphNode) => void
+  onMitigatesChange: (factorId: string | null) => void
+}
+
+/**
+ * Owner, due date, priority, status and mitigated factor of an ActionItem node
+ */
+export function ActionItemFields({ node, nodes, mitigatedId, users, onChange, onMitigatesChange }: ActionItemFieldsProps) {
+  const properties = getActionItemProperties(node)
+  const factors = nodes.filter((n) => n.type !== 'ActionItem')
+
+  return (
+    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', margin: '0.3rem 0 0 1rem', fontSize: '0.9rem' }}>
+      <label>
+        Mitigates:{' '}
+        <select value={mitigatedId ?? ''} onChange={(e) => onMitigatesChange(e.target.value || null)} style={{ padding: '0.2rem' }}>
+          <option value="">(none)</option>
+          {factors.map((n) => (
+            <option key={n.id} value={n.id}>
+              {n.label} ({n.type})
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Owner:{' '}
+        <select
+          value={properties.ownerId ?? ''}
+          onChange={(e) => onChange(updateActionItemProperties(node, { ownerId: e.target.value || undefined }))}
+          style={{ padding: '0.2rem' }}
+        >
+          <option value="">(unassigned)</option>
+          {users.map((user) => (
+            <option key={user.docId} value={user.docId}>
+              {user.content.displayName || user.content.email}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Due:{' '}
+        <input
+          type="date"
+          value={properties.dueDate ?? ''}
+          onChange={(e) => onChange(updateActionItemProperties(node, { dueDate: e.target.value || undefined }))}
+          style={{ padding: '0.2rem', ...(isOverdue(properties) ? { color: '#f44336', fontWeight: 'bold' } : {}) }}
+        />
+      </label>
+      <label>
+        Priority:{' '}
+        <select
+          value={properties.priority}
+          onChange={(e) => onChange(updateActionItemProperties(node, { priority: e.target.value as ActionItemPriority }))}
+          style={{ padding: '0.2rem' }}
+        >
+          {ACTION_ITEM_PRIORITIES.map((priority) => (
+            <option key={priority} value={priority}>
+              {priority}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Status:{' '}
+        <select
+          value={properties.status}
+          onChange={(e) => onChange(updateActionItemProperties(node, { status: e.target.value as ActionItemStatus }))}
+          style={{ padding: '0.2rem' }}
+        >
+          {ACTION_ITEM_STATUSES.map((status) => (
+            <option key={status} value={status}>
+              {status}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  )
+}
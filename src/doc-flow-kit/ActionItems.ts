@@ -0,0 +1,155 @@
+import {
+  ActionItemPriority,
+  ActionItemProperties,
+  ActionItemStatus,
+  DiagramDoc,
+  GraphEdge,
+  GraphNode,
+} from './types'
+import { docFlowKit } from './DocFlowKit'
+
+export const ACTION_ITEM_STATUSES: ActionItemStatus[] = ['open', 'in-progress', 'verified', 'closed']
+
+export const ACTION_ITEM_PRIORITIES: ActionItemPriority[] = ['low', 'medium', 'high', 'critical']
+
+/**
+ * An ActionItem node together with the diagram it lives in
+ */
+export interface ActionItemEntry {
+  diagramId: string
+  diagramTitle: string
+  node: GraphNode
+  properties: ActionItemProperties
+  /**
+   * The causal factor the item mitigates, if it is linked to one
+   */
+  mitigates?: GraphNode
+  overdue: boolean
+}
+
+export function isMitigationEdge(edge: GraphEdge): boolean {
+  return edge.type === 'mitigates'
+}
+
+/**
+ * The node's tracking fields, with new items open at medium priority
+ */
+export function getActionItemProperties(node: GraphNode): ActionItemProperties {
+  const { ownerId, dueDate, priority, status } = (node.properties ?? {}) as ActionItemProperties
+  return { ownerId, dueDate, priority: priority ?? 'medium', status: status ?? 'open' }
+}
+
+/**
+ * Returns a copy of the node with the given tracking fields changed;
+ * fields set to undefined are removed
+ */
+export function updateActionItemProperties(node: GraphNode, changes: Partial<ActionItemProperties>): GraphNode {
+  const properties: Record<string, unknown> = { ...node.properties, ...changes }
+  for (const key of Object.keys(changes)) {
+    if (properties[key] === undefined) delete properties[key]
+  }
+  return { ...node, properties }
+}
+
+/**
+ * Overdue means past the due date and not yet verified or closed
+ * @param today YYYY-MM-DD, defaulting to the local date
+ */
+export function isOverdue(properties: ActionItemProperties, today = localDate()): boolean {
+  const done = properties.status === 'verified' || properties.status === 'closed'
+  return !done && !!properties.dueDate && properties.dueDate < today
+}
+
+function localDate(): string {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * The id of the factor an ActionItem mitigates
+ */
+export function getMitigatedId(actionItemId: string, edges: GraphEdge[]): string | undefined {
+  return edges.find((e) => isMitigationEdge(e) && e.source === actionItemId)?.target
+}
+
+/**
+ * Returns the edges with the ActionItem linked to `factorId` instead of
+ * whatever it mitigated before, or to nothing when `factorId` is null
+ */
+export function setMitigatedFactor(actionItemId: string, factorId: string | null, edges: GraphEdge[]): GraphEdge[] {
+  const others = edges.filter((e) => !(isMitigationEdge(e) && e.source === actionItemId))
+  if (!factorId) return others
+  return [...others, { id: crypto.randomUUID(), source: actionItemId, target: factorId, type: 'mitigates' }]
+}
+
+export function getActionItems(diagram: DiagramDoc, today?: string): ActionItemEntry[] {
+  const { nodes, edges } = diagram.content
+  return nodes
+    .filter((n) => n.type === 'ActionItem')
+    .map((node) => {
+      const properties = getActionItemProperties(node)
+      const mitigatedId = getMitigatedId(node.id, edges)
+      return {
+        diagramId: diagram.docId,
+        diagramTitle: diagram.title,
+        node,
+        properties,
+        mitigates: nodes.find((n) => n.id === mitigatedId),
+        overdue: isOverdue(properties, today),
+      }
+    })
+}
+
+/**
+ * Collects the ActionItems of every diagram in a project
+ */
+export async function listProjectActionItems(projectId: string): Promise<ActionItemEntry[]> {
+  const entries: ActionItemEntry[] = []
+  let cursor: string | undefined
+  do {
+    const page = await docFlowKit.queryDocuments<DiagramDoc>({ docType: 'Diagram', where: { projectId }, cursor })
+    for (const diagram of page.documents) entries.push(...getActionItems(diagram))
+    cursor = page.nextCursor
+  } while (cursor)
+  return entries
+}
+
+// Saves still running, by diagram id
+const pendingSaves = new Map<string, Promise<void>>()
+
+/**
+ * Writes tracking field changes back to the ActionItem node in its diagram.
+ * Saves to the same diagram run one after another, so quick successive
+ * edits don't conflict with each other. Open diagram editors pick the
+ * change up through their subscription.
+ */
+export function saveActionItem(
+  diagramId: string,
+  nodeId: string,
+  changes: Partial<ActionItemProperties>
+): Promise<void> {
+  const previous = pendingSaves.get(diagramId) ?? Promise.resolve()
+  const save = previous.catch(() => {}).then(() => writeActionItem(diagramId, nodeId, changes))
+  pendingSaves.set(diagramId, save)
+  const cleanUp = () => {
+    if (pendingSaves.get(diagramId) === save) pendingSaves.delete(diagramId)
+  }
+  save.then(cleanUp, cleanUp)
+  return save
+}
+
+async function writeActionItem(
+  diagramId: string,
+  nodeId: string,
+  changes: Partial<ActionItemProperties>
+): Promise<void> {
+  const diagram = await docFlowKit.getDocument(diagramId) as DiagramDoc | null
+  if (!diagram) throw new Error(`Diagram ${diagramId} not found`)
+  if (!diagram.content.nodes.some((n) => n.id === nodeId)) {
+    throw new Error(`Action item ${nodeId} is no longer in diagram "${diagram.title}"`)
+  }
+  diagram.content.nodes = diagram.content.nodes.map((n) =>
+    n.id === nodeId ? updateActionItemProperties(n, changes) : n
+  )
+  await docFlowKit.updateDocument(diagram, { expectedRevision: diagram.revision ?? 0 })
+}
@@ -1,6 +1,9 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { AgentDoc } from './types'
 import { docFlowKit } from './DocFlowKit'
+import { useAutosave } from './Autosave'
+import { SaveStatusIndicator } from './SaveStatusIndicator'
+import { DraftRecoveryBanner } from './DraftRecoveryBanner'
 
 interface AgentManagerProps {
   agentDoc: AgentDoc
@@ -15,25 +18,44 @@ export function AgentManager({ agentDoc, onUpdate }: AgentManagerProps) {
   const [promptTemplate, setPromptTemplate] = useState(agentDoc.content.promptTemplate)
 
   /**
-   * Save agent changes to IndexedDB
+   * The agent as it would be saved, or null when nothing has changed
    */
-  async function saveAgent() {
+  const pending = useMemo(() => {
+    if (title === agentDoc.title && promptTemplate === agentDoc.content.promptTemplate) return null
+    const updated: AgentDoc = {
+      ...agentDoc,
+      title,
+      content: {
+        ...agentDoc.content,
+        promptTemplate,
+      },
+    }
+    return updated
+  }, [agentDoc, title, promptTemplate])
+
+  const { status, error: saveError, saveNow, recoveredDraft, dismissRecoveredDraft } = useAutosave(
+    agentDoc.docId,
+    pending,
+    saveAgent
+  )
+
+  /**
+   * Save agent changes, unless someone else saved the agent in the meantime
+   */
+  async function saveAgent(updated: AgentDoc) {
     try {
-      const updated: AgentDoc = {
-        ...agentDoc,
-        title,
-        content: {
-          ...agentDoc.content,
-          promptTemplate,
-        },
-      }
-      await docFlowKit.updateDocument(updated)
-      onUpdate?.(updated)
-      alert('Agent saved successfully!')
+      await docFlowKit.updateDocument(updated, { expectedRevision: updated.revision ?? 0 })
     } catch (err) {
       console.error('Error saving agent:', err)
-      alert(`Error saving agent: ${err instanceof Error ? err.message : String(err)}`)
+      throw err
     }
+    onUpdate?.(updated)
+  }
+
+  function restoreDraft(draft: AgentDoc) {
+    dismissRecoveredDraft()
+    setTitle(draft.title)
+    setPromptTemplate(draft.content.promptTemplate)
   }
 
   return (
@@ -49,13 +71,24 @@ export function AgentManager({ agentDoc, onUpdate }: AgentManagerProps) {
           />
         </label>
         <button 
-          onClick={saveAgent}
+          onClick={() => saveNow()}
+          disabled={!pending}
           style={{ padding: '0.5rem 1rem', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
         >
           Save Agent
         </button>
+        <SaveStatusIndicator status={status} error={saveError} onRetry={() => saveNow()} />
       </div>
 
+      {recoveredDraft && (
+        <DraftRecoveryBanner
+          draft={recoveredDraft}
+          headRevision={agentDoc.revision}
+          onRestore={() => restoreDraft(recoveredDraft.document as AgentDoc)}
+          onDiscard={dismissRecoveredDraft}
+        />
+      )}
+
       <hr />
 
       <div>
@@ -84,7 +117,8 @@ export function AgentManager({ agentDoc, onUpdate }: AgentManagerProps) {
 
       <div style={{ marginTop: '1rem' }}>
         <button 
-          onClick={saveAgent}
+          onClick={() => saveNow()}
+          disabled={!pending}
           style={{ padding: '0.5rem 1rem', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
         >
           Save Agent
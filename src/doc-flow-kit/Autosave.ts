@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from 'react'
+import { BaseDocument, DocumentDraft } from './types'
+import { docFlowKit } from './DocFlowKit'
+import { hashDocument } from './DocumentDiff'
+
+/**
+ * Quiet time after the last edit before it is saved
+ */
+export const AUTOSAVE_DELAY_MS = 1500
+
+// Drafts are cheap local writes, so they follow edits more closely
+const DRAFT_DELAY_MS = 300
+
+export type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'error'
+
+export interface AutosaveOptions {
+  delay?: number
+  /**
+   * Holds off autosaving, e.g. while a merge dialog is open. A save is
+   * scheduled again by the next edit.
+   */
+  paused?: boolean
+}
+
+// Open editors with unsaved edits, by docId, with the document's title
+const unsavedEditors = new Map<string, string>()
+
+function warnBeforeUnload(e: BeforeUnloadEvent) {
+  if (unsavedEditors.size === 0) return
+  e.preventDefault()
+  // Older browsers only prompt when returnValue is set
+  e.returnValue = ''
+}
+
+/**
+ * Asks before leaving an editor with unsaved edits. Call it before
+ * switching documents; once the user agrees, the edits are left to their
+ * draft and don't prompt again.
+ * @returns Whether to go ahead
+ */
+export function confirmLeavingUnsavedChanges(): boolean {
+  if (unsavedEditors.size === 0) return true
+  const titles = [...unsavedEditors.values()].map((title) => `"${title}"`).join(', ')
+  const leave = window.confirm(
+    `${titles} has changes that are not saved yet. Leave anyway?\n\nThey are kept as a draft and offered again when you reopen it.`
+  )
+  if (leave) unsavedEditors.clear()
+  return leave
+}
+
+/**
+ * Saves an editor's changes shortly after each edit, keeps a draft of them
+ * until they are saved, and offers back a draft left by an earlier session.
+ * @param pending The document with the editor's changes applied, or null
+ *   when there are none. Its revision is the one the changes were made on.
+ * @param save Writes a document; throws if it can't be saved
+ */
+export function useAutosave<D extends BaseDocument>(
+  docId: string,
+  pending: D | null,
+  save: (doc: D) => Promise<void>,
+  { delay = AUTOSAVE_DELAY_MS, paused = false }: AutosaveOptions = {}
+) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [recoveredDraft, setRecoveredDraft] = useState<DocumentDraft | null>(null)
+
+  const latest = useRef({ pending, save, paused, saveNow })
+  useEffect(() => {
+    latest.current = { pending, save, paused, saveNow }
+  })
+  const inFlight = useRef(false)
+  // Bumped by every draft write, so a save only discards the draft it covers
+  const draftSeq = useRef(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    // A draft that matches the stored document was saved after all
+    async function loadDraft() {
+      const draft = await docFlowKit.getDraft(docId)
+      if (!draft) return
+      const stored = await docFlowKit.getDocument(docId)
+      if (stored && (await hashDocument(stored)) === (await hashDocument(draft.document))) {
+        await docFlowKit.discardDraft(docId)
+      } else if (!cancelled) {
+        setRecoveredDraft(draft)
+      }
+    }
+
+    loadDraft().catch((err) => console.error('Error reading draft:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [docId])
+
+  useEffect(() => {
+    if (!pending) return
+    const draftTimer = setTimeout(() => {
+      draftSeq.current++
+      docFlowKit.saveDraft(pending).catch((err) => console.error('Error saving draft:', err))
+    }, DRAFT_DELAY_MS)
+    const saveTimer = setTimeout(() => {
+      if (!latest.current.paused) latest.current.saveNow()
+    }, delay)
+    return () => {
+      clearTimeout(draftTimer)
+      clearTimeout(saveTimer)
+    }
+  }, [pending, delay])
+
+  useEffect(() => {
+    if (!pending) return
+    unsavedEditors.set(docId, pending.title)
+    window.addEventListener('beforeunload', warnBeforeUnload)
+    return () => {
+      unsavedEditors.delete(docId)
+      if (unsavedEditors.size === 0) window.removeEventListener('beforeunload', warnBeforeUnload)
+    }
+  }, [docId, pending])
+
+  /**
+   * Saves now instead of waiting for the delay. While another save is
+   * running it does nothing; the edits it misses are saved after it.
+   * @param doc What to save; defaults to the pending changes
+   * @returns Whether the document was saved
+   */
+  async function saveNow(doc: D | null = latest.current.pending): Promise<boolean> {
+    if (!doc || inFlight.current) return false
+    inFlight.current = true
+    setSaving(true)
+    const seq = draftSeq.current
+    try {
+      await latest.current.save(doc)
+      setError(null)
+      // Before the re-render, so leaving right after a save doesn't ask
+      unsavedEditors.delete(docId)
+      if (draftSeq.current === seq) await docFlowKit.discardDraft(docId)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+      return false
+    } finally {
+      inFlight.current = false
+      setSaving(false)
+    }
+  }
+
+  function dismissRecoveredDraft() {
+    setRecoveredDraft(null)
+    docFlowKit.discardDraft(docId).catch((err) => console.error('Error discarding draft:', err))
+  }
+
+  const status: SaveStatus = saving ? 'saving' : !pending ? 'saved' : error ? 'error' : 'unsaved'
+
+  return { status, error, saveNow, recoveredDraft, dismissRecoveredDraft }
+}
@@ -0,0 +1,129 @@
+import { GraphNode, NodePosition } from './types'
+import { NODE_COLORS } from './GraphSvg'
+
+export const CANVAS_NODE_WIDTH = 160
+export const CANVAS_NODE_HEIGHT = 56
+
+export type NodeShape = 'rect' | 'roundRect' | 'ellipse' | 'diamond' | 'hexagon' | 'octagon' | 'parallelogram' | 'note'
+
+export interface NodeStyle {
+  shape: NodeShape
+  color: string
+  dashed?: boolean
+}
+
+const NODE_SHAPES: Record<string, NodeShape> = {
+  Incident: 'octagon',
+  Damage: 'hexagon',
+  Event: 'rect',
+  UnEvent: 'rect',
+  State: 'ellipse',
+  Assumption: 'parallelogram',
+  Process: 'roundRect',
+  ActionItem: 'note',
+  ProximateCause: 'diamond',
+  GenericNode: 'roundRect',
+}
+
+export function getNodeStyle(type: string): NodeStyle {
+  return {
+    shape: NODE_SHAPES[type] ?? 'roundRect',
+    color: NODE_COLORS[type] ?? NODE_COLORS.GenericNode,
+    // An UnEvent is something that did not happen
+    dashed: type === 'UnEvent',
+  }
+}
+
+/**
+ * SVG path of a shape filling a w × h box at the origin
+ */
+export function shapePath(shape: NodeShape, w: number, h: number): string {
+  const c = Math.min(w, h) / 4
+  switch (shape) {
+    case 'rect':
+      return `M0,0 H${w} V${h} H0 Z`
+    case 'roundRect':
+      return `M${c},0 H${w - c} Q${w},0 ${w},${c} V${h - c} Q${w},${h} ${w - c},${h} H${c} Q0,${h} 0,${h - c} V${c} Q0,0 ${c},0 Z`
+    case 'ellipse':
+      return `M0,${h / 2} A${w / 2},${h / 2} 0 1,0 ${w},${h / 2} A${w / 2},${h / 2} 0 1,0 0,${h / 2} Z`
+    case 'diamond':
+      return `M${w / 2},0 L${w},${h / 2} L${w / 2},${h} L0,${h / 2} Z`
+    case 'hexagon':
+      return `M${c},0 H${w - c} L${w},${h / 2} L${w - c},${h} H${c} L0,${h / 2} Z`
+    case 'octagon':
+      return `M${c},0 H${w - c} L${w},${c} V${h - c} L${w - c},${h} H${c} L0,${h - c} V${c} Z`
+    case 'parallelogram':
+      return `M${c},0 H${w} L${w - c},${h} H0 Z`
+    case 'note':
+      return `M0,0 H${w - c} L${w},${c} V${h} H0 Z M${w - c},0 V${c} H${w}`
+  }
+}
+
+export function getPosition(node: GraphNode): NodePosition | undefined {
+  return node.properties?.position as NodePosition | undefined
+}
+
+export function setPosition(node: GraphNode, position: NodePosition): GraphNode {
+  return { ...node, properties: { ...node.properties, position: { x: Math.round(position.x), y: Math.round(position.y) } } }
+}
+
+/**
+ * Positions for every node: saved ones as they are, and a grid spot below
+ * them for nodes that have never been placed
+ */
+export function resolvePositions(nodes: GraphNode[]): Map<string, NodePosition> {
+  const positions = new Map<string, NodePosition>()
+  let bottom = 0
+  for (const node of nodes) {
+    const position = getPosition(node)
+    if (!position) continue
+    positions.set(node.id, position)
+    bottom = Math.max(bottom, position.y + CANVAS_NODE_HEIGHT + 40)
+  }
+  const columns = 4
+  nodes
+    .filter((node) => !positions.has(node.id))
+    .forEach((node, i) => {
+      positions.set(node.id, {
+        x: (i % columns) * (CANVAS_NODE_WIDTH + 40),
+        y: bottom + Math.floor(i / columns) * (CANVAS_NODE_HEIGHT + 40),
+      })
+    })
+  return positions
+}
+
+/**
+ * Where the line from a node's centre towards `toward` leaves its box
+ */
+export function boundaryPoint(position: NodePosition, toward: NodePosition): NodePosition {
+  const cx = position.x + CANVAS_NODE_WIDTH / 2
+  const cy = position.y + CANVAS_NODE_HEIGHT / 2
+  const dx = toward.x - cx
+  const dy = toward.y - cy
+  if (dx === 0 && dy === 0) return { x: cx, y: cy }
+  const scale = Math.min(
+    dx === 0 ? Infinity : CANVAS_NODE_WIDTH / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : CANVAS_NODE_HEIGHT / 2 / Math.abs(dy)
+  )
+  return { x: cx + dx * scale, y: cy + dy * scale }
+}
+
+export function nodeCenter(position: NodePosition): NodePosition {
+  return { x: position.x + CANVAS_NODE_WIDTH / 2, y: position.y + CANVAS_NODE_HEIGHT / 2 }
+}
+
+/**
+ * The topmost node whose box contains the point
+ */
+export function nodeAt(nodes: GraphNode[], positions: Map<string, NodePosition>, point: NodePosition): GraphNode | undefined {
+  return [...nodes].reverse().find((node) => {
+    const position = positions.get(node.id)
+    return (
+      !!position &&
+      point.x >= position.x &&
+      point.x <= position.x + CANVAS_NODE_WIDTH &&
+      point.y >= position.y &&
+      point.y <= position.y + CANVAS_NODE_HEIGHT
+    )
+  })
+}
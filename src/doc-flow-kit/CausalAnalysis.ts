@@ -0,0 +1,246 @@
+import { GraphNode, NodeBasedContent } from './types'
+import { getCounterfactualStatus, isCausalEdge } from './Counterfactual'
+
+/**
+ * Node types the analysis explains: paths run from the root factors to these
+ */
+const TARGET_TYPES = ['Incident', 'Damage']
+
+// Not causal factors in their own right, so never roots or links in a chain
+const NON_FACTOR_TYPES = ['ActionItem']
+
+export interface CausalAnalysisOptions {
+  /**
+   * Stop enumerating causal paths after this many
+   */
+  maxPaths?: number
+  /**
+   * Largest cut set to look for
+   */
+  maxCutSetSize?: number
+}
+
+export interface RootCoverage {
+  rootId: string
+  /**
+   * ActionItems attached to the root factor by an edge in either direction
+   */
+  actionItemIds: string[]
+}
+
+export interface CausalAnalysis {
+  /**
+   * Causal factors with no causes of their own that lead to a target
+   */
+  rootIds: string[]
+  targetIds: string[]
+  /**
+   * Every causal chain from a root to a target, as node ids in causal order
+   */
+  paths: string[][]
+  /**
+   * Minimal sets of nodes that together lie on every causal path, so that
+   * preventing all of them breaks every chain to the targets
+   */
+  cutSets: string[][]
+  coverage: RootCoverage[]
+  /**
+   * Whether `maxPaths` was hit; paths and cut sets are then incomplete
+   */
+  truncated: boolean
+}
+
+/**
+ * Extracts the causal structure of a WB-graph. Only causal edges that haven't
+ * failed the Counterfactual Test count.
+ */
+export function analyzeCausalStructure(
+  { nodes, edges }: NodeBasedContent,
+  { maxPaths = 500, maxCutSetSize = 3 }: CausalAnalysisOptions = {}
+): CausalAnalysis {
+  const factors = new Map(nodes.filter((n) => !NON_FACTOR_TYPES.includes(n.type)).map((n) => [n.id, n]))
+  const causalEdges = edges.filter(
+    (e) => isCausalEdge(e) && getCounterfactualStatus(e) !== 'fail' && factors.has(e.source) && factors.has(e.target)
+  )
+
+  const effectsOf = new Map<string, string[]>()
+  const causesOf = new Map<string, string[]>()
+  for (const edge of causalEdges) {
+    effectsOf.set(edge.source, [...(effectsOf.get(edge.source) ?? []), edge.target])
+    causesOf.set(edge.target, [...(causesOf.get(edge.target) ?? []), edge.source])
+  }
+
+  const targetIds = [...factors.values()].filter((n) => TARGET_TYPES.includes(n.type)).map((n) => n.id)
+  const targets = new Set(targetIds)
+
+  // Breadth-first back from the targets, so the walk skips branches that lead nowhere
+  const reachesTarget = new Set(targetIds)
+  const queue = [...targetIds]
+  while (queue.length > 0) {
+    for (const cause of causesOf.get(queue.shift()!) ?? []) {
+      if (!reachesTarget.has(cause)) {
+        reachesTarget.add(cause)
+        queue.push(cause)
+      }
+    }
+  }
+
+  // Depth-first from each uncaused factor, never revisiting a node within a path
+  const paths: string[][] = []
+  let truncated = false
+  const path: string[] = []
+  const onPath = new Set<string>()
+  const walk = (id: string) => {
+    if (truncated) return
+    path.push(id)
+    onPath.add(id)
+    if (targets.has(id) && path.length > 1) {
+      if (paths.length >= maxPaths) {
+        truncated = true
+      } else {
+        paths.push([...path])
+      }
+    }
+    for (const next of effectsOf.get(id) ?? []) {
+      if (reachesTarget.has(next) && !onPath.has(next)) walk(next)
+    }
+    path.pop()
+    onPath.delete(id)
+  }
+  for (const id of factors.keys()) {
+    if (reachesTarget.has(id) && !causesOf.has(id) && !targets.has(id)) walk(id)
+  }
+
+  const rootIds = [...new Set(paths.map((p) => p[0]))]
+
+  const coverage = rootIds.map((rootId) => ({
+    rootId,
+    actionItemIds: edges
+      .filter((e) => e.source === rootId || e.target === rootId)
+      .map((e) => (e.source === rootId ? e.target : e.source))
+      .filter((id) => nodes.find((n) => n.id === id)?.type === 'ActionItem'),
+  }))
+
+  return {
+    rootIds,
+    targetIds,
+    paths,
+    cutSets: findMinimalCutSets(paths, targets, maxCutSetSize),
+    coverage,
+    truncated,
+  }
+}
+
+/**
+ * Node sets of up to `maxSize` that hit every path, none containing another.
+ * Nodes on exactly the same paths are interchangeable, so the search runs
+ * over groups of them. It grows a set by branching on the groups on the
+ * first path the set misses, since any cut set must include one of them;
+ * that keeps the work near path length to the power of `maxSize` rather
+ * than every combination of nodes.
+ */
+function findMinimalCutSets(paths: string[][], targets: Set<string>, maxSize: number): string[][] {
+  if (paths.length === 0) return []
+  const words = Math.ceil(paths.length / 32)
+
+  // The paths each node lies on, as a bitset; nodes in order of first appearance
+  const coverage = new Map<string, Uint32Array>()
+  paths.forEach((path, i) => {
+    for (const id of path) {
+      if (targets.has(id)) continue
+      let bits = coverage.get(id)
+      if (!bits) coverage.set(id, (bits = new Uint32Array(words)))
+      bits[i >>> 5] |= 1 << (i & 31)
+    }
+  })
+  const rank = new Map([...coverage.keys()].map((id, i) => [id, i]))
+
+  const groupsByCoverage = new Map<string, { bits: Uint32Array; ids: string[] }>()
+  for (const [id, bits] of coverage) {
+    const key = bits.join(',')
+    const group = groupsByCoverage.get(key)
+    if (group) group.ids.push(id)
+    else groupsByCoverage.set(key, { bits, ids: [id] })
+  }
+  const groups = [...groupsByCoverage.values()]
+
+  const all = new Uint32Array(words).fill(0xffffffff)
+  if (paths.length % 32 !== 0) all[words - 1] = (1 << (paths.length % 32)) - 1
+  const union = (members: number[], skip = -1) => {
+    const bits = new Uint32Array(words)
+    members.forEach((g, i) => {
+      if (i !== skip) for (let w = 0; w < words; w++) bits[w] |= groups[g].bits[w]
+    })
+    return bits
+  }
+  const firstMissed = (bits: Uint32Array) => {
+    for (let w = 0; w < words; w++) {
+      const missed = all[w] & ~bits[w]
+      if (missed !== 0) return w * 32 + 31 - Math.clz32(missed & -missed)
+    }
+    return -1
+  }
+  const covers = (g: number, path: number) => (groups[g].bits[path >>> 5] & (1 << (path & 31))) !== 0
+
+  // Groups tried earlier at a level are left out of later branches, so each set is found once
+  const found: number[][] = []
+  const extend = (members: number[], excluded: Set<number>) => {
+    const path = firstMissed(union(members))
+    if (path < 0) {
+      // Minimal when every member covers some path the others miss
+      if (members.every((_, i) => firstMissed(union(members, i)) >= 0)) found.push(members)
+      return
+    }
+    if (members.length === maxSize) return
+    const tried = new Set(excluded)
+    groups.forEach((_, g) => {
+      if (tried.has(g) || !covers(g, path)) return
+      extend([...members, g], tried)
+      tried.add(g)
+    })
+  }
+  extend([], new Set())
+
+  // Any one node from each group makes a cut set
+  const cutSets = found.flatMap((members) =>
+    members.reduce<string[][]>((sets, g) => sets.flatMap((set) => groups[g].ids.map((id) => [...set, id])), [[]])
+  )
+  const byRank = (a: string, b: string) => rank.get(a)! - rank.get(b)!
+  const bySizeThenRank = (a: string[], b: string[]) => {
+    if (a.length !== b.length) return a.length - b.length
+    const i = a.findIndex((id, j) => id !== b[j])
+    return i < 0 ? 0 : byRank(a[i], b[i])
+  }
+  cutSets.forEach((set) => set.sort(byRank))
+  return cutSets.sort(bySizeThenRank)
+}
+
+/**
+ * Renders an analysis as a Markdown section, for reports and copying
+ */
+export function causalAnalysisToMarkdown(content: NodeBasedContent, analysis: CausalAnalysis): string {
+  const label = (id: string) => {
+    const node: GraphNode | undefined = content.nodes.find((n) => n.id === id)
+    return node ? `${node.label} (${node.type})` : id
+  }
+  const lines: string[] = ['## Causal Analysis', '']
+
+  lines.push('### Root Factors', '')
+  if (analysis.rootIds.length === 0) lines.push('_No causal chain reaches an Incident or Damage node._')
+  for (const { rootId, actionItemIds } of analysis.coverage) {
+    const addressedBy = actionItemIds.length > 0
+      ? `addressed by ${actionItemIds.map(label).join(', ')}`
+      : '**no ActionItem**'
+    lines.push(`- ${label(rootId)}: ${addressedBy}`)
+  }
+
+  lines.push('', '### Causal Chains', '')
+  analysis.paths.forEach((path, i) => lines.push(`${i + 1}. ${path.map(label).join(' → ')}`))
+  if (analysis.truncated) lines.push('', `_Only the first ${analysis.paths.length} chains are listed._`)
+
+  lines.push('', '### Minimal Cut Sets', '')
+  if (analysis.cutSets.length === 0) lines.push('_None found within the size limit._')
+  for (const cutSet of analysis.cutSets) lines.push(`- {${cutSet.map(label).join(', ')}}`)
+
+  return lines.join('\n') + '\n'
+}
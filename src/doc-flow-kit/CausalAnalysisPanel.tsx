@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react'
+import { GraphEdge, GraphNode } from './types'
+import { analyzeCausalStructure, causalAnalysisToMarkdown } from './CausalAnalysis'
+
+interface CausalAnalysisPanelProps {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  onSelectNode: (nodeId: string) => void
+}
+
+const linkStyle = {
+  padding: 0,
+  background: 'none',
+  border: 'none',
+  color: '#2196F3',
+  cursor: 'pointer',
+  textDecoration: 'underline',
+}
+
+/**
+ * Side panel with the root factors, causal chains and cut sets of a diagram
+ */
+export function CausalAnalysisPanel({ nodes, edges, onSelectNode }: CausalAnalysisPanelProps) {
+  const content = useMemo(() => ({ nodes, edges }), [nodes, edges])
+  const analysis = useMemo(() => analyzeCausalStructure(content), [content])
+  const [copied, setCopied] = useState(false)
+
+  const label = (id: string) => content.nodes.find((n) => n.id === id)?.label || id
+  const nodeLink = (id: string) => (
+    <button key={id} onClick={() => onSelectNode(id)} style={linkStyle}>
+      {label(id)}
+    </button>
+  )
+
+  async function copyMarkdown() {
+    await navigator.clipboard.writeText(causalAnalysisToMarkdown(content, analysis))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <aside style={{ width: '320px', flexShrink: 0, border: '1px solid #ccc', padding: '1rem', margin: '1rem 0', borderRadius: '4px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h4 style={{ margin: 0 }}>Causal Analysis</h4>
+        <button
+          onClick={copyMarkdown}
+          style={{ padding: '0.3rem 0.6rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+        >
+          {copied ? 'Copied' : 'Copy Markdown'}
+        </button>
+      </div>
+
+      <h5>Root Factors ({analysis.rootIds.length})</h5>
+      {analysis.rootIds.length === 0 ? (
+        <p style={{ color: '#666' }}>No causal chain reaches an Incident or Damage node.</p>
+      ) : (
+        <ul style={{ paddingLeft: '1.2rem' }}>
+          {analysis.coverage.map(({ rootId, actionItemIds }) => (
+            <li key={rootId}>
+              {nodeLink(rootId)}
+              {actionItemIds.length > 0 ? (
+                <span style={{ color: '#4CAF50' }}> ✓ {actionItemIds.map(label).join(', ')}</span>
+              ) : (
+                <span style={{ color: '#f44336' }}> no ActionItem</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h5>Causal Chains ({analysis.paths.length}{analysis.truncated ? '+' : ''})</h5>
+      <ol style={{ paddingLeft: '1.2rem', maxHeight: '240px', overflowY: 'auto' }}>
+        {analysis.paths.map((path, i) => (
+          <li key={i} style={{ marginBottom: '0.3rem' }}>
+            {path.map((id, j) => (
+              <span key={id}>
+                {j > 0 && ' → '}
+                {nodeLink(id)}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ol>
+
+      <h5>Minimal Cut Sets</h5>
+      {analysis.cutSets.length === 0 ? (
+        <p style={{ color: '#666' }}>None found.</p>
+      ) : (
+        <ul style={{ paddingLeft: '1.2rem' }}>
+          {analysis.cutSets.map((cutSet) => (
+            <li key={cutSet.join()}>
+              {'{'}
+              {cutSet.map((id, j) => (
+                <span key={id}>
+                  {j > 0 && ', '}
+                  {nodeLink(id)}
+                </span>
+              ))}
+              {'}'}
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  )
+}
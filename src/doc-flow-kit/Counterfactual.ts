@@ -0,0 +1,61 @@
+import { CounterfactualCheck, CounterfactualVerdict, GraphEdge, GraphNode } from './types'
+
+export type CounterfactualStatus = CounterfactualVerdict | 'unchecked'
+
+/**
+ * Whether an edge takes part in the Counterfactual Test
+ */
+export function isCausalEdge(edge: GraphEdge): boolean {
+  return edge.type === 'causal'
+}
+
+export function getCounterfactualStatus(edge: GraphEdge): CounterfactualStatus {
+  const check = edge.properties?.counterfactual as CounterfactualCheck | undefined
+  return check?.verdict ?? 'unchecked'
+}
+
+/**
+ * The counterfactual question for an edge, in the method's own words
+ */
+export function counterfactualQuestion(cause: GraphNode | undefined, effect: GraphNode | undefined): string {
+  return `Had "${cause?.label ?? 'the cause'}" not occurred, would "${effect?.label ?? 'the effect'}" have occurred?`
+}
+
+/**
+ * Returns a copy of the edge with the test's outcome recorded on it
+ */
+export function recordCounterfactual(
+  edge: GraphEdge,
+  verdict: CounterfactualVerdict,
+  justification: string,
+  checkedBy?: string
+): GraphEdge {
+  const counterfactual: CounterfactualCheck = {
+    verdict,
+    justification,
+    checkedBy,
+    checkedAt: new Date().toISOString(),
+  }
+  return { ...edge, properties: { ...edge.properties, counterfactual } }
+}
+
+/**
+ * Returns a copy of the edge with its recorded outcome removed, e.g. after
+ * the reviewer changes their mind
+ */
+export function clearCounterfactual(edge: GraphEdge): GraphEdge {
+  const properties = { ...edge.properties }
+  delete properties.counterfactual
+  return { ...edge, properties }
+}
+
+/**
+ * Counts of causal edges by test outcome
+ */
+export function summarizeCounterfactuals(edges: GraphEdge[]): Record<CounterfactualStatus, number> {
+  const summary: Record<CounterfactualStatus, number> = { pass: 0, fail: 0, unchecked: 0 }
+  for (const edge of edges.filter(isCausalEdge)) {
+    summary[getCounterfactualStatus(edge)]++
+  }
+  return summary
+}
@@ -0,0 +1,157 @@
+import { useState } from 'react'
+import { CounterfactualVerdict, GraphEdge, GraphNode } from './types'
+import { docFlowKit } from './DocFlowKit'
+import {
+  counterfactualQuestion,
+  getCounterfactualStatus,
+  isCausalEdge,
+  recordCounterfactual,
+  summarizeCounterfactuals,
+} from './Counterfactual'
+
+interface CounterfactualReviewProps {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  /**
+   * Called with the edge carrying the recorded outcome
+   */
+  onRecord: (edge: GraphEdge) => void
+  onClose: () => void
+}
+
+/**
+ * Guided Counterfactual Test: walks the causal edges one at a time, asks the
+ * counterfactual question and records the answer with a justification.
+ * Ends with the edges that failed, which don't belong in the WB-graph as drawn.
+ */
+export function CounterfactualReview({ nodes, edges, onRecord, onClose }: CounterfactualReviewProps) {
+  const [includeChecked, setIncludeChecked] = useState(false)
+  // Fixed when the walk starts, so recording an answer doesn't reshuffle it
+  const [queue, setQueue] = useState<string[]>(() =>
+    edges.filter((e) => isCausalEdge(e) && getCounterfactualStatus(e) === 'unchecked').map((e) => e.id)
+  )
+  const [position, setPosition] = useState(0)
+  const [justification, setJustification] = useState('')
+
+  const nodeById = (id: string) => nodes.find((n) => n.id === id)
+  const current = edges.find((e) => e.id === queue[position])
+  const isDone = position >= queue.length
+  const summary = summarizeCounterfactuals(edges)
+  const failed = edges.filter((e) => isCausalEdge(e) && getCounterfactualStatus(e) === 'fail')
+
+  function restart(withChecked: boolean) {
+    const toReview = edges.filter(
+      (e) => isCausalEdge(e) && (withChecked || getCounterfactualStatus(e) === 'unchecked')
+    )
+    setIncludeChecked(withChecked)
+    setQueue(toReview.map((e) => e.id))
+    setPosition(0)
+    setJustification((toReview[0]?.properties?.counterfactual?.justification as string | undefined) ?? '')
+  }
+
+  function advance() {
+    setPosition((p) => p + 1)
+    const next = edges.find((e) => e.id === queue[position + 1])
+    setJustification((next?.properties?.counterfactual?.justification as string | undefined) ?? '')
+  }
+
+  function answer(verdict: CounterfactualVerdict) {
+    if (!current) return
+    onRecord(recordCounterfactual(current, verdict, justification.trim(), docFlowKit.getCurrentUser() ?? undefined))
+    advance()
+  }
+
+  const buttonStyle = (backgroundColor: string, enabled = true) => ({
+    padding: '0.5rem 1rem',
+    backgroundColor: enabled ? backgroundColor : '#cccccc',
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  })
+
+  return (
+    <div style={{ border: '2px solid #9C27B0', padding: '1rem', borderRadius: '4px', marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h4 style={{ margin: 0 }}>Counterfactual Review</h4>
+        <span style={{ fontSize: '0.9rem', color: '#666' }}>
+          {summary.pass} passed · {summary.fail} failed · {summary.unchecked} unchecked
+        </span>
+      </div>
+
+      {!isDone && current ? (
+        <>
+          <p style={{ color: '#666' }}>
+            Edge {position + 1} of {queue.length}: {nodeById(current.source)?.label ?? current.source} →{' '}
+            {nodeById(current.target)?.label ?? current.target}
+          </p>
+          <p style={{ fontSize: '1.1rem', fontWeight: 'bold' }}>
+            {counterfactualQuestion(nodeById(current.source), nodeById(current.target))}
+          </p>
+          <textarea
+            value={justification}
+            onChange={(e) => setJustification(e.target.value)}
+            placeholder="Justification: why would, or wouldn't, the effect have occurred?"
+            rows={3}
+            style={{ width: '100%', padding: '0.5rem', boxSizing: 'border-box', marginBottom: '0.5rem' }}
+          />
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <button
+              onClick={() => answer('pass')}
+              disabled={!justification.trim()}
+              style={buttonStyle('#4CAF50', !!justification.trim())}
+            >
+              No, it would not have occurred (passes)
+            </button>
+            <button
+              onClick={() => answer('fail')}
+              disabled={!justification.trim()}
+              style={buttonStyle('#f44336', !!justification.trim())}
+            >
+              Yes, it would have occurred anyway (fails)
+            </button>
+            <button onClick={advance} style={buttonStyle('#607D8B')}>
+              Skip
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p>
+            {queue.length === 0
+              ? 'There are no causal edges left to check.'
+              : `Reviewed ${queue.length} edge(s).`}
+          </p>
+          {failed.length > 0 ? (
+            <>
+              <p style={{ color: '#f44336', fontWeight: 'bold' }}>
+                {failed.length} edge(s) fail the Counterfactual Test. Remove them or correct the graph:
+              </p>
+              <ul>
+                {failed.map((edge) => (
+                  <li key={edge.id}>
+                    {nodeById(edge.source)?.label ?? edge.source} → {nodeById(edge.target)?.label ?? edge.target}
+                    {edge.properties?.counterfactual?.justification
+                      ? ` - ${edge.properties.counterfactual.justification}`
+                      : ''}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            summary.unchecked === 0 && <p style={{ color: '#4CAF50' }}>Every causal edge passes the Counterfactual Test.</p>
+          )}
+        </>
+      )}
+
+      <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem', marginTop: '1rem' }}>
+        <button onClick={() => restart(!includeChecked)} style={buttonStyle('#2196F3')}>
+          {includeChecked ? 'Review Unchecked Only' : 'Review All Edges Again'}
+        </button>
+        <button onClick={onClose} style={buttonStyle('#607D8B')}>
+          Close Review
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react'
+import { DiagramDoc } from './types'
+import { getDiagramAncestors } from './SubDiagrams'
+
+interface DiagramBreadcrumbsProps {
+  diagramDoc: DiagramDoc
+  onNavigate: (docId: string) => void
+}
+
+/**
+ * Path from the outermost diagram down to this sub-diagram, with a way back up
+ */
+export function DiagramBreadcrumbs({ diagramDoc, onNavigate }: DiagramBreadcrumbsProps) {
+  const [ancestors, setAncestors] = useState<DiagramDoc[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    getDiagramAncestors(diagramDoc.docId)
+      .then((docs) => {
+        if (!cancelled) setAncestors(docs)
+      })
+      .catch((err) => console.error('Error loading parent diagrams:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [diagramDoc.docId])
+
+  if (ancestors.length === 0) return null
+  const parent = ancestors[ancestors.length - 1]
+
+  return (
+    <nav style={{ display: 'flex', alignItems: 'center', gap: '0.3rem', marginBottom: '0.5rem', fontSize: '0.9rem', flexWrap: 'wrap' }}>
+      <button
+        onClick={() => onNavigate(parent.docId)}
+        title={`Up to "${parent.title}"`}
+        style={{ padding: '0.2rem 0.5rem', marginRight: '0.5rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+      >
+        ▲ Up
+      </button>
+      {ancestors.map((doc) => (
+        <span key={doc.docId}>
+          <button
+            onClick={() => onNavigate(doc.docId)}
+            style={{ padding: 0, background: 'none', border: 'none', color: '#2196F3', cursor: 'pointer', textDecoration: 'underline' }}
+          >
+            {doc.title || 'Untitled'}
+          </button>
+          {' ›'}
+        </span>
+      ))}
+      <strong>{diagramDoc.title || 'Untitled'}</strong>
+    </nav>
+  )
+}
@@ -0,0 +1,466 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { GraphEdge, GraphNode, NodePosition } from './types'
+import { getCounterfactualStatus } from './Counterfactual'
+import { isMitigationEdge } from './ActionItems'
+import {
+  CANVAS_NODE_HEIGHT,
+  CANVAS_NODE_WIDTH,
+  boundaryPoint,
+  getNodeStyle,
+  nodeAt,
+  nodeCenter,
+  resolvePositions,
+  shapePath,
+} from './CanvasGeometry'
+
+interface DiagramCanvasProps {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  selectedIds: string[]
+  onSelectionChange: (nodeIds: string[]) => void
+  /**
+   * Called once per drag, with the new positions of the moved nodes
+   */
+  onMoveNodes: (positions: Map<string, NodePosition>) => void
+  /**
+   * A causal edge was drawn from a node's port onto another node
+   */
+  onConnect: (sourceId: string, targetId: string) => void
+  onRenameNode: (nodeId: string, label: string) => void
+  onRemoveNodes: (nodeIds: string[]) => void
+  /**
+   * Node to select and bring into view, e.g. from a findings panel
+   */
+  focusNodeId?: string
+  /**
+   * When set, every other node is dimmed, e.g. to pick out nodes without evidence
+   */
+  highlightedIds?: string[]
+}
+
+interface Viewport {
+  x: number
+  y: number
+  scale: number
+}
+
+// What the pointer is doing between pointerdown and pointerup
+type Gesture =
+  | { kind: 'pan'; startX: number; startY: number; start: Viewport; moved: boolean }
+  | { kind: 'move'; start: NodePosition; nodeIds: string[] }
+  | { kind: 'connect'; sourceId: string }
+  | { kind: 'marquee'; start: NodePosition; base: string[] }
+
+const MIN_SCALE = 0.2
+const MAX_SCALE = 3
+const KEYBOARD_STEP = 10
+
+// Marker ids and colours; edges that fail the Counterfactual Test are red
+const ARROW_COLORS = {
+  'canvas-arrow': '#555',
+  'canvas-arrow-fail': '#f44336',
+  'canvas-arrow-draft': '#2196F3',
+}
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale))
+
+/**
+ * SVG editor for a WB-graph. Drag nodes to move them, drag from a node's
+ * port (the dot on its right) onto another node to add a cause → effect
+ * edge, drag the background to pan, Shift-drag to select an area, scroll
+ * to zoom and double-click a node to rename it.
+ */
+export function DiagramCanvas({
+  nodes,
+  edges,
+  selectedIds,
+  onSelectionChange,
+  onMoveNodes,
+  onConnect,
+  onRenameNode,
+  onRemoveNodes,
+  focusNodeId,
+  highlightedIds,
+}: DiagramCanvasProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const gesture = useRef<Gesture | null>(null)
+  const [view, setView] = useState<Viewport>({ x: 20, y: 20, scale: 1 })
+  const [dragOffset, setDragOffset] = useState<NodePosition | null>(null)
+  const [pointer, setPointer] = useState<NodePosition | null>(null)
+  const [editing, setEditing] = useState<{ nodeId: string; label: string } | null>(null)
+  // Read by the focus effect, which should only run when asked to focus a different node
+  const latest = useRef({ nodes, onSelectionChange })
+  useEffect(() => {
+    latest.current = { nodes, onSelectionChange }
+  })
+
+  const positions = resolvePositions(nodes)
+  const selected = new Set(selectedIds)
+  const highlighted = highlightedIds && new Set(highlightedIds)
+  const isDimmed = (nodeId: string) => !!highlighted && !highlighted.has(nodeId)
+  const moving = gesture.current?.kind === 'move' ? new Set(gesture.current.nodeIds) : new Set<string>()
+  const positionOf = (nodeId: string): NodePosition | undefined => {
+    const position = positions.get(nodeId)
+    if (!position || !dragOffset || !moving.has(nodeId)) return position
+    return { x: position.x + dragOffset.x, y: position.y + dragOffset.y }
+  }
+
+  function toWorld(clientX: number, clientY: number): NodePosition {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return { x: (clientX - rect.left - view.x) / view.scale, y: (clientY - rect.top - view.y) / view.scale }
+  }
+
+  // React registers wheel listeners as passive, so zooming needs its own listener to stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const rect = svg.getBoundingClientRect()
+      const px = e.clientX - rect.left
+      const py = e.clientY - rect.top
+      setView((prev) => {
+        const scale = clampScale(prev.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1))
+        // Keep the point under the cursor where it is
+        return { scale, x: px - ((px - prev.x) * scale) / prev.scale, y: py - ((py - prev.y) * scale) / prev.scale }
+      })
+    }
+    svg.addEventListener('wheel', onWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', onWheel)
+  }, [])
+
+  useEffect(() => {
+    if (!focusNodeId || !svgRef.current) return
+    const position = resolvePositions(latest.current.nodes).get(focusNodeId)
+    if (!position) return
+    const rect = svgRef.current.getBoundingClientRect()
+    const center = nodeCenter(position)
+    setView((prev) => ({ ...prev, x: rect.width / 2 - center.x * prev.scale, y: rect.height / 2 - center.y * prev.scale }))
+    latest.current.onSelectionChange([focusNodeId])
+  }, [focusNodeId])
+
+  function fitToView() {
+    if (!svgRef.current || nodes.length === 0) return
+    const all = [...positions.values()]
+    const minX = Math.min(...all.map((p) => p.x))
+    const minY = Math.min(...all.map((p) => p.y))
+    const maxX = Math.max(...all.map((p) => p.x + CANVAS_NODE_WIDTH))
+    const maxY = Math.max(...all.map((p) => p.y + CANVAS_NODE_HEIGHT))
+    const rect = svgRef.current.getBoundingClientRect()
+    const scale = clampScale(Math.min((rect.width - 40) / (maxX - minX), (rect.height - 40) / (maxY - minY), 1))
+    setView({ scale, x: (rect.width - (maxX - minX) * scale) / 2 - minX * scale, y: (rect.height - (maxY - minY) * scale) / 2 - minY * scale })
+  }
+
+  function zoomBy(factor: number) {
+    const rect = svgRef.current!.getBoundingClientRect()
+    const px = rect.width / 2
+    const py = rect.height / 2
+    setView((prev) => {
+      const scale = clampScale(prev.scale * factor)
+      return { scale, x: px - ((px - prev.x) * scale) / prev.scale, y: py - ((py - prev.y) * scale) / prev.scale }
+    })
+  }
+
+  function startGesture(e: React.PointerEvent, next: Gesture) {
+    e.stopPropagation()
+    svgRef.current!.setPointerCapture(e.pointerId)
+    svgRef.current!.focus()
+    gesture.current = next
+  }
+
+  function handleBackgroundDown(e: React.PointerEvent) {
+    if (e.button !== 0) return
+    if (e.shiftKey) {
+      const start = toWorld(e.clientX, e.clientY)
+      startGesture(e, { kind: 'marquee', start, base: selectedIds })
+      setPointer(start)
+    } else {
+      startGesture(e, { kind: 'pan', startX: e.clientX, startY: e.clientY, start: view, moved: false })
+    }
+  }
+
+  function handleNodeDown(e: React.PointerEvent, nodeId: string) {
+    if (e.button !== 0) return
+    const toggle = e.shiftKey || e.ctrlKey || e.metaKey
+    if (toggle && selected.has(nodeId)) {
+      e.stopPropagation()
+      onSelectionChange(selectedIds.filter((id) => id !== nodeId))
+      return
+    }
+    const nodeIds = selected.has(nodeId) ? selectedIds : toggle ? [...selectedIds, nodeId] : [nodeId]
+    onSelectionChange(nodeIds)
+    startGesture(e, { kind: 'move', start: toWorld(e.clientX, e.clientY), nodeIds })
+  }
+
+  function handlePortDown(e: React.PointerEvent, nodeId: string) {
+    if (e.button !== 0) return
+    startGesture(e, { kind: 'connect', sourceId: nodeId })
+    setPointer(toWorld(e.clientX, e.clientY))
+  }
+
+  function handlePointerMove(e: React.PointerEvent) {
+    const current = gesture.current
+    if (!current) return
+    const point = toWorld(e.clientX, e.clientY)
+    switch (current.kind) {
+      case 'pan':
+        current.moved = true
+        setView({ ...current.start, x: current.start.x + e.clientX - current.startX, y: current.start.y + e.clientY - current.startY })
+        break
+      case 'move':
+        setDragOffset({ x: point.x - current.start.x, y: point.y - current.start.y })
+        break
+      case 'connect':
+      case 'marquee':
+        setPointer(point)
+        break
+    }
+  }
+
+  function handlePointerUp(e: React.PointerEvent) {
+    const current = gesture.current
+    gesture.current = null
+    if (!current) return
+    const point = toWorld(e.clientX, e.clientY)
+    switch (current.kind) {
+      case 'pan':
+        if (!current.moved) onSelectionChange([])
+        break
+      case 'move':
+        if (dragOffset && (dragOffset.x !== 0 || dragOffset.y !== 0)) {
+          onMoveNodes(new Map(current.nodeIds.map((id) => [id, positionOf(id)!])))
+        }
+        break
+      case 'connect': {
+        const target = nodeAt(nodes, positions, point)
+        if (target && target.id !== current.sourceId) onConnect(current.sourceId, target.id)
+        break
+      }
+      case 'marquee': {
+        const left = Math.min(current.start.x, point.x)
+        const right = Math.max(current.start.x, point.x)
+        const top = Math.min(current.start.y, point.y)
+        const bottom = Math.max(current.start.y, point.y)
+        const inside = nodes
+          .filter((node) => {
+            const p = positions.get(node.id)!
+            return p.x < right && p.x + CANVAS_NODE_WIDTH > left && p.y < bottom && p.y + CANVAS_NODE_HEIGHT > top
+          })
+          .map((node) => node.id)
+        onSelectionChange([...new Set([...current.base, ...inside])])
+        break
+      }
+    }
+    setDragOffset(null)
+    setPointer(null)
+  }
+
+  // Found by position: pointer capture during the drag gesture makes the svg the click target
+  function handleDoubleClick(e: React.MouseEvent) {
+    const node = nodeAt(nodes, positions, toWorld(e.clientX, e.clientY))
+    if (node) setEditing({ nodeId: node.id, label: node.label })
+  }
+
+  // Keyboard access: arrows move the selection, Delete removes it, Enter renames
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (editing) return
+    if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIds.length > 0) {
+      e.preventDefault()
+      onRemoveNodes(selectedIds)
+    } else if (e.key === 'Escape') {
+      onSelectionChange([])
+    } else if (e.key === 'a' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      onSelectionChange(nodes.map((n) => n.id))
+    } else if (e.key === 'Enter' && selectedIds.length === 1) {
+      e.preventDefault()
+      const node = nodes.find((n) => n.id === selectedIds[0])
+      if (node) setEditing({ nodeId: node.id, label: node.label })
+    } else if (e.key === '+' || e.key === '=') {
+      zoomBy(1.2)
+    } else if (e.key === '-') {
+      zoomBy(1 / 1.2)
+    } else if (e.key.startsWith('Arrow') && selectedIds.length > 0) {
+      e.preventDefault()
+      const dx = e.key === 'ArrowLeft' ? -KEYBOARD_STEP : e.key === 'ArrowRight' ? KEYBOARD_STEP : 0
+      const dy = e.key === 'ArrowUp' ? -KEYBOARD_STEP : e.key === 'ArrowDown' ? KEYBOARD_STEP : 0
+      onMoveNodes(new Map(selectedIds.map((id) => {
+        const p = positions.get(id)!
+        return [id, { x: p.x + dx, y: p.y + dy }]
+      })))
+    }
+  }
+
+  function commitEdit() {
+    if (!editing) return
+    const node = nodes.find((n) => n.id === editing.nodeId)
+    if (node && node.label !== editing.label) onRenameNode(editing.nodeId, editing.label)
+    setEditing(null)
+    svgRef.current?.focus()
+  }
+
+  const current = gesture.current
+  const connectFrom = current?.kind === 'connect' ? positionOf(current.sourceId) : undefined
+  const marquee = current?.kind === 'marquee' && pointer ? { start: current.start, end: pointer } : null
+  const buttonStyle = { padding: '0.2rem 0.5rem', marginLeft: '0.3rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }
+
+  return (
+    <div style={{ position: 'relative', border: '1px solid #ccc', borderRadius: '4px', marginBottom: '1rem' }}>
+      <div style={{ position: 'absolute', top: '0.5rem', right: '0.5rem', zIndex: 1 }}>
+        <button onClick={() => zoomBy(1.2)} title="Zoom in" style={buttonStyle}>+</button>
+        <button onClick={() => zoomBy(1 / 1.2)} title="Zoom out" style={buttonStyle}>−</button>
+        <button onClick={fitToView} title="Fit the diagram in view" style={buttonStyle}>Fit</button>
+      </div>
+      <svg
+        ref={svgRef}
+        role="application"
+        aria-label="Diagram canvas. Arrow keys move the selected nodes, Delete removes them, Enter renames."
+        tabIndex={0}
+        width="100%"
+        height={480}
+        style={{ display: 'block', background: '#FAFAFA', touchAction: 'none', cursor: current?.kind === 'pan' ? 'grabbing' : 'default' }}
+        onPointerDown={handleBackgroundDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onKeyDown={handleKeyDown}
+        onDoubleClick={handleDoubleClick}
+      >
+        <defs>
+          {Object.entries(ARROW_COLORS).map(([id, color]) => (
+            <marker key={id} id={id} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+        <g transform={`translate(${view.x},${view.y}) scale(${view.scale})`}>
+          {edges.map((edge) => {
+            const from = positionOf(edge.source)
+            const to = positionOf(edge.target)
+            if (!from || !to) return null
+            const start = boundaryPoint(from, nodeCenter(to))
+            const end = boundaryPoint(to, nodeCenter(from))
+            const failed = getCounterfactualStatus(edge) === 'fail'
+            return (
+              <line
+                key={edge.id}
+                x1={start.x}
+                y1={start.y}
+                x2={end.x}
+                y2={end.y}
+                stroke={failed ? ARROW_COLORS['canvas-arrow-fail'] : ARROW_COLORS['canvas-arrow']}
+                strokeWidth={1.5}
+                strokeDasharray={isMitigationEdge(edge) ? '5,4' : undefined}
+                markerEnd={failed ? 'url(#canvas-arrow-fail)' : 'url(#canvas-arrow)'}
+                opacity={isDimmed(edge.source) && isDimmed(edge.target) ? 0.25 : undefined}
+              />
+            )
+          })}
+
+          {nodes.map((node) => {
+            const { x, y } = positionOf(node.id)!
+            const style = getNodeStyle(node.type)
+            const isSelected = selected.has(node.id)
+            const label = node.label.length > 22 ? `${node.label.slice(0, 21)}…` : node.label
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${x},${y})`}
+                onPointerDown={(e) => handleNodeDown(e, node.id)}
+                style={{ cursor: 'move' }}
+                opacity={isDimmed(node.id) ? 0.25 : undefined}
+              >
+                <title>{`${node.type}: ${node.label}`}</title>
+                <path
+                  d={shapePath(style.shape, CANVAS_NODE_WIDTH, CANVAS_NODE_HEIGHT)}
+                  fill={node.id === focusNodeId ? '#FFF59D' : 'white'}
+                  stroke={style.color}
+                  strokeWidth={isSelected ? 4 : 2}
+                  strokeDasharray={style.dashed ? '6,4' : undefined}
+                />
+                {isSelected && (
+                  <rect x={-4} y={-4} width={CANVAS_NODE_WIDTH + 8} height={CANVAS_NODE_HEIGHT + 8} fill="none" stroke="#2196F3" strokeDasharray="4,3" />
+                )}
+                {editing?.nodeId !== node.id && (
+                  <>
+                    <text x={CANVAS_NODE_WIDTH / 2} y={CANVAS_NODE_HEIGHT / 2 - 2} textAnchor="middle" fontSize={12} style={{ userSelect: 'none' }}>
+                      {label}
+                    </text>
+                    <text x={CANVAS_NODE_WIDTH / 2} y={CANVAS_NODE_HEIGHT / 2 + 14} textAnchor="middle" fontSize={10} fill="#888" style={{ userSelect: 'none' }}>
+                      {node.type}
+                    </text>
+                  </>
+                )}
+                <circle
+                  cx={CANVAS_NODE_WIDTH}
+                  cy={CANVAS_NODE_HEIGHT / 2}
+                  r={6}
+                  fill={style.color}
+                  stroke="white"
+                  strokeWidth={2}
+                  style={{ cursor: 'crosshair' }}
+                  onPointerDown={(e) => handlePortDown(e, node.id)}
+                >
+                  <title>Drag onto the effect this node causes</title>
+                </circle>
+              </g>
+            )
+          })}
+
+          {editing && positions.has(editing.nodeId) && (
+            <foreignObject
+              x={positionOf(editing.nodeId)!.x + 8}
+              y={positionOf(editing.nodeId)!.y + CANVAS_NODE_HEIGHT / 2 - 14}
+              width={CANVAS_NODE_WIDTH - 16}
+              height={28}
+            >
+              <input
+                autoFocus
+                aria-label="Node label"
+                value={editing.label}
+                onChange={(e) => setEditing({ ...editing, label: e.target.value })}
+                onBlur={commitEdit}
+                onPointerDown={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  e.stopPropagation()
+                  if (e.key === 'Enter') commitEdit()
+                  if (e.key === 'Escape') {
+                    setEditing(null)
+                    svgRef.current?.focus()
+                  }
+                }}
+                style={{ width: '100%', boxSizing: 'border-box', padding: '0.2rem', fontSize: '12px' }}
+              />
+            </foreignObject>
+          )}
+
+          {connectFrom && pointer && (
+            <line
+              x1={connectFrom.x + CANVAS_NODE_WIDTH}
+              y1={connectFrom.y + CANVAS_NODE_HEIGHT / 2}
+              x2={pointer.x}
+              y2={pointer.y}
+              stroke={ARROW_COLORS['canvas-arrow-draft']}
+              strokeWidth={1.5}
+              strokeDasharray="4,3"
+              markerEnd="url(#canvas-arrow-draft)"
+            />
+          )}
+
+          {marquee && (
+            <rect
+              x={Math.min(marquee.start.x, marquee.end.x)}
+              y={Math.min(marquee.start.y, marquee.end.y)}
+              width={Math.abs(marquee.end.x - marquee.start.x)}
+              height={Math.abs(marquee.end.y - marquee.start.y)}
+              fill="rgba(33, 150, 243, 0.1)"
+              stroke="#2196F3"
+            />
+          )}
+        </g>
+      </svg>
+      <div style={{ padding: '0.3rem 0.5rem', fontSize: '0.8rem', color: '#666', borderTop: '1px solid #eee' }}>
+        Drag nodes to move them · drag from a node's dot onto another node to add a cause → effect edge · Shift-drag or Shift-click to select several · scroll to zoom · double-click to rename
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,63 @@
-import React, { useState } from 'react'
-import { DiagramDoc, GraphNode, GraphEdge, WBANodeType } from './types'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { DiagramDoc, DocumentDraft, GraphNode, GraphEdge, LintRuleSettings, NodePosition, ReportTemplate, UserDoc, WBANodeType } from './types'
+import { LLMSettings } from './LLMService'
 import { docFlowKit } from './DocFlowKit'
+import { HistoryPanel } from './HistoryPanel'
+import { MergeDialog } from './MergeDialog'
+import { GraphContent } from './GraphMerge'
+import { ConflictError } from './errors'
+import { CounterfactualReview } from './CounterfactualReview'
+import { getCounterfactualStatus, isCausalEdge, summarizeCounterfactuals } from './Counterfactual'
+import { SufficiencyPanel } from './SufficiencyPanel'
+import { LintPanel } from './LintPanel'
+import { CausalAnalysisPanel } from './CausalAnalysisPanel'
+import { ActionItemFields } from './ActionItemFields'
+import { getMitigatedId, isMitigationEdge, setMitigatedFactor } from './ActionItems'
+import { useDocuments } from './DocumentHooks'
+import { TimelineView } from './TimelineView'
+import { TimingFields } from './TimingFields'
+import { TIMED_NODE_TYPES } from './Timeline'
+import { EvidenceDrawer } from './EvidenceDrawer'
+import { findNodesWithoutEvidence, getEvidence } from './Evidence'
+import { DiagramBreadcrumbs } from './DiagramBreadcrumbs'
+import { FlattenedDiagramPanel } from './FlattenedDiagramPanel'
+import { ReportPanel } from './ReportPanel'
+import { DiagramCanvas } from './DiagramCanvas'
+import { CANVAS_NODE_HEIGHT, CANVAS_NODE_WIDTH, resolvePositions, setPosition } from './CanvasGeometry'
+import { LayoutDirection } from './GraphLayout'
+import { computeLayout } from './LayoutService'
+import { useEditHistory } from './EditHistory'
+import * as commands from './GraphCommands'
+import { useAutosave } from './Autosave'
+import { SaveStatusIndicator } from './SaveStatusIndicator'
+import { DraftRecoveryBanner } from './DraftRecoveryBanner'
+import { createSubDiagram, getSubDiagramId, setSubDiagramId, withSubDiagramReferences } from './SubDiagrams'
+import { SEVERITY_COLORS, lintGraph } from './GraphLinter'
+import { checkSufficiency, clearFactorsComplete, confirmFactorsComplete, getNodeProperties } from './Sufficiency'
 
 interface DiagramManagerProps {
   diagramDoc: DiagramDoc
   onUpdate?: (updatedDoc: DiagramDoc) => void
+  /**
+   * Node to scroll to and highlight, e.g. a search hit
+   */
+  focusNodeId?: string
+  /**
+   * The project's lint rule overrides
+   */
+  lintRules?: LintRuleSettings
+  /**
+   * Opens another diagram; enables sub-diagram drill-down and breadcrumbs
+   */
+  onOpenDiagram?: (docId: string) => void
+  /**
+   * The project's report template
+   */
+  reportTemplate?: ReportTemplate
+  /**
+   * LLM settings for drafting the report summary
+   */
+  llmSettings?: LLMSettings
 }
 
 /**
@@ -26,35 +79,156 @@ const WBA_NODE_TYPES: WBANodeType[] = [
 /**
  * Renders a simple list of GraphNodes and GraphEdges, allowing add/remove/edit operations.
  */
-export function DiagramManager({ diagramDoc, onUpdate }: DiagramManagerProps) {
-  const [title, setTitle] = useState(diagramDoc.title)
-  const [nodes, setNodes] = useState<GraphNode[]>(diagramDoc.content.nodes)
-  const [edges, setEdges] = useState<GraphEdge[]>(diagramDoc.content.edges)
+export function DiagramManager({
+  diagramDoc,
+  onUpdate,
+  focusNodeId,
+  lintRules,
+  onOpenDiagram,
+  reportTemplate,
+  llmSettings,
+}: DiagramManagerProps) {
+  const {
+    state: { title, nodes, edges },
+    execute,
+    undo,
+    redo,
+    reset,
+    handleKeyDown,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useEditHistory<commands.GraphEditorState>(
+    diagramDoc.docId,
+    { title: diagramDoc.title, nodes: diagramDoc.content.nodes, edges: diagramDoc.content.edges },
+    commands.isSameGraph
+  )
   const [defaultNodeType, setDefaultNodeType] = useState<WBANodeType>('Event')
+  const [showHistory, setShowHistory] = useState(false)
+  const [showReview, setShowReview] = useState(false)
+  const [showSufficiency, setShowSufficiency] = useState(false)
+  const [showLint, setShowLint] = useState(false)
+  const [showAnalysis, setShowAnalysis] = useState(false)
+  const [showTimeline, setShowTimeline] = useState(false)
+  const [evidenceNodeId, setEvidenceNodeId] = useState<string | null>(null)
+  const [onlyWithoutEvidence, setOnlyWithoutEvidence] = useState(false)
+  const [showFlattened, setShowFlattened] = useState(false)
+  const [showReport, setShowReport] = useState(false)
+  const [highlightedNodeId, setHighlightedNodeId] = useState(focusNodeId)
+  // The canvas is the main editor; the list gives the same edits without a pointer
+  const [view, setView] = useState<'canvas' | 'list'>('canvas')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [layoutDirection, setLayoutDirection] = useState<LayoutDirection>('TB')
+  const [layingOut, setLayingOut] = useState(false)
+
+  // Set when a save is rejected because the stored diagram moved on
+  const [conflict, setConflict] = useState<{
+    baseDoc: DiagramDoc
+    remoteDoc: DiagramDoc
+    local: GraphContent & { title: string }
+  } | null>(null)
 
   // For adding a new edge
   const [sourceId, setSourceId] = useState<string>('')
   const [targetId, setTargetId] = useState<string>('')
 
-  // A helper to commit changes to IDB
-  async function saveDiagram() {
+  const nodeRefs = useRef(new Map<string, HTMLLIElement>())
+  const { documents: users } = useDocuments<UserDoc>({ docType: 'User' })
+
+  // Take in changes saved elsewhere, e.g. on the action item board, unless
+  // there are unsaved edits here; those get merged when they are saved
+  const latest = useRef({ diagramDoc, title, nodes, edges, onUpdate, reset })
+  useEffect(() => {
+    latest.current = { diagramDoc, title, nodes, edges, onUpdate, reset }
+  })
+
+  useEffect(() => {
+    return docFlowKit.subscribe({ docId: diagramDoc.docId }, (event) => {
+      if (event.type !== 'update') return
+      const { diagramDoc: head, title, nodes, edges, onUpdate, reset } = latest.current
+      const incoming = event.document as DiagramDoc
+      if ((incoming.revision ?? 0) <= (head.revision ?? 0)) return
+      const isClean = title === head.title && nodes === head.content.nodes && edges === head.content.edges
+      if (!isClean) return
+      reset({ title: incoming.title, nodes: incoming.content.nodes, edges: incoming.content.edges })
+      onUpdate?.(incoming)
+    })
+  }, [diagramDoc.docId])
+
+  useEffect(() => {
+    setHighlightedNodeId(focusNodeId)
+  }, [focusNodeId])
+
+  useEffect(() => {
+    if (highlightedNodeId) {
+      nodeRefs.current.get(highlightedNodeId)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [highlightedNodeId])
+
+  // The diagram as it would be saved, or null when nothing has changed
+  const pending = useMemo(() => {
+    const isClean = title === diagramDoc.title && nodes === diagramDoc.content.nodes && edges === diagramDoc.content.edges
+    return isClean ? null : toDiagramDoc(diagramDoc, { title, nodes, edges })
+  }, [diagramDoc, title, nodes, edges])
+
+  const { status, error: saveError, saveNow, recoveredDraft, dismissRecoveredDraft } = useAutosave(
+    diagramDoc.docId,
+    pending,
+    persistDiagram,
+    { paused: !!conflict }
+  )
+
+  // Writes on top of the revision the edits were made on; if the stored
+  // diagram has moved on, the merge dialog opens
+  async function persistDiagram(updated: DiagramDoc) {
+    const head = diagramDoc
     try {
-      const updated: DiagramDoc = {
-        ...diagramDoc,
-        title,
-        content: {
-          ...diagramDoc.content,
-          nodes,
-          edges,
-        },
-      }
-      await docFlowKit.updateDocument(updated)
-      onUpdate?.(updated)
-      alert('Diagram saved successfully')
+      await docFlowKit.updateDocument(updated, { expectedRevision: updated.revision ?? 0 })
     } catch (error) {
+      if (error instanceof ConflictError) {
+        const remoteDoc = await docFlowKit.getDocument(head.docId) as DiagramDoc | null
+        if (remoteDoc) {
+          setConflict({ baseDoc: head, remoteDoc, local: { title: updated.title, ...updated.content } })
+        }
+      }
       console.error('Error saving diagram:', error)
-      alert(`Error saving diagram: ${error instanceof Error ? error.message : String(error)}`)
+      throw error
     }
+    onUpdate?.(updated)
+  }
+
+  // Put the merge result on top of the newer stored version; autosave writes it
+  function handleMergeResolved(merged: GraphContent & { title: string }) {
+    if (!conflict) return
+    const { remoteDoc } = conflict
+    setConflict(null)
+    execute(commands.replaceGraph(merged, 'Merge changes'))
+    onUpdate?.(remoteDoc)
+  }
+
+  // Edits left from an earlier session; if the diagram was saved since, they are merged into it
+  async function restoreDraft(draft: DocumentDraft) {
+    dismissRecoveredDraft()
+    const local = draft.document as DiagramDoc
+    const restored = { title: local.title, nodes: local.content.nodes, edges: local.content.edges }
+    const base = draft.baseRevision === (diagramDoc.revision ?? 0)
+      ? null
+      : await docFlowKit.getRevision(diagramDoc.docId, draft.baseRevision)
+    if (base) {
+      setConflict({ baseDoc: base.snapshot as DiagramDoc, remoteDoc: diagramDoc, local: restored })
+    } else {
+      execute(commands.replaceGraph(restored, 'Restore draft'))
+    }
+  }
+
+  // Load a restored revision into the editor
+  function handleRestore(restored: DiagramDoc) {
+    execute(commands.replaceGraph(
+      { title: restored.title, nodes: restored.content.nodes, edges: restored.content.edges },
+      'Restore revision'
+    ))
+    onUpdate?.(restored)
   }
 
   function addNode() {
@@ -64,31 +238,93 @@ export function DiagramManager({ diagramDoc, onUpdate }: DiagramManagerProps) {
       label: 'New Node',
       properties: {},
     }
-    setNodes((prev) => [...prev, newNode])
+    execute(commands.addNode(newNode))
+    setSelectedIds([newNode.id])
   }
 
   function updateNodeLabel(nodeId: string, newLabel: string) {
-    setNodes((prev) =>
-      prev.map((n) => (n.id === nodeId ? { ...n, label: newLabel } : n))
-    )
+    execute(commands.relabelNode(nodeId, newLabel))
   }
 
   function updateNodeType(nodeId: string, newType: string) {
-    setNodes((prev) =>
-      prev.map((n) => (n.id === nodeId ? { ...n, type: newType } : n))
-    )
+    execute(commands.retypeNode(nodeId, newType))
   }
 
-  function removeNode(nodeId: string) {
-    setNodes((prev) => prev.filter((n) => n.id !== nodeId))
-    // Also remove edges referencing that node
-    setEdges((prev) =>
-      prev.filter((e) => e.source !== nodeId && e.target !== nodeId)
-    )
+  function setNodeRoot(nodeId: string, isRoot: boolean) {
+    execute(commands.updateNode(nodeId, (n) => ({ ...n, properties: { ...n.properties, isRoot } }), isRoot ? 'Mark as root' : 'Unmark as root'))
+  }
+
+  // Asserting completeness records the causes as they are now, so later edits make it stale
+  function setFactorsComplete(nodeId: string, complete: boolean) {
+    execute(commands.updateNode(
+      nodeId,
+      (n) => (complete ? confirmFactorsComplete(n, edges, docFlowKit.getCurrentUser() ?? undefined) : clearFactorsComplete(n)),
+      complete ? 'Confirm factors complete' : 'Clear factors complete'
+    ))
+  }
+
+  // Node forms report every keystroke; each field's edits merge into one undo step
+  function replaceNode(updated: GraphNode, field = 'details') {
+    execute(commands.updateNode(updated.id, () => updated, 'Edit node', field))
+  }
+
+  // Saves the link to the new sub-diagram before leaving for it
+  async function breakDown(node: GraphNode) {
+    try {
+      const child = await createSubDiagram(diagramDoc, node)
+      const updated = execute(commands.updateNode(node.id, (n) => setSubDiagramId(n, child.docId), 'Break down node'))
+      if (await saveNow(toDiagramDoc(diagramDoc, updated))) {
+        onOpenDiagram?.(child.docId)
+      }
+    } catch (error) {
+      console.error('Error creating sub-diagram:', error)
+      alert(`Error creating sub-diagram: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  // Also removes the edges referencing the nodes
+  function removeNodes(nodeIds: string[]) {
+    execute(commands.removeNodes(nodeIds))
+    setSelectedIds((prev) => prev.filter((id) => !nodeIds.includes(id)))
+  }
+
+  function moveNodes(positions: Map<string, NodePosition>, label = positions.size === 1 ? 'Move node' : 'Move nodes') {
+    const updates = new Map([...positions].map(([id, position]) => [id, (n: GraphNode) => setPosition(n, position)]))
+    execute(commands.updateNodes(updates, label))
+  }
+
+  // Lays out the selection when several nodes are selected, otherwise the whole diagram
+  async function arrangeNodes(mode: 'layout' | 'tidy') {
+    setLayingOut(true)
+    try {
+      const positions = await computeLayout({ nodes, edges }, {
+        nodeWidth: CANVAS_NODE_WIDTH,
+        nodeHeight: CANVAS_NODE_HEIGHT,
+        direction: layoutDirection,
+        layerGap: 80,
+        nodeGap: 40,
+        nodeIds: selectedIds.length > 1 ? selectedIds : undefined,
+        positions: Object.fromEntries(resolvePositions(nodes)),
+        mode,
+      })
+      moveNodes(new Map(Object.entries(positions)), mode === 'tidy' ? 'Tidy' : 'Auto layout')
+    } catch (error) {
+      console.error('Error laying out diagram:', error)
+      alert(`Error laying out diagram: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setLayingOut(false)
+    }
   }
 
   // -- Edge editing --
 
+  // Edges drawn on the canvas; drawing one that already exists does nothing
+  function connectNodes(causeId: string, effectId: string) {
+    if (edges.some((e) => e.source === causeId && e.target === effectId)) return
+    const edge: GraphEdge = { id: crypto.randomUUID(), source: causeId, target: effectId, type: 'causal' }
+    execute(commands.addEdge(edge))
+  }
+
   function addEdge() {
     if (!sourceId || !targetId) {
       alert('Please select both a source and a target node.')
@@ -102,169 +338,522 @@ export function DiagramManager({ diagramDoc, onUpdate }: DiagramManagerProps) {
       id: crypto.randomUUID(),
       source: sourceId,
       target: targetId,
-      type: 'genericEdge',
+      type: 'causal',
     }
-    setEdges((prev) => [...prev, newEdge])
+    execute(commands.addEdge(newEdge))
     // reset selection
     setSourceId('')
     setTargetId('')
   }
 
   function removeEdge(edgeId: string) {
-    setEdges((prev) => prev.filter((e) => e.id !== edgeId))
+    execute(commands.removeEdge(edgeId))
   }
 
-  return (
-    <div style={{ border: '1px solid #ccc', padding: '1rem', margin: '1rem 0', borderRadius: '4px' }}>
-      <h3>Diagram Editor</h3>
-
-      {/* Diagram Title and Save Button */}
-      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '1rem' }}>
-        <label style={{ marginRight: '1rem' }}>
-          Document Title:{' '}
-          <input 
-            value={title} 
-            onChange={(e) => setTitle(e.target.value)}
-            style={{ padding: '0.3rem', marginLeft: '0.5rem' }}
+  function replaceEdge(updated: GraphEdge) {
+    execute(commands.replaceEdge(updated, 'Record counterfactual test'))
+  }
+
+  const counterfactualSummary = summarizeCounterfactuals(edges)
+  const sufficiencyFindings = checkSufficiency({ nodes, edges })
+  const lintFindings = lintGraph({ nodes, edges }, lintRules)
+  const nodesWithoutEvidence = findNodesWithoutEvidence(nodes)
+  const visibleNodes = onlyWithoutEvidence ? nodesWithoutEvidence : nodes
+  const evidenceNode = nodes.find((n) => n.id === evidenceNodeId)
+
+  // One node's row in the list view; the canvas view shows it for the selected node
+  function renderNodeRow(node: GraphNode) {
+    const nodeFindings = lintFindings.filter((f) => f.nodeIds.includes(node.id))
+    return (
+      <li
+        key={node.id}
+        ref={(el) => {
+          if (el) nodeRefs.current.set(node.id, el)
+          else nodeRefs.current.delete(node.id)
+        }}
+        style={{
+          marginBottom: '0.5rem',
+          ...(node.id === highlightedNodeId ? { backgroundColor: '#FFF59D', outline: '2px solid #FBC02D', borderRadius: '4px' } : {}),
+        }}
+      >
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+          {/* Node Type Dropdown */}
+          <select
+            value={node.type}
+            onChange={(e) => updateNodeType(node.id, e.target.value)}
+            style={{ padding: '0.3rem', minWidth: '120px' }}
+          >
+            {WBA_NODE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+
+          {/* Node Label Input */}
+          <input
+            style={{ flexGrow: 1, padding: '0.3rem' }}
+            value={node.label}
+            onChange={(e) => updateNodeLabel(node.id, e.target.value)}
+            placeholder="Node label"
           />
-        </label>
-        <button 
-          onClick={saveDiagram}
-          style={{ padding: '0.5rem 1rem', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
-        >
-          Save Diagram
-        </button>
-      </div>
 
-      <hr />
-
-      {/* Node Management */}
-      <h4>Nodes</h4>
-      <div style={{ marginBottom: '1rem', display: 'flex', alignItems: 'center', gap: '1rem' }}>
-        <div>
-          <label style={{ marginRight: '0.5rem' }}>
-            Default Node Type:
-            <select
-              value={defaultNodeType}
-              onChange={(e) => setDefaultNodeType(e.target.value as WBANodeType)}
+          <label title="Nothing caused this node within the scope of the analysis">
+            <input
+              type="checkbox"
+              checked={!!getNodeProperties(node).isRoot}
+              onChange={(e) => setNodeRoot(node.id, e.target.checked)}
+            />
+            Root
+          </label>
+          <label title="Its causes are jointly sufficient for it to occur">
+            <input
+              type="checkbox"
+              checked={!!getNodeProperties(node).factorsComplete}
+              onChange={(e) => setFactorsComplete(node.id, e.target.checked)}
+            />
+            Factors complete
+          </label>
+
+          {nodeFindings.length > 0 && (
+            <span
+              title={nodeFindings.map((f) => f.message).join('\n')}
+              style={{ color: 'white', backgroundColor: SEVERITY_COLORS[nodeFindings[0].severity], borderRadius: '4px', padding: '0.1rem 0.4rem', fontSize: '0.85rem' }}
+            >
+              {nodeFindings.length} issue(s)
+            </span>
+          )}
+
+          {onOpenDiagram && getSubDiagramId(node) && (
+            <button
+              onClick={() => onOpenDiagram(getSubDiagramId(node)!)}
+              style={{ padding: '0.3rem 0.6rem', backgroundColor: '#3F51B5', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+            >
+              Open Sub-diagram ▸
+            </button>
+          )}
+          {onOpenDiagram && !getSubDiagramId(node) && node.type !== 'ActionItem' && (
+            <button
+              onClick={() => breakDown(node)}
+              title="Break this node down into its own WB-graph"
+              style={{ padding: '0.3rem 0.6rem', backgroundColor: 'transparent', color: '#3F51B5', border: '1px solid #3F51B5', borderRadius: '4px', cursor: 'pointer' }}
+            >
+              Break Down
+            </button>
+          )}
+
+          <button
+            onClick={() => setEvidenceNodeId(node.id)}
+            style={{ padding: '0.3rem 0.6rem', backgroundColor: '#795548', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Evidence ({getEvidence(node).length})
+          </button>
+
+          <button
+            onClick={() => removeNodes([node.id])}
+            style={{ padding: '0.3rem 0.6rem', backgroundColor: '#f44336', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Remove
+          </button>
+        </div>
+
+        {showTimeline && TIMED_NODE_TYPES.includes(node.type) && (
+          <TimingFields node={node} onChange={replaceNode} />
+        )}
+
+        {node.type === 'ActionItem' && (
+          <ActionItemFields
+            node={node}
+            nodes={nodes}
+            mitigatedId={getMitigatedId(node.id, edges)}
+            users={users}
+            onChange={replaceNode}
+            onMitigatesChange={(factorId) =>
+              execute(commands.updateEdges((prev) => setMitigatedFactor(node.id, factorId, prev), 'Change mitigated factor'))
+            }
+          />
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <div style={{ display: 'flex', gap: '1rem', alignItems: 'flex-start' }} onKeyDown={handleKeyDown}>
+      <div style={{ flexGrow: 1, minWidth: 0, border: '1px solid #ccc', padding: '1rem', margin: '1rem 0', borderRadius: '4px' }}>
+        <h3>Diagram Editor</h3>
+
+        {onOpenDiagram && <DiagramBreadcrumbs diagramDoc={diagramDoc} onNavigate={onOpenDiagram} />}
+
+        {/* Diagram Title and Save Button */}
+        <div style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', rowGap: '0.5rem', marginBottom: '1rem' }}>
+          <label style={{ marginRight: '1rem' }}>
+            Document Title:{' '}
+            <input 
+              value={title} 
+              onChange={(e) => execute(commands.setTitle(e.target.value))}
               style={{ padding: '0.3rem', marginLeft: '0.5rem' }}
+            />
+          </label>
+          <button 
+            onClick={() => saveNow()}
+            disabled={!pending}
+            style={{ padding: '0.5rem 1rem', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Save Diagram
+          </button>
+          <SaveStatusIndicator status={status} error={saveError} onRetry={() => saveNow()} />
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: 'transparent', color: '#333', border: '1px solid #999', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            ↶ Undo
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: 'transparent', color: '#333', border: '1px solid #999', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            ↷ Redo
+          </button>
+          <button
+            onClick={() => setShowHistory((prev) => !prev)}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {showHistory ? 'Hide History' : 'Show History'}
+          </button>
+          <button
+            onClick={() => setShowReview((prev) => !prev)}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: '#9C27B0', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {showReview ? 'Hide Counterfactual Review' : 'Counterfactual Review'}
+            {counterfactualSummary.unchecked > 0 ? ` (${counterfactualSummary.unchecked} unchecked)` : ''}
+          </button>
+          <button
+            onClick={() => setShowSufficiency((prev) => !prev)}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: '#FF9800', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {showSufficiency ? 'Hide Sufficiency Check' : 'Sufficiency Check'}
+            {sufficiencyFindings.length > 0 ? ` (${sufficiencyFindings.length})` : ''}
+          </button>
+          <button
+            onClick={() => setShowLint((prev) => !prev)}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: lintFindings.length > 0 ? SEVERITY_COLORS[lintFindings[0].severity] : '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {showLint ? 'Hide Graph Check' : 'Graph Check'}
+            {lintFindings.length > 0 ? ` (${lintFindings.length})` : ''}
+          </button>
+          <button
+            onClick={() => setShowAnalysis((prev) => !prev)}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: '#3F51B5', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {showAnalysis ? 'Hide Causal Analysis' : 'Causal Analysis'}
+          </button>
+          <button
+            onClick={() => setShowTimeline((prev) => !prev)}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: '#009688', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {showTimeline ? 'Hide Timeline' : 'Timeline'}
+          </button>
+          <button
+            onClick={() => setShowFlattened((prev) => !prev)}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {showFlattened ? 'Hide Flattened View' : 'Flattened View'}
+          </button>
+          <button
+            onClick={() => setShowReport((prev) => !prev)}
+            style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: '#795548', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            {showReport ? 'Hide Report' : 'Report'}
+          </button>
+        </div>
+
+        {recoveredDraft && (
+          <DraftRecoveryBanner
+            draft={recoveredDraft}
+            headRevision={diagramDoc.revision}
+            onRestore={() => restoreDraft(recoveredDraft)}
+            onDiscard={dismissRecoveredDraft}
+          />
+        )}
+
+        {showFlattened && <FlattenedDiagramPanel diagramDoc={diagramDoc} />}
+
+        {showReport && (
+          <ReportPanel diagramDoc={diagramDoc} template={reportTemplate} llmSettings={llmSettings} users={users} />
+        )}
+
+        {showTimeline && (
+          <TimelineView nodes={nodes} edges={edges} onSelectNode={setHighlightedNodeId} />
+        )}
+
+        {showLint && (
+          <LintPanel findings={lintFindings} nodes={nodes} onSelectNode={setHighlightedNodeId} />
+        )}
+
+        {showSufficiency && (
+          <SufficiencyPanel content={{ nodes, edges }} onSelectNode={setHighlightedNodeId} />
+        )}
+
+        {showReview && (
+          <CounterfactualReview
+            nodes={nodes}
+            edges={edges}
+            onRecord={replaceEdge}
+            onClose={() => setShowReview(false)}
+          />
+        )}
+
+        {conflict && (
+          <MergeDialog
+            base={{ title: conflict.baseDoc.title, ...conflict.baseDoc.content }}
+            local={conflict.local}
+            remote={{ title: conflict.remoteDoc.title, ...conflict.remoteDoc.content }}
+            onResolve={handleMergeResolved}
+            onCancel={() => setConflict(null)}
+          />
+        )}
+
+        {showHistory && (
+          <HistoryPanel
+            docId={diagramDoc.docId}
+            headVersion={diagramDoc.updatedAt}
+            onRestore={(doc) => handleRestore(doc as DiagramDoc)}
+          />
+        )}
+
+        <hr />
+
+        {/* Node Management */}
+        <h4>Nodes</h4>
+        <div style={{ marginBottom: '1rem', display: 'flex', alignItems: 'center', gap: '1rem' }}>
+          <div>
+            <label style={{ marginRight: '0.5rem' }}>
+              Default Node Type:
+              <select
+                value={defaultNodeType}
+                onChange={(e) => setDefaultNodeType(e.target.value as WBANodeType)}
+                style={{ padding: '0.3rem', marginLeft: '0.5rem' }}
+              >
+                {WBA_NODE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <button 
+            onClick={addNode}
+            style={{ padding: '0.5rem 1rem', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Add Node
+          </button>
+          <div role="group" aria-label="Node view">
+            <button
+              onClick={() => setView('canvas')}
+              aria-pressed={view === 'canvas'}
+              style={{ padding: '0.5rem 1rem', backgroundColor: view === 'canvas' ? '#3F51B5' : '#E0E0E0', color: view === 'canvas' ? 'white' : '#333', border: 'none', borderRadius: '4px 0 0 4px', cursor: 'pointer' }}
+            >
+              Canvas
+            </button>
+            <button
+              onClick={() => setView('list')}
+              aria-pressed={view === 'list'}
+              style={{ padding: '0.5rem 1rem', backgroundColor: view === 'list' ? '#3F51B5' : '#E0E0E0', color: view === 'list' ? 'white' : '#333', border: 'none', borderRadius: '0 4px 4px 0', cursor: 'pointer' }}
             >
-              {WBA_NODE_TYPES.map((type) => (
-                <option key={type} value={type}>
-                  {type}
-                </option>
-              ))}
-            </select>
+              List
+            </button>
+          </div>
+          {view === 'canvas' && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+              <select
+                value={layoutDirection}
+                onChange={(e) => setLayoutDirection(e.target.value as LayoutDirection)}
+                aria-label="Layout direction"
+                style={{ padding: '0.3rem' }}
+              >
+                <option value="TB">Incident at top</option>
+                <option value="LR">Incident at right</option>
+              </select>
+              <button
+                onClick={() => arrangeNodes('layout')}
+                disabled={layingOut || nodes.length === 0}
+                title="Arrange in layers with few crossing edges"
+                style={{ padding: '0.5rem 1rem', backgroundColor: '#009688', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+              >
+                {selectedIds.length > 1 ? 'Layout Selection' : 'Auto Layout'}
+              </button>
+              <button
+                onClick={() => arrangeNodes('tidy')}
+                disabled={layingOut || nodes.length === 0}
+                title="Line up and space the nodes, keeping their current order"
+                style={{ padding: '0.5rem 1rem', backgroundColor: 'transparent', color: '#009688', border: '1px solid #009688', borderRadius: '4px', cursor: 'pointer' }}
+              >
+                Tidy
+              </button>
+              {layingOut && <span style={{ color: '#666' }}>Laying out…</span>}
+            </div>
+          )}
+          <label>
+            <input
+              type="checkbox"
+              checked={onlyWithoutEvidence}
+              onChange={(e) => setOnlyWithoutEvidence(e.target.checked)}
+            />
+            {view === 'canvas' ? 'Highlight' : 'Only'} nodes without evidence ({nodesWithoutEvidence.length})
           </label>
         </div>
-        <button 
-          onClick={addNode}
-          style={{ padding: '0.5rem 1rem', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
-        >
-          Add Node
-        </button>
-      </div>
 
-      {nodes.length === 0 ? (
-        <p>No nodes in this diagram. Click "Add Node" to create one.</p>
-      ) : (
-        <ul style={{ listStyle: 'none', padding: 0 }}>
-          {nodes.map((node) => (
-            <li key={node.id} style={{ marginBottom: '0.5rem' }}>
-              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
-                {/* Node Type Dropdown */}
-                <select
-                  value={node.type}
-                  onChange={(e) => updateNodeType(node.id, e.target.value)}
-                  style={{ padding: '0.3rem', minWidth: '120px' }}
-                >
-                  {WBA_NODE_TYPES.map((type) => (
-                    <option key={type} value={type}>
-                      {type}
-                    </option>
-                  ))}
-                </select>
-
-                {/* Node Label Input */}
-                <input
-                  style={{ flexGrow: 1, padding: '0.3rem' }}
-                  value={node.label}
-                  onChange={(e) => updateNodeLabel(node.id, e.target.value)}
-                  placeholder="Node label"
-                />
+        {view === 'canvas' ? (
+          <>
+            <DiagramCanvas
+              nodes={nodes}
+              edges={edges}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
+              onMoveNodes={moveNodes}
+              onConnect={connectNodes}
+              onRenameNode={updateNodeLabel}
+              onRemoveNodes={removeNodes}
+              focusNodeId={highlightedNodeId}
+              highlightedIds={onlyWithoutEvidence ? nodesWithoutEvidence.map((n) => n.id) : undefined}
+            />
+            {selectedIds.length === 1 && nodes.some((n) => n.id === selectedIds[0]) && (
+              <ul style={{ listStyle: 'none', padding: 0 }}>
+                {renderNodeRow(nodes.find((n) => n.id === selectedIds[0])!)}
+              </ul>
+            )}
+          </>
+        ) : nodes.length === 0 ? (
+          <p>No nodes in this diagram. Click "Add Node" to create one.</p>
+        ) : visibleNodes.length === 0 ? (
+          <p>Every causal factor is backed by evidence.</p>
+        ) : (
+          <ul style={{ listStyle: 'none', padding: 0 }}>
+            {visibleNodes.map(renderNodeRow)}
+          </ul>
+        )}
+
+        <hr />
+
+        {/* Edge Management */}
+        <h4>Edges</h4>
 
+        {/* Add Edge Form */}
+        <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem' }}>
+          <select
+            value={sourceId}
+            onChange={(e) => setSourceId(e.target.value)}
+            style={{ padding: '0.3rem' }}
+          >
+            <option value="">Select Cause</option>
+            {nodes.map((node) => (
+              <option key={node.id} value={node.id}>
+                {node.label} ({node.type})
+              </option>
+            ))}
+          </select>
+          <span>→</span>
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            style={{ padding: '0.3rem' }}
+          >
+            <option value="">Select Effect</option>
+            {nodes.map((node) => (
+              <option key={node.id} value={node.id}>
+                {node.label} ({node.type})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addEdge}
+            style={{ padding: '0.3rem 0.6rem', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Add Edge
+          </button>
+        </div>
+
+        {edges.length === 0 ? (
+          <p>No edges in this diagram. Select a source/target to add one.</p>
+        ) : (
+          <ul style={{ listStyle: 'none', padding: 0 }}>
+            {edges.map((edge) => (
+              <li
+                key={edge.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  marginBottom: '0.5rem',
+                  ...(getCounterfactualStatus(edge) === 'fail' ? { backgroundColor: '#FFEBEE' } : {}),
+                }}
+              >
+                {isCausalEdge(edge) && <CounterfactualBadge edge={edge} />}
+                <span style={{ marginRight: '0.5rem' }}>
+                  {nodes.find((n) => n.id === edge.source)?.label ?? edge.source} ({nodes.find((n) => n.id === edge.source)?.type}) →{' '}
+                  {nodes.find((n) => n.id === edge.target)?.label ?? edge.target} ({nodes.find((n) => n.id === edge.target)?.type})
+                  {isMitigationEdge(edge) && <em style={{ color: '#666' }}> (mitigates)</em>}
+                </span>
                 <button
-                  onClick={() => removeNode(node.id)}
+                  onClick={() => removeEdge(edge.id)}
                   style={{ padding: '0.3rem 0.6rem', backgroundColor: '#f44336', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
                 >
                   Remove
                 </button>
-              </div>
-            </li>
-          ))}
-        </ul>
-      )}
-
-      <hr />
-
-      {/* Edge Management */}
-      <h4>Edges</h4>
-
-      {/* Add Edge Form */}
-      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem' }}>
-        <select
-          value={sourceId}
-          onChange={(e) => setSourceId(e.target.value)}
-          style={{ padding: '0.3rem' }}
-        >
-          <option value="">Select Source</option>
-          {nodes.map((node) => (
-            <option key={node.id} value={node.id}>
-              {node.label} ({node.type})
-            </option>
-          ))}
-        </select>
-        <span>→</span>
-        <select
-          value={targetId}
-          onChange={(e) => setTargetId(e.target.value)}
-          style={{ padding: '0.3rem' }}
-        >
-          <option value="">Select Target</option>
-          {nodes.map((node) => (
-            <option key={node.id} value={node.id}>
-              {node.label} ({node.type})
-            </option>
-          ))}
-        </select>
-        <button
-          onClick={addEdge}
-          style={{ padding: '0.3rem 0.6rem', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
-        >
-          Add Edge
-        </button>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
-
-      {edges.length === 0 ? (
-        <p>No edges in this diagram. Select a source/target to add one.</p>
-      ) : (
-        <ul style={{ listStyle: 'none', padding: 0 }}>
-          {edges.map((edge) => (
-            <li key={edge.id} style={{ display: 'flex', alignItems: 'center', marginBottom: '0.5rem' }}>
-              <span style={{ marginRight: '0.5rem' }}>
-                {nodes.find((n) => n.id === edge.source)?.label ?? edge.source} ({nodes.find((n) => n.id === edge.source)?.type}) →{' '}
-                {nodes.find((n) => n.id === edge.target)?.label ?? edge.target} ({nodes.find((n) => n.id === edge.target)?.type})
-              </span>
-              <button
-                onClick={() => removeEdge(edge.id)}
-                style={{ padding: '0.3rem 0.6rem', backgroundColor: '#f44336', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
-              >
-                Remove
-              </button>
-            </li>
-          ))}
-        </ul>
+      {evidenceNode && (
+        <EvidenceDrawer node={evidenceNode} onChange={replaceNode} onClose={() => setEvidenceNodeId(null)} />
+      )}
+      {showAnalysis && (
+        <CausalAnalysisPanel nodes={nodes} edges={edges} onSelectNode={setHighlightedNodeId} />
       )}
     </div>
   )
-} 
\ No newline at end of file
+} 
+
+function toDiagramDoc(head: DiagramDoc, local: GraphContent & { title: string }): DiagramDoc {
+  return {
+    ...head,
+    title: local.title,
+    references: withSubDiagramReferences(head.references, local.nodes),
+    content: {
+      ...head.content,
+      nodes: local.nodes,
+      edges: local.edges,
+    },
+  }
+}
+
+const BADGES = {
+  pass: { symbol: '✓', color: '#4CAF50', text: 'Passes the Counterfactual Test' },
+  fail: { symbol: '✗', color: '#f44336', text: 'Fails the Counterfactual Test' },
+  unchecked: { symbol: '?', color: '#9E9E9E', text: 'Counterfactual Test not done yet' },
+}
+
+/**
+ * Shows an edge's Counterfactual Test outcome; the justification is in the tooltip
+ */
+function CounterfactualBadge({ edge }: { edge: GraphEdge }) {
+  const badge = BADGES[getCounterfactualStatus(edge)]
+  const check = edge.properties?.counterfactual
+  const tooltip = check
+    ? `${badge.text} (checked ${new Date(check.checkedAt).toLocaleString()}): ${check.justification}`
+    : badge.text
+
+  return (
+    <span
+      title={tooltip}
+      style={{ display: 'inline-block', width: '1.5rem', textAlign: 'center', marginRight: '0.5rem', color: 'white', backgroundColor: badge.color, borderRadius: '50%' }}
+    >
+      {badge.symbol}
+    </span>
+  )
+}
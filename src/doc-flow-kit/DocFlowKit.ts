@@ -1,23 +1,153 @@
-import { openDB, IDBPDatabase } from 'idb'
-import { BaseDocument } from './types'
+import {
+  BaseDocument,
+  DeleteOptions,
+  DocRef,
+  DocumentChangeEvent,
+  DocumentChangeFilter,
+  DocumentDiff,
+  DocumentDraft,
+  DocumentQuery,
+  DocumentQueryResult,
+  DocumentRevision,
+  DocumentRevisionSummary,
+  IntegrityReport,
+  ProjectDoc,
+  UpdateOptions,
+} from './types'
+import { diffDocuments, hashDocument } from './DocumentDiff'
+import { getOutgoingReferences, removeReferencesTo } from './References'
+import { ConflictError, ReferentialIntegrityError, SchemaValidationError } from './errors'
+import { getSchema, validateDocument } from './Schemas'
+import { migrateDocument, needsMigration } from './Migrations'
+import { getAttachmentBlobIds } from './Evidence'
+import { StorageAdapter, WriteInfo } from './storage/StorageAdapter'
+import { IndexedDBAdapter } from './storage/IndexedDBAdapter'
 
 /**
- * Main class for document management and persistence in IndexedDB
+ * How long trashed documents are kept before initialize() purges them
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+export interface DocFlowKitOptions {
+  /**
+   * Days a document stays in the trash; Infinity keeps trash forever
+   */
+  trashRetentionDays?: number
+  /**
+   * BroadcastChannel that changes are relayed over so other tabs see them;
+   * null disables relaying. Defaults to 'docFlowKit'.
+   */
+  channelName?: string | null
+}
+
+type ChangeListener = (event: DocumentChangeEvent) => void
+
+/**
+ * Main class for document management and persistence.
+ * Storage is delegated to a StorageAdapter (IndexedDB by default), so the
+ * same API works in the browser, in Node scripts and in tests.
  */
 export class DocFlowKit {
-  private db: IDBPDatabase | null = null
+  private readonly adapter: StorageAdapter
+  private readonly trashRetentionDays: number
+  private readonly channelName: string | null
+  private readonly listeners = new Set<{ filter: DocumentChangeFilter; callback: ChangeListener }>()
+  private channel: BroadcastChannel | null = null
+  private initialized = false
+  private currentUserId: string | null = null
+
+  /**
+   * @param adapter Storage backend; defaults to IndexedDB
+   * @param options Trash retention and other settings
+   */
+  constructor(adapter: StorageAdapter = new IndexedDBAdapter(), options: DocFlowKitOptions = {}) {
+    this.adapter = adapter
+    this.trashRetentionDays = options.trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS
+    this.channelName = options.channelName === undefined ? 'docFlowKit' : options.channelName
+  }
 
   /**
-   * Initializes the IndexedDB database
+   * Opens the storage backend and purges trash older than the retention
+   * period. Documents are brought up to the current schemas as they are read.
    */
   public async initialize(): Promise<void> {
-    this.db = await openDB('docFlowKitDB', 1, {
-      upgrade(db) {
-        if (!db.objectStoreNames.contains('documents')) {
-          db.createObjectStore('documents', { keyPath: 'docId' })
-        }
-      },
-    })
+    await this.adapter.open()
+    this.initialized = true
+
+    if (this.channelName && typeof BroadcastChannel !== 'undefined' && !this.channel) {
+      this.channel = new BroadcastChannel(this.channelName)
+      this.channel.onmessage = (e: MessageEvent<Omit<DocumentChangeEvent, 'origin'>>) => {
+        this.emit({ ...e.data, origin: 'remote' })
+      }
+    }
+
+    await this.purgeExpiredTrash()
+  }
+
+  /**
+   * Runs pending migrations on every stored document and saves the results.
+   * Reads migrate and save documents one at a time anyway, so this is only
+   * for bringing a whole database up to date at once, e.g. before an export.
+   * @returns The number of documents migrated
+   */
+  public async migrateStoredDocuments(): Promise<number> {
+    let migrated = 0
+    for (const doc of await this.storage().listDocuments()) {
+      if (!needsMigration(doc)) continue
+      try {
+        migrateDocument(doc)
+        if (await this.saveMigrated(doc)) migrated++
+      } catch (err) {
+        console.error(`Error migrating document ${doc.docId}:`, err)
+      }
+    }
+    return migrated
+  }
+
+  /**
+   * Stops relaying changes to other tabs. Only needed outside the browser,
+   * where an open channel keeps the process alive.
+   */
+  public close(): void {
+    this.channel?.close()
+    this.channel = null
+  }
+
+  /**
+   * Registers a callback for document creates, updates and deletes, made
+   * here or in another tab
+   * @param filter Which documents to hear about
+   * @param callback Called once per matching change
+   * @returns A function that removes the subscription
+   */
+  public subscribe(filter: DocumentChangeFilter, callback: ChangeListener): () => void {
+    const listener = { filter, callback }
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Sets the user that new documents and revisions are attributed to
+   * @param userId The logged-in user's ID, or null after logout
+   */
+  public setCurrentUser(userId: string | null): void {
+    this.currentUserId = userId
+  }
+
+  /**
+   * The user that writes are currently attributed to
+   */
+  public getCurrentUser(): string | null {
+    return this.currentUserId
+  }
+
+  /**
+   * Days a document stays in the trash before it is purged
+   */
+  public getTrashRetentionDays(): number {
+    return this.trashRetentionDays
   }
 
   /**
@@ -28,8 +158,18 @@ export class DocFlowKit {
     if (!doc.docId) {
       doc.docId = crypto.randomUUID()
     }
-    if (!this.db) throw new Error('DocFlowKit not initialized')
-    await this.db.put('documents', doc)
+    const storage = this.storage()
+    this.checkSchema(doc)
+    const now = new Date().toISOString()
+    doc.createdAt = doc.createdAt ?? now
+    doc.updatedAt = now
+    doc.referencedIds = getOutgoingReferences(doc)
+    doc.blobIds = getAttachmentBlobIds(doc)
+    if (!doc.ownerId && this.currentUserId) {
+      doc.ownerId = this.currentUserId
+    }
+    await storage.writeDocument(doc, await this.writeInfo(doc))
+    this.notify('create', doc)
   }
 
   /**
@@ -38,39 +178,455 @@ export class DocFlowKit {
    * @returns The document or null if not found
    */
   public async getDocument(docId: string): Promise<BaseDocument | null> {
-    if (!this.db) throw new Error('DocFlowKit not initialized')
-    const doc = await this.db.get('documents', docId)
-    return doc ?? null
+    const doc = await this.storage().getDocument(docId)
+    if (doc && migrateDocument(doc)) await this.saveMigrated(doc)
+    return doc
   }
 
   /**
    * Updates an existing document
    * @param doc The document to update (must have docId)
+   * @param options Pass `expectedRevision` to reject stale writes with a ConflictError
    */
-  public async updateDocument(doc: BaseDocument): Promise<void> {
-    if (!this.db) throw new Error('DocFlowKit not initialized')
+  public async updateDocument(doc: BaseDocument, options: UpdateOptions = {}): Promise<void> {
+    const storage = this.storage()
     if (!doc.docId) throw new Error('Document must have a docId for update')
-    await this.db.put('documents', doc)
+    this.checkSchema(doc)
+    doc.updatedAt = new Date().toISOString()
+    doc.referencedIds = getOutgoingReferences(doc)
+    // Earlier revisions keep their attachments, so blobs are never dropped from the list
+    const stored = await storage.getDocument(doc.docId)
+    doc.blobIds = [...new Set([...(stored?.blobIds ?? []), ...getAttachmentBlobIds(doc)])]
+    await storage.writeDocument(doc, await this.writeInfo(doc, options.expectedRevision))
+    this.notify('update', doc)
+  }
+
+  /**
+   * Moves a document to the trash. It stays readable by ID and keeps its
+   * links, but is hidden from queries and removed from its projects' lists.
+   * @param docId The document to trash
+   * @returns The trashed document
+   */
+  public async trashDocument(docId: string): Promise<BaseDocument> {
+    const doc = await this.getDocument(docId)
+    if (!doc) throw new Error(`Document ${docId} not found`)
+    if (doc.deletedAt) return doc
+
+    doc.deletedAt = new Date().toISOString()
+    doc.deletedBy = this.currentUserId ?? undefined
+    await this.updateDocument(doc)
+
+    for (const project of await this.projectsOf(doc)) {
+      const documents = project.content.documents.filter((ref) => ref.docId !== docId)
+      if (documents.length !== project.content.documents.length) {
+        project.content.documents = documents
+        await this.updateDocument(project)
+      }
+    }
+    return doc
+  }
+
+  /**
+   * Takes a document out of the trash and adds it back to its projects
+   * @param docId The trashed document
+   * @returns The restored document
+   */
+  public async restoreFromTrash(docId: string): Promise<BaseDocument> {
+    const doc = await this.getDocument(docId)
+    if (!doc) throw new Error(`Document ${docId} not found`)
+    if (!doc.deletedAt) return doc
+
+    delete doc.deletedAt
+    delete doc.deletedBy
+    await this.updateDocument(doc)
+
+    for (const project of await this.projectsOf(doc)) {
+      if (project.deletedAt) continue
+      if (!project.content.documents.some((ref) => ref.docId === docId)) {
+        project.content.documents = [...project.content.documents, toDocRef(doc)]
+        await this.updateDocument(project)
+      }
+    }
+    return doc
+  }
+
+  /**
+   * Permanently deletes a trashed document. Links to it are removed.
+   * @param docId The trashed document
+   */
+  public async purgeDocument(docId: string): Promise<void> {
+    const doc = await this.getDocument(docId)
+    if (!doc) return
+    if (!doc.deletedAt) throw new Error(`Document ${docId} is not in the trash`)
+    await this.deleteDocument(docId, { policy: 'nullify' })
+  }
+
+  /**
+   * Lists the trashed documents of a project, most recently trashed first
+   * @param projectId The project whose trash to list
+   */
+  public async listTrash(projectId: string): Promise<BaseDocument[]> {
+    // Walks the deletedAt index, oldest first
+    const { documents } = await this.queryDocuments({ where: { projectId }, deleted: 'only' })
+    return documents.reverse()
   }
 
   /**
-   * Deletes a document by its ID
+   * Permanently deletes everything that has been in the trash for longer
+   * than the retention period
+   * @param now The time to measure against; defaults to the current time
+   * @returns The number of documents purged
+   */
+  public async purgeExpiredTrash(now: Date = new Date()): Promise<number> {
+    if (!Number.isFinite(this.trashRetentionDays)) return 0
+    const cutoff = new Date(now.getTime() - this.trashRetentionDays * 24 * 60 * 60 * 1000).toISOString()
+    const { documents } = await this.queryDocuments({ deleted: 'only' })
+
+    let purged = 0
+    // The deletedAt index walks oldest first
+    for (const doc of documents) {
+      if (doc.deletedAt! >= cutoff) break
+      await this.purgeDocument(doc.docId)
+      purged++
+    }
+    return purged
+  }
+
+  /**
+   * Deletes a document by its ID, along with its revision history and attachments
    * @param docId The ID of the document to delete
+   * @param options `policy` decides what happens to documents linking to it (default 'block')
+   * @throws ReferentialIntegrityError under 'block' if anything still links to the document
+   */
+  public async deleteDocument(docId: string, options: DeleteOptions = {}): Promise<void> {
+    const policy = options.policy ?? 'block'
+    const referrers = (await this.findReferrers(docId)).filter((doc) => doc.docId !== docId)
+
+    if (policy === 'block' && referrers.length > 0) {
+      throw new ReferentialIntegrityError(docId, referrers.map(toDocRef))
+    }
+    for (const referrer of referrers) {
+      await this.updateDocument(removeReferencesTo(referrer, docId))
+    }
+
+    const doc = await this.getDocument(docId)
+
+    await this.storage().deleteDocument(docId)
+    await this.storage().deleteDraft(docId)
+    // Copies of a diagram can share blobs with the original
+    for (const blobId of doc?.blobIds ?? []) {
+      const { documents } = await this.queryDocuments({ where: { blobId }, deleted: 'include', limit: 1 })
+      if (documents.length === 0) await this.storage().deleteBlob(blobId)
+    }
+    if (doc) this.notify('delete', doc)
+
+    if (policy === 'cascade' && doc) {
+      for (const childId of getOutgoingReferences(doc)) {
+        const child = await this.getDocument(childId)
+        // Projects and users are never removed as a side effect
+        if (!child || child.docType === 'Project' || child.docType === 'User') continue
+        if ((await this.findReferrers(childId)).length === 0) {
+          await this.deleteDocument(childId, { policy: 'cascade' })
+        }
+      }
+    }
+  }
+
+  /**
+   * Finds every document that links to a document ("where is this used")
+   * @param docId The linked-to document
+   */
+  public async findReferrers(docId: string): Promise<BaseDocument[]> {
+    const { documents } = await this.queryDocuments({ where: { referencesDocId: docId }, deleted: 'include' })
+    return documents
+  }
+
+  /**
+   * Scans the whole database for links to missing documents and for
+   * documents nothing links to. Trashed documents are never orphans.
+   */
+  public async checkIntegrity(): Promise<IntegrityReport> {
+    const docs = await this.listDocuments()
+    const existing = new Set(docs.map((doc) => doc.docId))
+    const linked = new Set<string>()
+    const report: IntegrityReport = {
+      checkedAt: new Date().toISOString(),
+      documentCount: docs.length,
+      danglingReferences: [],
+      orphanedDocuments: [],
+    }
+
+    for (const doc of docs) {
+      for (const targetId of getOutgoingReferences(doc)) {
+        linked.add(targetId)
+        if (!existing.has(targetId)) {
+          report.danglingReferences.push({ source: toDocRef(doc), missingDocId: targetId })
+        }
+      }
+    }
+    for (const doc of docs) {
+      if (doc.docType !== 'Project' && doc.docType !== 'User' && !doc.deletedAt && !linked.has(doc.docId)) {
+        report.orphanedDocuments.push(toDocRef(doc))
+      }
+    }
+    return report
+  }
+
+  /**
+   * Fixes the problems in an integrity report. Dangling links are removed.
+   * An orphan is re-attached to a project it still lists in `projectIds`,
+   * or deleted if it has none.
+   * @param report A report from checkIntegrity(); a fresh one is made if omitted
+   */
+  public async repairIntegrity(report?: IntegrityReport): Promise<{ linksRemoved: number; reattached: number; deleted: number }> {
+    const { danglingReferences, orphanedDocuments } = report ?? await this.checkIntegrity()
+    const result = { linksRemoved: 0, reattached: 0, deleted: 0 }
+
+    for (const { source, missingDocId } of danglingReferences) {
+      const doc = await this.getDocument(source.docId)
+      if (!doc) continue
+      await this.updateDocument(removeReferencesTo(doc, missingDocId))
+      result.linksRemoved++
+    }
+
+    for (const orphanRef of orphanedDocuments) {
+      const orphan = await this.getDocument(orphanRef.docId)
+      if (!orphan) continue
+
+      const [project] = await this.projectsOf(orphan)
+      if (project) {
+        project.content.documents = [...project.content.documents, toDocRef(orphan)]
+        await this.updateDocument(project)
+        result.reattached++
+      } else {
+        await this.deleteDocument(orphan.docId, { policy: 'nullify' })
+        result.deleted++
+      }
+    }
+    return result
+  }
+
+  /**
+   * Lists the revision history of a document, newest first
+   * @param docId The document whose history to list
+   */
+  public async listRevisions(docId: string): Promise<DocumentRevisionSummary[]> {
+    const revisions = await this.storage().listRevisions(docId)
+    return revisions
+      .map(({ snapshot, ...summary }) => ({ ...summary, title: snapshot.title }))
+      .reverse()
+  }
+
+  /**
+   * Retrieves a single revision of a document
+   * @param docId The document ID
+   * @param revision The revision number
+   * @returns The revision, or null if it doesn't exist
+   */
+  public async getRevision(docId: string, revision: number): Promise<DocumentRevision | null> {
+    return this.storage().getRevision(docId, revision)
+  }
+
+  /**
+   * Compares two revisions of a document
+   * @param docId The document ID
+   * @param fromRevision The older revision number
+   * @param toRevision The newer revision number
+   */
+  public async diffRevisions(docId: string, fromRevision: number, toRevision: number): Promise<DocumentDiff> {
+    const [from, to] = await Promise.all([
+      this.getRevision(docId, fromRevision),
+      this.getRevision(docId, toRevision),
+    ])
+    if (!from) throw new Error(`Revision ${fromRevision} of document ${docId} not found`)
+    if (!to) throw new Error(`Revision ${toRevision} of document ${docId} not found`)
+    return diffDocuments(from.snapshot, to.snapshot, fromRevision, toRevision)
+  }
+
+  /**
+   * Restores an older revision by writing its title, content and references
+   * as a new revision on top of the current head. History is never rewritten.
+   * @param docId The document ID
+   * @param revision The revision number to restore
+   * @returns The new head document
    */
-  public async deleteDocument(docId: string): Promise<void> {
-    if (!this.db) throw new Error('DocFlowKit not initialized')
-    await this.db.delete('documents', docId)
+  public async restoreRevision(docId: string, revision: number): Promise<BaseDocument> {
+    const [rev, head] = await Promise.all([
+      this.getRevision(docId, revision),
+      this.getDocument(docId),
+    ])
+    if (!rev) throw new Error(`Revision ${revision} of document ${docId} not found`)
+    if (!head) throw new Error(`Document ${docId} not found`)
+
+    // The old snapshot may predate the current schema
+    const snapshot = structuredClone(rev.snapshot)
+    migrateDocument(snapshot)
+    const restored: BaseDocument = {
+      ...head,
+      title: snapshot.title,
+      content: snapshot.content,
+      references: snapshot.references,
+    }
+    await this.updateDocument(restored)
+    return restored
   }
 
   /**
-   * Lists all documents in the database
+   * Lists all documents in the database.
+   * Prefer queryDocuments() for anything that can be narrowed down.
    * @returns Array of all documents
    */
   public async listDocuments(): Promise<BaseDocument[]> {
-    if (!this.db) throw new Error('DocFlowKit not initialized')
-    return this.db.getAll('documents')
+    const docs = await this.storage().listDocuments()
+    docs.forEach(migrateDocument)
+    return docs
+  }
+
+  /**
+   * Finds documents using the storage indexes
+   * @param query Filters, ordering and paging options
+   * @returns A page of matching documents and a cursor for the next page
+   */
+  public async queryDocuments<T extends BaseDocument = BaseDocument>(
+    query: DocumentQuery = {}
+  ): Promise<DocumentQueryResult<T>> {
+    const result = await this.storage().queryDocuments<T>(query)
+    result.documents.forEach(migrateDocument)
+    return result
+  }
+
+  /**
+   * Stores binary data such as an evidence attachment. Blobs belong to the
+   * documents that list them and are removed when the last of those is deleted.
+   * @returns The new blob's id
+   */
+  public async storeBlob(data: Blob): Promise<string> {
+    const blobId = crypto.randomUUID()
+    await this.storage().putBlob(blobId, data)
+    return blobId
+  }
+
+  public async getBlob(blobId: string): Promise<Blob | null> {
+    return this.storage().getBlob(blobId)
+  }
+
+  public async deleteBlob(blobId: string): Promise<void> {
+    await this.storage().deleteBlob(blobId)
+  }
+
+  /**
+   * Keeps a copy of a document with edits that are not saved yet, so they
+   * can be recovered after a crash or reload. A newer draft replaces it.
+   * @param doc The document with the edits applied; its revision is the one they were made on
+   */
+  public async saveDraft(doc: BaseDocument): Promise<void> {
+    await this.storage().putDraft({
+      docId: doc.docId,
+      baseRevision: doc.revision ?? 0,
+      savedAt: new Date().toISOString(),
+      document: doc,
+    })
+  }
+
+  public async getDraft(docId: string): Promise<DocumentDraft | null> {
+    return this.storage().getDraft(docId)
+  }
+
+  public async discardDraft(docId: string): Promise<void> {
+    await this.storage().deleteDraft(docId)
+  }
+
+  /**
+   * Brings a document about to be written up to its docType's current
+   * schema and validates it. A document being written without a
+   * schemaVersion is taken to be current, so it is validated as-is.
+   * @throws SchemaValidationError if it doesn't match
+   */
+  public checkSchema(doc: BaseDocument): void {
+    if (doc.schemaVersion !== undefined) migrateDocument(doc)
+    const issues = validateDocument(doc)
+    if (issues.length > 0) throw new SchemaValidationError(doc.docId, doc.docType, issues)
+    const schema = getSchema(doc.docType)
+    if (schema) doc.schemaVersion = schema.version
+  }
+
+  /**
+   * Tells local listeners and other tabs about a write
+   */
+  private notify(type: DocumentChangeEvent['type'], doc: BaseDocument): void {
+    const change = { type, docId: doc.docId, document: structuredClone(doc) }
+    this.emit({ ...change, origin: 'local' })
+    this.channel?.postMessage(change)
+  }
+
+  private emit(event: DocumentChangeEvent): void {
+    for (const { filter, callback } of this.listeners) {
+      if (!matchesChangeFilter(event.document, filter)) continue
+      try {
+        callback(event)
+      } catch (err) {
+        console.error('Error in document change listener:', err)
+      }
+    }
+  }
+
+  /**
+   * The existing projects a document lists in `projectIds`
+   */
+  private async projectsOf(doc: BaseDocument): Promise<ProjectDoc[]> {
+    const projects: ProjectDoc[] = []
+    for (const projectId of doc.projectIds ?? []) {
+      const project = await this.getDocument(projectId)
+      if (project?.docType === 'Project') projects.push(project as ProjectDoc)
+    }
+    return projects
+  }
+
+  private storage(): StorageAdapter {
+    if (!this.initialized) throw new Error('DocFlowKit not initialized')
+    return this.adapter
+  }
+
+  /**
+   * Author and hash for a write. Hashing happens before the adapter is
+   * called, since awaiting crypto.subtle inside an IndexedDB transaction
+   * would let it auto-commit.
+   */
+  /**
+   * Writes back a document migrated on read so the migration isn't repeated.
+   * Skipped if the document changed since it was read; that write migrated it.
+   * @returns Whether it was written
+   */
+  private async saveMigrated(doc: BaseDocument): Promise<boolean> {
+    try {
+      doc.referencedIds = getOutgoingReferences(doc)
+      await this.storage().writeDocument(doc, await this.writeInfo(doc, doc.revision ?? 0))
+      return true
+    } catch (err) {
+      if (!(err instanceof ConflictError)) console.error(`Error saving migrated document ${doc.docId}:`, err)
+      return false
+    }
   }
+
+  private async writeInfo(doc: BaseDocument, expectedRevision?: number): Promise<WriteInfo> {
+    return {
+      authorId: this.currentUserId ?? undefined,
+      contentHash: await hashDocument(doc),
+      expectedRevision,
+    }
+  }
+}
+
+function toDocRef(doc: BaseDocument): DocRef {
+  return { docId: doc.docId, docType: doc.docType, title: doc.title }
+}
+
+function matchesChangeFilter(doc: BaseDocument, filter: DocumentChangeFilter): boolean {
+  if (filter.docId && doc.docId !== filter.docId) return false
+  if (filter.docType && doc.docType !== filter.docType) return false
+  if (filter.projectId && !doc.projectIds?.includes(filter.projectId)) return false
+  return true
 }
 
 // Export a singleton instance for use throughout the app
-export const docFlowKit = new DocFlowKit() 
\ No newline at end of file
+export const docFlowKit = new DocFlowKit()
@@ -0,0 +1,125 @@
+import { BaseDocument, DocumentDiff, FieldChange, GraphEdge, GraphNode, ItemListDiff } from './types'
+
+/**
+ * Serializes a value to JSON with object keys sorted, so equal values always
+ * produce the same string regardless of property order.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === undefined) return 'null'
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+  return `{${entries.join(',')}}`
+}
+
+/**
+ * Computes a SHA-256 hex digest of the user-editable parts of a document
+ * (title, content and references). Bookkeeping fields such as timestamps
+ * don't affect the hash.
+ */
+export async function hashDocument(doc: BaseDocument): Promise<string> {
+  const data = new TextEncoder().encode(
+    canonicalJson({ title: doc.title, content: doc.content, references: doc.references })
+  )
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Compares two snapshots of the same document.
+ * Node and edge lists are matched by id; every other content field is
+ * compared by value and reported as a FieldChange.
+ */
+export function diffDocuments(
+  before: BaseDocument,
+  after: BaseDocument,
+  fromRevision: number,
+  toRevision: number
+): DocumentDiff {
+  const diff: DocumentDiff = {
+    docId: after.docId,
+    fromRevision,
+    toRevision,
+    fields: [],
+  }
+
+  if (before.title !== after.title) {
+    diff.title = { before: before.title, after: after.title }
+  }
+
+  const beforeContent = (before.content ?? {}) as Record<string, unknown>
+  const afterContent = (after.content ?? {}) as Record<string, unknown>
+
+  if (isItemList(beforeContent.nodes) && isItemList(afterContent.nodes)) {
+    diff.nodes = diffItemLists(beforeContent.nodes as GraphNode[], afterContent.nodes as GraphNode[])
+  }
+  if (isItemList(beforeContent.edges) && isItemList(afterContent.edges)) {
+    diff.edges = diffItemLists(beforeContent.edges as GraphEdge[], afterContent.edges as GraphEdge[])
+  }
+
+  const keys = new Set([...Object.keys(beforeContent), ...Object.keys(afterContent)])
+  for (const key of keys) {
+    if ((key === 'nodes' && diff.nodes) || (key === 'edges' && diff.edges)) continue
+    collectFieldChanges(`content.${key}`, beforeContent[key], afterContent[key], diff.fields)
+  }
+  collectFieldChanges('references', before.references, after.references, diff.fields)
+
+  return diff
+}
+
+/**
+ * True when a diff has nothing to report
+ */
+export function isEmptyDiff(diff: DocumentDiff): boolean {
+  const listEmpty = (list?: ItemListDiff<unknown>) =>
+    !list || (list.added.length === 0 && list.removed.length === 0 && list.changed.length === 0)
+  return !diff.title && listEmpty(diff.nodes) && listEmpty(diff.edges) && diff.fields.length === 0
+}
+
+function isItemList(value: unknown): value is { id: string }[] {
+  return Array.isArray(value) && value.every((item) => item && typeof item.id === 'string')
+}
+
+function diffItemLists<T extends { id: string }>(before: T[], after: T[]): ItemListDiff<T> {
+  const beforeById = new Map(before.map((item) => [item.id, item]))
+  const afterById = new Map(after.map((item) => [item.id, item]))
+  const result: ItemListDiff<T> = { added: [], removed: [], changed: [] }
+
+  for (const item of after) {
+    const previous = beforeById.get(item.id)
+    if (!previous) {
+      result.added.push(item)
+    } else if (canonicalJson(previous) !== canonicalJson(item)) {
+      result.changed.push({ before: previous, after: item })
+    }
+  }
+  for (const item of before) {
+    if (!afterById.has(item.id)) {
+      result.removed.push(item)
+    }
+  }
+  return result
+}
+
+function collectFieldChanges(path: string, before: unknown, after: unknown, out: FieldChange[]) {
+  if (canonicalJson(before) === canonicalJson(after)) return
+
+  const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+    !!v && typeof v === 'object' && !Array.isArray(v)
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    for (const key of keys) {
+      collectFieldChanges(`${path}.${key}`, before[key], after[key], out)
+    }
+    return
+  }
+  out.push({ path, before, after })
+}
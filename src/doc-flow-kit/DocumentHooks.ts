@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react'
+import { BaseDocument, DocumentQuery } from './types'
+import { docFlowKit } from './DocFlowKit'
+
+/**
+ * Loads a document and keeps it current as it changes, in this tab or
+ * another. `document` becomes null if the document is deleted.
+ * @param docId The document to watch; pass null to watch nothing
+ */
+export function useDocument<T extends BaseDocument = BaseDocument>(docId: string | null) {
+  const [document, setDocument] = useState<T | null>(null)
+  const [isLoading, setIsLoading] = useState(docId !== null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDocument(null)
+    setError(null)
+    if (!docId) {
+      setIsLoading(false)
+      return
+    }
+
+    let cancelled = false
+    let changed = false
+    const unsubscribe = docFlowKit.subscribe({ docId }, (event) => {
+      changed = true
+      setDocument(event.type === 'delete' ? null : event.document as T)
+      setIsLoading(false)
+    })
+
+    setIsLoading(true)
+    docFlowKit.getDocument(docId)
+      .then((doc) => {
+        // A change event that arrived first is newer than what was read
+        if (!cancelled && !changed) setDocument(doc as T | null)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [docId])
+
+  return { document, isLoading, error }
+}
+
+/**
+ * Runs a query and runs it again whenever a document of the queried type
+ * changes, in this tab or another
+ * @param query Same as DocFlowKit.queryDocuments; compared by value, so it
+ * can be written inline
+ */
+export function useDocuments<T extends BaseDocument = BaseDocument>(query: DocumentQuery) {
+  const [documents, setDocuments] = useState<T[]>([])
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const queryKey = JSON.stringify(query)
+
+  useEffect(() => {
+    const parsed = JSON.parse(queryKey) as DocumentQuery
+    let cancelled = false
+    let latestRun = 0
+
+    async function run() {
+      const thisRun = ++latestRun
+      try {
+        const result = await docFlowKit.queryDocuments<T>(parsed)
+        // Drop results overtaken by a later run
+        if (cancelled || thisRun !== latestRun) return
+        setDocuments(result.documents)
+        setNextCursor(result.nextCursor)
+        setError(null)
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err))
+      } finally {
+        if (!cancelled && thisRun === latestRun) setIsLoading(false)
+      }
+    }
+
+    // Filtering by docType only: a change can also move a document out of
+    // the results, which a narrower filter on the new version would miss
+    const unsubscribe = docFlowKit.subscribe({ docType: parsed.docType }, () => {
+      run()
+    })
+    setIsLoading(true)
+    run()
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [queryKey])
+
+  return { documents, nextCursor, isLoading, error }
+}
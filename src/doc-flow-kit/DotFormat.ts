@@ -0,0 +1,485 @@
+import { DiagramDoc, DocRef, GraphEdge, GraphNode, NodeBasedContent, ProjectDoc } from './types'
+import { DocFlowKit, docFlowKit } from './DocFlowKit'
+import { NODE_COLORS } from './GraphSvg'
+import { DotParseError } from './errors'
+import { getEvidence, mapAttachments } from './Evidence'
+import { getSubDiagramId, setSubDiagramId, withSubDiagramReferences } from './SubDiagrams'
+
+/**
+ * Graphviz shape and style for each node type. Files written here also
+ * carry the type itself, so shapes are only read back from files drawn
+ * elsewhere; there Process and GenericNode can't be told apart.
+ */
+const DOT_NODE_STYLES: Record<string, { shape: string; style?: string }> = {
+  Incident: { shape: 'octagon' },
+  Damage: { shape: 'hexagon' },
+  Event: { shape: 'box' },
+  UnEvent: { shape: 'box', style: 'dashed' },
+  State: { shape: 'ellipse' },
+  Assumption: { shape: 'parallelogram' },
+  Process: { shape: 'box', style: 'rounded' },
+  ActionItem: { shape: 'note' },
+  ProximateCause: { shape: 'diamond' },
+  GenericNode: { shape: 'box', style: 'rounded' },
+}
+
+// Attributes holding our own data; Graphviz ignores attributes it doesn't know
+const TYPE_ATTRIBUTE = 'wb_type'
+const EDGE_ID_ATTRIBUTE = 'wb_id'
+const PROPERTY_PREFIX = 'wb_prop_'
+
+const KEYWORDS = ['strict', 'graph', 'digraph', 'subgraph', 'node', 'edge']
+
+/**
+ * A parsed DOT graph. Nodes are in order of first mention, and each keeps
+ * the attributes it had when it was created plus those set on it later.
+ */
+export interface DotGraph {
+  id?: string
+  directed: boolean
+  attributes: Record<string, string>
+  nodes: { id: string; attributes: Record<string, string> }[]
+  edges: { source: string; target: string; attributes: Record<string, string> }[]
+}
+
+/**
+ * Writes a diagram as a Graphviz digraph. Edges run from cause to effect,
+ * drawn bottom to top so the incident ends up at the top. Node types, edge
+ * ids and all properties go in wb_* attributes, so dotToDiagram() reads the
+ * file back unchanged.
+ */
+export function diagramToDot(diagram: Pick<DiagramDoc, 'title' | 'content'>): string {
+  const lines = [
+    `digraph ${formatId(diagram.title)} {`,
+    `  graph [label=${formatLabel(diagram.title)}, labelloc=t, rankdir=BT]`,
+    '  node [fontname=Helvetica, fontcolor=white]',
+  ]
+
+  for (const node of diagram.content.nodes) {
+    const look = DOT_NODE_STYLES[node.type] ?? DOT_NODE_STYLES.GenericNode
+    const attributes = [
+      `label=${formatLabel(node.label)}`,
+      `${TYPE_ATTRIBUTE}=${formatId(node.type)}`,
+      `shape=${look.shape}`,
+      `style=${formatId(['filled', look.style].filter(Boolean).join(','))}`,
+      `fillcolor=${formatId(NODE_COLORS[node.type] ?? NODE_COLORS.GenericNode)}`,
+      ...formatProperties(node.properties),
+    ]
+    lines.push(`  ${formatId(node.id)} [${attributes.join(', ')}]`)
+  }
+
+  for (const edge of diagram.content.edges) {
+    const attributes = [
+      `${EDGE_ID_ATTRIBUTE}=${formatId(edge.id)}`,
+      ...(edge.type !== undefined ? [`${TYPE_ATTRIBUTE}=${formatId(edge.type)}`] : []),
+      ...(edge.type === 'mitigates' ? ['style=dashed'] : []),
+      ...formatProperties(edge.properties ?? {}),
+    ]
+    lines.push(`  ${formatId(edge.source)} -> ${formatId(edge.target)} [${attributes.join(', ')}]`)
+  }
+
+  lines.push('}')
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Reads a diagram from DOT. Files from diagramToDot() come back exactly;
+ * for other files, node types are guessed from their shapes, labels default
+ * to node names and every edge is taken to run from cause to effect.
+ * @param fallbackTitle Used when the graph has neither a label nor a name
+ * @throws DotParseError if the text isn't valid DOT
+ */
+export function dotToDiagram(text: string, fallbackTitle = 'Imported Diagram'): { title: string; content: NodeBasedContent } {
+  const graph = parseDot(text)
+
+  const nodes: GraphNode[] = graph.nodes.map(({ id, attributes }) => ({
+    id,
+    type: attributes[TYPE_ATTRIBUTE] ?? inferNodeType(attributes),
+    label: attributes.label ?? id,
+    properties: readProperties(attributes),
+  }))
+
+  const edgeIds = new Set<string>()
+  const edges: GraphEdge[] = graph.edges.map(({ source, target, attributes }) => {
+    // Ids can repeat when one statement expands to several edges
+    const id = attributes[EDGE_ID_ATTRIBUTE] && !edgeIds.has(attributes[EDGE_ID_ATTRIBUTE])
+      ? attributes[EDGE_ID_ATTRIBUTE]
+      : crypto.randomUUID()
+    edgeIds.add(id)
+    const edge: GraphEdge = { id, source, target }
+    // Our own files leave the type out only when the edge had none
+    const type = attributes[TYPE_ATTRIBUTE] ?? (attributes[EDGE_ID_ATTRIBUTE] ? undefined : 'causal')
+    if (type !== undefined) edge.type = type
+    const properties = readProperties(attributes)
+    if (Object.keys(properties).length > 0) edge.properties = properties
+    return edge
+  })
+
+  return { title: graph.attributes.label ?? graph.id ?? fallbackTitle, content: { nodes, edges } }
+}
+
+/**
+ * Imports a DOT file as a new diagram and lists it in a project
+ * @param kit DocFlowKit instance to write to
+ * @returns The new diagram
+ * @throws DotParseError if the text isn't valid DOT
+ */
+export async function importDotDiagram(
+  text: string,
+  projectId: string,
+  fallbackTitle?: string,
+  kit: DocFlowKit = docFlowKit
+): Promise<DiagramDoc> {
+  const project = await kit.getDocument(projectId) as ProjectDoc | null
+  if (!project) {
+    throw new Error(`Project ${projectId} not found`)
+  }
+  const { title, content } = dotToDiagram(text, fallbackTitle)
+
+  // Sub-diagram links are docIds, which only hold in the database the file came from
+  const linked: GraphNode[] = []
+  for (const node of content.nodes) {
+    const subDiagramId = getSubDiagramId(node)
+    linked.push(subDiagramId && !(await kit.getDocument(subDiagramId)) ? setSubDiagramId(node, undefined) : node)
+  }
+
+  // Attachments likewise. Blobs that are here get copied, since deleting
+  // the diagram deletes its blobs and the original may still use them.
+  const blobIdMap = new Map<string, string>()
+  for (const { attachment } of linked.flatMap(getEvidence)) {
+    if (!attachment || blobIdMap.has(attachment.blobId)) continue
+    const blob = await kit.getBlob(attachment.blobId)
+    if (blob) blobIdMap.set(attachment.blobId, await kit.storeBlob(blob))
+  }
+  const nodes = mapAttachments(linked, (attachment) => {
+    const blobId = blobIdMap.get(attachment.blobId)
+    return blobId ? { ...attachment, blobId } : undefined
+  })
+
+  const diagram: DiagramDoc = {
+    docId: crypto.randomUUID(),
+    docType: 'Diagram',
+    title,
+    projectIds: [projectId],
+    references: withSubDiagramReferences([], nodes),
+    content: { nodes, edges: content.edges },
+  }
+  await kit.createDocument(diagram)
+
+  const ref: DocRef = { docId: diagram.docId, docType: 'Diagram', title }
+  project.content.documents = [...project.content.documents, ref]
+  await kit.updateDocument(project)
+  return diagram
+}
+
+function inferNodeType(attributes: Record<string, string>): string {
+  const style = (attributes.style ?? '').toLowerCase()
+  switch (attributes.shape?.toLowerCase()) {
+    case 'octagon':
+    case 'doubleoctagon':
+    case 'tripleoctagon':
+      return 'Incident'
+    case 'hexagon':
+      return 'Damage'
+    case 'box':
+    case 'rect':
+    case 'rectangle':
+    case 'square':
+      if (style.includes('dashed') || style.includes('dotted')) return 'UnEvent'
+      return style.includes('rounded') ? 'GenericNode' : 'Event'
+    case 'ellipse':
+    case 'oval':
+    case 'circle':
+      return 'State'
+    case 'parallelogram':
+      return 'Assumption'
+    case 'note':
+      return 'ActionItem'
+    case 'diamond':
+      return 'ProximateCause'
+    default:
+      return 'GenericNode'
+  }
+}
+
+// Property values are JSON, so numbers, flags and nested objects keep their types
+function formatProperties(properties: Record<string, unknown>): string[] {
+  return Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${formatId(PROPERTY_PREFIX + key)}=${formatId(JSON.stringify(value))}`)
+}
+
+function readProperties(attributes: Record<string, string>): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+  for (const [name, value] of Object.entries(attributes)) {
+    if (!name.startsWith(PROPERTY_PREFIX)) continue
+    try {
+      properties[name.slice(PROPERTY_PREFIX.length)] = JSON.parse(value)
+    } catch {
+      // Edited by hand into something that isn't JSON; keep the text
+      properties[name.slice(PROPERTY_PREFIX.length)] = value
+    }
+  }
+  return properties
+}
+
+function formatId(value: string): string {
+  const isPlain = /^[A-Za-z_][A-Za-z0-9_]*$/.test(value) && !KEYWORDS.includes(value.toLowerCase())
+  if (isPlain || /^-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)$/.test(value)) return value
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+// Labels use Graphviz's escapes, where \n is a line break
+function formatLabel(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+}
+
+// -- Parsing --
+
+interface Token {
+  kind: 'id' | 'quoted' | 'html' | 'punct' | 'edgeop' | 'eof'
+  value: string
+  line: number
+}
+
+const ID_PATTERN = /[A-Za-z_\u0080-\uFFFF][A-Za-z0-9_\u0080-\uFFFF]*|-?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)/y
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let line = 1
+  let i = 0
+
+  // Moves past text[i..end), counting line breaks
+  const advance = (end: number) => {
+    for (; i < end; i++) if (text[i] === '\n') line++
+  }
+
+  while (i < text.length) {
+    const c = text[i]
+    if (/\s/.test(c)) {
+      advance(i + 1)
+    } else if (c === '#' || text.startsWith('//', i)) {
+      const end = text.indexOf('\n', i)
+      advance(end < 0 ? text.length : end)
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2)
+      if (end < 0) throw new DotParseError('unterminated comment', line)
+      advance(end + 2)
+    } else if (c === '"') {
+      const start = line
+      let j = i + 1
+      while (j < text.length && text[j] !== '"') j += text[j] === '\\' ? 2 : 1
+      if (j >= text.length) throw new DotParseError('unterminated string', start)
+      tokens.push({ kind: 'quoted', value: text.slice(i + 1, j), line: start })
+      advance(j + 1)
+    } else if (c === '<') {
+      const start = line
+      let depth = 0
+      let j = i
+      do {
+        if (text[j] === '<') depth++
+        else if (text[j] === '>') depth--
+        j++
+      } while (depth > 0 && j < text.length)
+      if (depth > 0) throw new DotParseError('unterminated HTML string', start)
+      tokens.push({ kind: 'html', value: text.slice(i + 1, j - 1), line: start })
+      advance(j)
+    } else if (text.startsWith('->', i) || text.startsWith('--', i)) {
+      tokens.push({ kind: 'edgeop', value: text.slice(i, i + 2), line })
+      i += 2
+    } else if ('{}[]=;,:+'.includes(c)) {
+      tokens.push({ kind: 'punct', value: c, line })
+      i++
+    } else {
+      ID_PATTERN.lastIndex = i
+      const match = ID_PATTERN.exec(text)
+      if (!match) throw new DotParseError(`unexpected "${c}"`, line)
+      tokens.push({ kind: 'id', value: match[0], line })
+      i += match[0].length
+    }
+  }
+
+  tokens.push({ kind: 'eof', value: '', line })
+  return tokens
+}
+
+/**
+ * Reads the first graph in a DOT file. Ports, clusters and layout
+ * attributes are read but have no meaning here; subgraphs are flattened.
+ * @throws DotParseError if the text isn't valid DOT
+ */
+export function parseDot(text: string): DotGraph {
+  const tokens = tokenize(text)
+  let pos = 0
+  const nodes = new Map<string, Record<string, string>>()
+  const graph: DotGraph = { directed: true, attributes: {}, nodes: [], edges: [] }
+
+  const peek = (offset = 0) => tokens[Math.min(pos + offset, tokens.length - 1)]
+  const next = () => tokens[Math.min(pos++, tokens.length - 1)]
+  const isPunct = (token: Token, value: string) => token.kind === 'punct' && token.value === value
+  const isKeyword = (token: Token, keyword: string) => token.kind === 'id' && token.value.toLowerCase() === keyword
+  const isId = (token: Token) =>
+    (token.kind === 'id' && !KEYWORDS.includes(token.value.toLowerCase())) || token.kind === 'quoted' || token.kind === 'html'
+  const fail = (message: string, token = peek()): never => {
+    throw new DotParseError(token.kind === 'eof' ? `${message} at end of file` : `${message}, found "${token.value}"`, token.line)
+  }
+  const expect = (value: string) => {
+    if (!isPunct(peek(), value)) fail(`expected "${value}"`)
+    next()
+  }
+
+  // An ID, with "a" + "b" concatenation of quoted strings
+  function readId(isLabel = false): string {
+    const token = peek()
+    if (!isId(token)) fail('expected a name or value')
+    next()
+    if (token.kind === 'id') return token.value
+    if (token.kind === 'html') return isLabel ? htmlToText(token.value) : token.value
+    let raw = token.value
+    while (isPunct(peek(), '+') && peek(1).kind === 'quoted') {
+      next()
+      raw += next().value
+    }
+    return unescapeQuoted(raw, isLabel)
+  }
+
+  function readAttributes(): Record<string, string> {
+    const attributes: Record<string, string> = {}
+    while (isPunct(peek(), '[')) {
+      next()
+      while (!isPunct(peek(), ']')) {
+        const name = readId()
+        if (isPunct(peek(), '=')) {
+          next()
+          attributes[name] = readId(name === 'label')
+        } else {
+          attributes[name] = 'true'
+        }
+        if (isPunct(peek(), ';') || isPunct(peek(), ',')) next()
+      }
+      next()
+    }
+    return attributes
+  }
+
+  function ensureNode(id: string, scope: Scope) {
+    if (nodes.has(id)) return
+    nodes.set(id, { ...scope.node })
+  }
+
+  // A node or a subgraph in an edge statement; returns the nodes it stands for
+  function readOperand(scope: Scope, mentioned: Set<string>): string[] {
+    if (isKeyword(peek(), 'subgraph') || isPunct(peek(), '{')) {
+      if (isKeyword(peek(), 'subgraph')) {
+        next()
+        if (isId(peek())) readId()
+      }
+      expect('{')
+      const inner = new Set<string>()
+      readStatements({ node: { ...scope.node }, edge: { ...scope.edge } }, inner, {})
+      expect('}')
+      inner.forEach((id) => mentioned.add(id))
+      return [...inner]
+    }
+    const id = readId()
+    // Ports say where on the node an edge attaches; there's nothing to keep
+    while (isPunct(peek(), ':')) {
+      next()
+      readId()
+    }
+    ensureNode(id, scope)
+    mentioned.add(id)
+    return [id]
+  }
+
+  function readStatement(scope: Scope, mentioned: Set<string>, graphAttributes: Record<string, string>) {
+    const token = peek()
+    if ((isKeyword(token, 'graph') || isKeyword(token, 'node') || isKeyword(token, 'edge')) && isPunct(peek(1), '[')) {
+      next()
+      const attributes = readAttributes()
+      if (isKeyword(token, 'graph')) Object.assign(graphAttributes, attributes)
+      else if (isKeyword(token, 'node')) scope.node = { ...scope.node, ...attributes }
+      else scope.edge = { ...scope.edge, ...attributes }
+      return
+    }
+    if (isId(token) && isPunct(peek(1), '=')) {
+      const name = readId()
+      next()
+      graphAttributes[name] = readId(name === 'label')
+      return
+    }
+
+    const isSubgraph = isKeyword(token, 'subgraph') || isPunct(token, '{')
+    if (!isSubgraph && !isId(token)) fail('expected a statement')
+    const operands = [readOperand(scope, mentioned)]
+    while (peek().kind === 'edgeop') {
+      next()
+      operands.push(readOperand(scope, mentioned))
+    }
+
+    const attributes = readAttributes()
+    if (operands.length === 1) {
+      if (!isSubgraph) Object.assign(nodes.get(operands[0][0])!, attributes)
+      return
+    }
+    for (let i = 1; i < operands.length; i++) {
+      for (const source of operands[i - 1]) {
+        for (const target of operands[i]) {
+          graph.edges.push({ source, target, attributes: { ...scope.edge, ...attributes } })
+        }
+      }
+    }
+  }
+
+  function readStatements(scope: Scope, mentioned: Set<string>, graphAttributes: Record<string, string>) {
+    while (!isPunct(peek(), '}')) {
+      if (peek().kind === 'eof') fail('expected "}"')
+      readStatement(scope, mentioned, graphAttributes)
+      if (isPunct(peek(), ';') || isPunct(peek(), ',')) next()
+    }
+  }
+
+  if (isKeyword(peek(), 'strict')) next()
+  if (isKeyword(peek(), 'digraph')) graph.directed = true
+  else if (isKeyword(peek(), 'graph')) graph.directed = false
+  else fail('expected "digraph" or "graph"')
+  next()
+  if (isId(peek())) graph.id = readId()
+  expect('{')
+  // Subgraph attributes such as cluster labels are read into throwaway objects
+  readStatements({ node: {}, edge: {} }, new Set(), graph.attributes)
+  expect('}')
+
+  graph.nodes = [...nodes].map(([id, attributes]) => ({ id, attributes }))
+  return graph
+}
+
+// Defaults set by `node [...]` and `edge [...]`, which apply until the end of their graph or subgraph
+interface Scope {
+  node: Record<string, string>
+  edge: Record<string, string>
+}
+
+/**
+ * Undoes quoting: \" and \\ always, line continuations, and for labels the
+ * \n, \l and \r line breaks. Other escapes, like \N, are kept as written.
+ */
+function unescapeQuoted(raw: string, isLabel: boolean): string {
+  return raw.replace(/\\([\s\S])/g, (escape, c: string) => {
+    if (c === '"' || c === '\\') return c
+    if (c === '\n') return ''
+    if (isLabel && (c === 'n' || c === 'l' || c === 'r')) return '\n'
+    return escape
+  })
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim()
+}
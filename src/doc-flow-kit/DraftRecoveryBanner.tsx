@@ -0,0 +1,38 @@
+import { DocumentDraft } from './types'
+
+interface DraftRecoveryBannerProps {
+  draft: DocumentDraft
+  /**
+   * Revision of the document now open, to tell whether it moved on since the draft
+   */
+  headRevision?: number
+  onRestore: () => void
+  onDiscard: () => void
+}
+
+/**
+ * Offers back edits that were left unsaved by a crash, a reload or leaving the editor
+ */
+export function DraftRecoveryBanner({ draft, headRevision, onRestore, onDiscard }: DraftRecoveryBannerProps) {
+  const stale = draft.baseRevision !== (headRevision ?? 0)
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.5rem 0.8rem', marginBottom: '1rem', backgroundColor: '#FFF3E0', border: '1px solid #FFB74D', borderRadius: '4px' }}>
+      <span style={{ flexGrow: 1 }}>
+        Unsaved changes from {new Date(draft.savedAt).toLocaleString()} were recovered.
+        {stale && ' The document has been saved again since then.'}
+      </span>
+      <button
+        onClick={onRestore}
+        style={{ padding: '0.3rem 0.6rem', backgroundColor: '#FF9800', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+      >
+        Restore
+      </button>
+      <button
+        onClick={onDiscard}
+        style={{ padding: '0.3rem 0.6rem', backgroundColor: 'transparent', color: '#666', border: '1px solid #999', borderRadius: '4px', cursor: 'pointer' }}
+      >
+        Discard
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+import React, { useRef, useState } from 'react'
+
+/**
+ * One edit to an editor's state. Commands are pure: `apply` returns the new
+ * state and leaves the old one untouched, so undo and redo just swap
+ * snapshots.
+ */
+export interface EditCommand<S> {
+  /**
+   * What the edit did, e.g. "Add node"; shown on the undo and redo buttons
+   */
+  label: string
+  apply: (state: S) => S
+  /**
+   * Consecutive commands with the same key become one undo step, so typing
+   * a label is undone in one go
+   */
+  mergeKey?: string
+}
+
+interface HistoryEntry<S> {
+  label: string
+  before: S
+  after: S
+  mergeKey?: string
+}
+
+const MAX_ENTRIES = 200
+
+/**
+ * Undo and redo stacks of state snapshots
+ */
+export class EditHistory<S> {
+  private undoStack: HistoryEntry<S>[] = []
+  private redoStack: HistoryEntry<S>[] = []
+  // Cleared by undo and redo, so the next edit starts a new step
+  private canMerge = false
+
+  record(label: string, before: S, after: S, mergeKey?: string): void {
+    const top = this.undoStack[this.undoStack.length - 1]
+    if (this.canMerge && mergeKey && top?.mergeKey === mergeKey) {
+      top.after = after
+    } else {
+      this.undoStack.push({ label, before, after, mergeKey })
+      if (this.undoStack.length > MAX_ENTRIES) this.undoStack.shift()
+    }
+    this.redoStack = []
+    this.canMerge = true
+  }
+
+  undo(): S | undefined {
+    const entry = this.undoStack.pop()
+    if (!entry) return undefined
+    this.redoStack.push(entry)
+    this.canMerge = false
+    return entry.before
+  }
+
+  redo(): S | undefined {
+    const entry = this.redoStack.pop()
+    if (!entry) return undefined
+    this.undoStack.push(entry)
+    this.canMerge = false
+    return entry.after
+  }
+
+  clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+    this.canMerge = false
+  }
+
+  get undoLabel(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.label
+  }
+
+  get redoLabel(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.label
+  }
+
+  /**
+   * The state the history is at, or undefined when it is empty
+   */
+  get current(): S | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.after ?? this.redoStack[this.redoStack.length - 1]?.before
+  }
+}
+
+function isTextEntry(target: EventTarget): boolean {
+  if (target instanceof HTMLTextAreaElement) return true
+  if (target instanceof HTMLInputElement) return !['checkbox', 'radio', 'button', 'submit', 'range', 'color', 'file'].includes(target.type)
+  return target instanceof HTMLElement && target.isContentEditable
+}
+
+// Histories outlive their editors, so switching documents and back keeps them for the session
+const sessionHistories = new Map<string, EditHistory<unknown>>()
+
+export function getEditHistory<S>(historyKey: string): EditHistory<S> {
+  let history = sessionHistories.get(historyKey)
+  if (!history) {
+    history = new EditHistory<unknown>()
+    sessionHistories.set(historyKey, history)
+  }
+  return history as EditHistory<S>
+}
+
+/**
+ * Editor state with undo and redo, kept per document for the session.
+ * A history that doesn't end at `initial` (its edits were never saved, or
+ * the document changed since) is dropped.
+ * @param historyKey Usually the edited document's docId
+ * @param isSame Compares the history's latest state with `initial`
+ */
+export function useEditHistory<S>(historyKey: string, initial: S, isSame: (a: S, b: S) => boolean) {
+  const [history] = useState(() => {
+    const existing = getEditHistory<S>(historyKey)
+    if (existing.current !== undefined && !isSame(existing.current, initial)) existing.clear()
+    return existing
+  })
+  const [state, setState] = useState(initial)
+  const stateRef = useRef(initial)
+
+  // Applies to the newest state, so several commands in one event each see the previous one's result
+  function execute(command: EditCommand<S>): S {
+    const before = stateRef.current
+    const after = command.apply(before)
+    if (after === before) return before
+    history.record(command.label, before, after, command.mergeKey)
+    stateRef.current = after
+    setState(after)
+    return after
+  }
+
+  function move(next: S | undefined) {
+    if (next === undefined) return
+    stateRef.current = next
+    setState(next)
+  }
+
+  /**
+   * Replaces the state without an undo step, e.g. with a newer saved
+   * version; the old history no longer applies and is dropped
+   */
+  function reset(next: S) {
+    history.clear()
+    move(next)
+  }
+
+  const undo = () => move(history.undo())
+  const redo = () => move(history.redo())
+
+  // Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl+Y redo. Text fields keep
+  // the browser's own undo for what is being typed.
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) return
+    const key = e.key.toLowerCase()
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault()
+      undo()
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault()
+      redo()
+    }
+  }
+
+  return {
+    state,
+    execute,
+    undo,
+    redo,
+    reset,
+    handleKeyDown,
+    canUndo: history.undoLabel !== undefined,
+    canRedo: history.redoLabel !== undefined,
+    undoLabel: history.undoLabel,
+    redoLabel: history.redoLabel,
+  }
+}
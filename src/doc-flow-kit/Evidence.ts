@@ -0,0 +1,57 @@
+import { Attachment, BaseDocument, EvidenceConfidence, EvidenceItem, EvidenceType, GraphNode } from './types'
+
+export const EVIDENCE_TYPES: EvidenceType[] = ['interview', 'log', 'photo', 'sensor', 'document', 'other']
+
+export const EVIDENCE_CONFIDENCES: EvidenceConfidence[] = ['low', 'medium', 'high']
+
+// Nodes that record what was done about a factor rather than a factor itself
+const NO_EVIDENCE_TYPES = ['ActionItem']
+
+export function getEvidence(node: GraphNode): EvidenceItem[] {
+  return (node.properties?.evidence as EvidenceItem[] | undefined) ?? []
+}
+
+/**
+ * Returns a copy of the node with its evidence list replaced
+ */
+export function setEvidence(node: GraphNode, evidence: EvidenceItem[]): GraphNode {
+  const properties: Record<string, unknown> = { ...node.properties, evidence }
+  if (evidence.length === 0) delete properties.evidence
+  return { ...node, properties }
+}
+
+/**
+ * Causal factors nobody has backed with evidence yet
+ */
+export function findNodesWithoutEvidence(nodes: GraphNode[]): GraphNode[] {
+  return nodes.filter((n) => !NO_EVIDENCE_TYPES.includes(n.type) && getEvidence(n).length === 0)
+}
+
+/**
+ * Blob ids of every attachment on a diagram's nodes
+ */
+export function getAttachmentBlobIds(doc: BaseDocument): string[] {
+  const nodes = (doc.content?.nodes ?? []) as GraphNode[]
+  return nodes.flatMap((node) =>
+    getEvidence(node)
+      .map((item) => item.attachment?.blobId)
+      .filter((blobId): blobId is string => !!blobId)
+  )
+}
+
+/**
+ * Returns the nodes with every attachment passed through `update`. When it
+ * returns undefined the attachment is dropped and its evidence item kept.
+ */
+export function mapAttachments(nodes: GraphNode[], update: (attachment: Attachment) => Attachment | undefined): GraphNode[] {
+  return nodes.map((node) => {
+    const evidence = getEvidence(node)
+    if (!evidence.some((item) => item.attachment)) return node
+    return setEvidence(node, evidence.map((item) => {
+      if (!item.attachment) return item
+      const { attachment, ...rest } = item
+      const updated = update(attachment)
+      return updated ? { ...rest, attachment: updated } : rest
+    }))
+  })
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import { EvidenceConfidence, EvidenceItem, EvidenceType, GraphNode } from './types'
+import { docFlowKit } from './DocFlowKit'
+import { EVIDENCE_CONFIDENCES, EVIDENCE_TYPES, getEvidence, setEvidence } from './Evidence'
+
+interface EvidenceDrawerProps {
+  node: GraphNode
+  onChange: (node: GraphNode) => void
+  onClose: () => void
+}
+
+const CONFIDENCE_COLORS: Record<EvidenceConfidence, string> = {
+  low: '#f44336',
+  medium: '#FF9800',
+  high: '#4CAF50',
+}
+
+/**
+ * Slides in from the right with the evidence backing one node, and a form
+ * to add more. Attached files go to DocFlowKit's blob store straight away.
+ */
+export function EvidenceDrawer({ node, onChange, onClose }: EvidenceDrawerProps) {
+  const evidence = getEvidence(node)
+  const [type, setType] = useState<EvidenceType>('interview')
+  const [source, setSource] = useState('')
+  const [confidence, setConfidence] = useState<EvidenceConfidence>('medium')
+  const [excerpt, setExcerpt] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [fileInputKey, setFileInputKey] = useState(0)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function addEvidence() {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const item: EvidenceItem = {
+        id: crypto.randomUUID(),
+        type,
+        source: source.trim(),
+        confidence,
+        excerpt: excerpt.trim() || undefined,
+        addedBy: docFlowKit.getCurrentUser() ?? undefined,
+        addedAt: new Date().toISOString(),
+      }
+      if (file) {
+        item.attachment = {
+          blobId: await docFlowKit.storeBlob(file),
+          fileName: file.name,
+          contentType: file.type || 'application/octet-stream',
+          size: file.size,
+        }
+      }
+      onChange(setEvidence(node, [...evidence, item]))
+      setSource('')
+      setExcerpt('')
+      setFile(null)
+      setFileInputKey((k) => k + 1)
+    } catch (err) {
+      setError(`Error attaching file: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  // The blob stays in the store: earlier revisions of the diagram still list it
+  function removeEvidence(itemId: string) {
+    onChange(setEvidence(node, evidence.filter((item) => item.id !== itemId)))
+  }
+
+  async function openAttachment(item: EvidenceItem) {
+    if (!item.attachment) return
+    const blob = await docFlowKit.getBlob(item.attachment.blobId)
+    if (!blob) {
+      setError(`The file "${item.attachment.fileName}" is no longer stored.`)
+      return
+    }
+    const url = URL.createObjectURL(blob)
+    window.open(url, '_blank')
+    setTimeout(() => URL.revokeObjectURL(url), 60_000)
+  }
+
+  const inputStyle = { width: '100%', padding: '0.3rem', boxSizing: 'border-box' as const, marginBottom: '0.5rem' }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: '380px',
+        backgroundColor: 'white',
+        boxShadow: '-2px 0 8px rgba(0,0,0,0.2)',
+        padding: '1rem',
+        overflowY: 'auto',
+        zIndex: 1300,
+        color: '#333',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h4 style={{ margin: 0 }}>Evidence: {node.label}</h4>
+        <button onClick={onClose} style={{ background: 'none', border: 'none', fontSize: '1.2rem', cursor: 'pointer' }}>
+          ×
+        </button>
+      </div>
+
+      {evidence.length === 0 ? (
+        <p style={{ color: '#f44336' }}>No evidence backs this node yet.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0 }}>
+          {evidence.map((item) => (
+            <li key={item.id} style={{ borderBottom: '1px solid #eee', padding: '0.5rem 0' }}>
+              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                <strong style={{ textTransform: 'capitalize' }}>{item.type}</strong>
+                <span style={{ color: CONFIDENCE_COLORS[item.confidence], fontSize: '0.85rem' }}>
+                  {item.confidence} confidence
+                </span>
+                <button
+                  onClick={() => removeEvidence(item.id)}
+                  style={{ marginLeft: 'auto', padding: '0.1rem 0.4rem', backgroundColor: '#f44336', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  Remove
+                </button>
+              </div>
+              <div style={{ color: '#666', fontSize: '0.9rem' }}>Source: {item.source}</div>
+              {item.excerpt && (
+                <blockquote style={{ margin: '0.3rem 0', paddingLeft: '0.5rem', borderLeft: '3px solid #ddd' }}>
+                  {item.excerpt}
+                </blockquote>
+              )}
+              {item.attachment && (
+                <button
+                  onClick={() => openAttachment(item)}
+                  style={{ padding: 0, background: 'none', border: 'none', color: '#2196F3', cursor: 'pointer', textDecoration: 'underline' }}
+                >
+                  {item.attachment.fileName} ({Math.ceil(item.attachment.size / 1024)} KB)
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h5>Add Evidence</h5>
+      <select value={type} onChange={(e) => setType(e.target.value as EvidenceType)} style={inputStyle}>
+        {EVIDENCE_TYPES.map((t) => (
+          <option key={t} value={t}>
+            {t}
+          </option>
+        ))}
+      </select>
+      <input value={source} onChange={(e) => setSource(e.target.value)} placeholder="Source, e.g. interview with the shift lead" style={inputStyle} />
+      <select value={confidence} onChange={(e) => setConfidence(e.target.value as EvidenceConfidence)} style={inputStyle}>
+        {EVIDENCE_CONFIDENCES.map((c) => (
+          <option key={c} value={c}>
+            {c} confidence
+          </option>
+        ))}
+      </select>
+      <textarea value={excerpt} onChange={(e) => setExcerpt(e.target.value)} placeholder="Quote or excerpt" rows={3} style={inputStyle} />
+      <input key={fileInputKey} type="file" onChange={(e) => setFile(e.target.files?.[0] ?? null)} style={inputStyle} />
+      {error && <p style={{ color: '#f44336' }}>{error}</p>}
+      <button
+        onClick={addEvidence}
+        disabled={!source.trim() || isSaving}
+        style={{ padding: '0.5rem 1rem', backgroundColor: source.trim() && !isSaving ? '#4CAF50' : '#cccccc', color: 'white', border: 'none', borderRadius: '4px', cursor: source.trim() && !isSaving ? 'pointer' : 'not-allowed' }}
+      >
+        {isSaving ? 'Attaching...' : 'Add Evidence'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+import { useEffect, useState } from 'react'
+import { DiagramDoc, NodeBasedContent } from './types'
+import { flattenDiagram } from './SubDiagrams'
+
+interface FlattenedDiagramPanelProps {
+  diagramDoc: DiagramDoc
+}
+
+/**
+ * The saved diagram with every sub-diagram merged in, ready to copy out
+ */
+export function FlattenedDiagramPanel({ diagramDoc }: FlattenedDiagramPanelProps) {
+  const [flattened, setFlattened] = useState<NodeBasedContent | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    flattenDiagram(diagramDoc)
+      .then((content) => {
+        if (!cancelled) setFlattened(content)
+      })
+      .catch((err) => setError(`Error flattening diagram: ${err instanceof Error ? err.message : String(err)}`))
+    return () => {
+      cancelled = true
+    }
+  }, [diagramDoc])
+
+  async function copyJson() {
+    if (!flattened) return
+    const doc: DiagramDoc = {
+      docId: diagramDoc.docId,
+      docType: 'Diagram',
+      title: `${diagramDoc.title} (flattened)`,
+      content: flattened,
+    }
+    await navigator.clipboard.writeText(JSON.stringify(doc, null, 2))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const depthOf = (nodeId: string) => nodeId.split('/').length - 1
+
+  return (
+    <div style={{ border: '1px solid #ddd', padding: '0.75rem', borderRadius: '4px', marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h4 style={{ margin: 0 }}>Flattened Diagram</h4>
+        <button
+          onClick={copyJson}
+          disabled={!flattened}
+          style={{ padding: '0.3rem 0.6rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+        >
+          {copied ? 'Copied' : 'Copy JSON'}
+        </button>
+      </div>
+      <p style={{ color: '#666', fontSize: '0.9rem' }}>Built from the last saved version of this diagram and its sub-diagrams.</p>
+      {error && <p style={{ color: '#f44336' }}>{error}</p>}
+      {flattened && (
+        <>
+          <p>
+            {flattened.nodes.length} nodes and {flattened.edges.length} edges.
+          </p>
+          <ul style={{ listStyle: 'none', padding: 0, maxHeight: '240px', overflowY: 'auto' }}>
+            {flattened.nodes.map((node) => (
+              <li key={node.id} style={{ paddingLeft: `${depthOf(node.id) * 1.5}rem` }}>
+                {node.label} <span style={{ color: '#999' }}>({node.type})</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,17 @@
-import React, { useState, useEffect } from 'react'
-import { FlowDoc, FlowStateNode, FlowTransitionEdge, DocRef, ProjectDoc } from './types'
+import React, { useState, useEffect, useMemo } from 'react'
+import { FlowDoc, FlowStateNode, FlowTransitionEdge, DocRef, DocumentDraft, ProjectDoc } from './types'
 import { docFlowKit } from './DocFlowKit'
+import { HistoryPanel } from './HistoryPanel'
+import { MergeDialog } from './MergeDialog'
+import { GraphContent } from './GraphMerge'
+import { ConflictError } from './errors'
+import { useEditHistory } from './EditHistory'
+import * as commands from './GraphCommands'
+import { useAutosave } from './Autosave'
+import { SaveStatusIndicator } from './SaveStatusIndicator'
+import { DraftRecoveryBanner } from './DraftRecoveryBanner'
+
+type FlowContent = GraphContent<FlowStateNode, FlowTransitionEdge> & { title: string }
 
 interface FlowManagerProps {
   flowDoc: FlowDoc
@@ -22,11 +33,31 @@ const FLOW_STATE_TYPES: FlowStateType[] = ['Start', 'Normal', 'Decision', 'Final
  * Component for editing a flow state machine
  */
 export function FlowManager({ flowDoc, onUpdate, project }: FlowManagerProps) {
-  const [title, setTitle] = useState(flowDoc.title)
-  const [states, setStates] = useState<FlowStateNode[]>(flowDoc.content.nodes)
-  const [transitions, setTransitions] = useState<FlowTransitionEdge[]>(flowDoc.content.edges)
+  const {
+    state: { title, nodes: states, edges: transitions },
+    execute,
+    undo,
+    redo,
+    handleKeyDown,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useEditHistory<FlowContent>(
+    flowDoc.docId,
+    { title: flowDoc.title, nodes: flowDoc.content.nodes, edges: flowDoc.content.edges },
+    commands.isSameGraph
+  )
   const [defaultStateType, setDefaultStateType] = useState<string>('Normal')
   const [agentRefs, setAgentRefs] = useState<DocRef[]>([])
+  const [showHistory, setShowHistory] = useState(false)
+
+  // Set when a save is rejected because the stored flow moved on
+  const [conflict, setConflict] = useState<{
+    baseDoc: FlowDoc
+    remoteDoc: FlowDoc
+    local: FlowContent
+  } | null>(null)
 
   // For adding transitions
   const [sourceId, setSourceId] = useState('')
@@ -42,26 +73,87 @@ export function FlowManager({ flowDoc, onUpdate, project }: FlowManagerProps) {
   }, [project])
 
   /**
-   * Save flow changes to IndexedDB
+   * The flow as it would be saved, or null when nothing has changed
    */
-  async function saveFlow() {
+  const pending = useMemo(() => {
+    if (title === flowDoc.title && states === flowDoc.content.nodes && transitions === flowDoc.content.edges) return null
+    const updated: FlowDoc = {
+      ...flowDoc,
+      title,
+      content: {
+        ...flowDoc.content,
+        nodes: states,
+        edges: transitions,
+      },
+    }
+    return updated
+  }, [flowDoc, title, states, transitions])
+
+  const { status, error: saveError, saveNow, recoveredDraft, dismissRecoveredDraft } = useAutosave(
+    flowDoc.docId,
+    pending,
+    persistFlow,
+    { paused: !!conflict }
+  )
+
+  /**
+   * Write on top of the revision the edits were made on; if the stored flow
+   * has moved on, the merge dialog opens
+   */
+  async function persistFlow(updated: FlowDoc) {
+    const head = flowDoc
     try {
-      const updated: FlowDoc = {
-        ...flowDoc,
-        title,
-        content: {
-          ...flowDoc.content,
-          nodes: states,
-          edges: transitions,
-        },
-      }
-      await docFlowKit.updateDocument(updated)
-      onUpdate?.(updated)
-      alert('Flow saved successfully!')
+      await docFlowKit.updateDocument(updated, { expectedRevision: updated.revision ?? 0 })
     } catch (error) {
+      if (error instanceof ConflictError) {
+        const remoteDoc = await docFlowKit.getDocument(head.docId) as FlowDoc | null
+        if (remoteDoc) {
+          setConflict({ baseDoc: head, remoteDoc, local: { title: updated.title, ...updated.content } })
+        }
+      }
       console.error('Error saving flow:', error)
-      alert(`Error saving flow: ${error instanceof Error ? error.message : String(error)}`)
+      throw error
     }
+    onUpdate?.(updated)
+  }
+
+  /**
+   * Put the merge result on top of the newer stored version; autosave writes it
+   */
+  function handleMergeResolved(merged: FlowContent) {
+    if (!conflict) return
+    const { remoteDoc } = conflict
+    setConflict(null)
+    execute(commands.replaceGraph(merged, 'Merge changes'))
+    onUpdate?.(remoteDoc)
+  }
+
+  /**
+   * Bring back edits from an earlier session, merging them if the flow was saved since
+   */
+  async function restoreDraft(draft: DocumentDraft) {
+    dismissRecoveredDraft()
+    const local = draft.document as FlowDoc
+    const restored = { title: local.title, nodes: local.content.nodes, edges: local.content.edges }
+    const base = draft.baseRevision === (flowDoc.revision ?? 0)
+      ? null
+      : await docFlowKit.getRevision(flowDoc.docId, draft.baseRevision)
+    if (base) {
+      setConflict({ baseDoc: base.snapshot as FlowDoc, remoteDoc: flowDoc, local: restored })
+    } else {
+      execute(commands.replaceGraph(restored, 'Restore draft'))
+    }
+  }
+
+  /**
+   * Load a restored revision into the editor
+   */
+  function handleRestore(restored: FlowDoc) {
+    execute(commands.replaceGraph(
+      { title: restored.title, nodes: restored.content.nodes, edges: restored.content.edges },
+      'Restore revision'
+    ))
+    onUpdate?.(restored)
   }
 
   /**
@@ -74,45 +166,35 @@ export function FlowManager({ flowDoc, onUpdate, project }: FlowManagerProps) {
       label: 'New State',
       properties: {},
     }
-    setStates((prev) => [...prev, newState])
+    execute(commands.addNode(newState))
   }
 
   /**
    * Update a state's label
    */
   function updateStateLabel(stateId: string, newLabel: string) {
-    setStates((prev) =>
-      prev.map((s) => (s.id === stateId ? { ...s, label: newLabel } : s))
-    )
+    execute(commands.relabelNode(stateId, newLabel))
   }
 
   /**
    * Update a state's type
    */
   function updateStateType(stateId: string, newType: string) {
-    setStates((prev) =>
-      prev.map((s) => (s.id === stateId ? { ...s, type: newType } : s))
-    )
+    execute(commands.retypeNode(stateId, newType))
   }
 
   /**
    * Update a state's agent reference
    */
   function updateStateAgent(stateId: string, agentId: string | undefined) {
-    setStates((prev) =>
-      prev.map((s) => (s.id === stateId ? { ...s, agentId } : s))
-    )
+    execute(commands.updateNode(stateId, (s) => ({ ...s, agentId }), 'Change agent'))
   }
 
   /**
-   * Remove a state from the flow
+   * Remove a state from the flow, along with its transitions
    */
   function removeState(stateId: string) {
-    setStates((prev) => prev.filter((s) => s.id !== stateId))
-    // Remove transitions referencing that state
-    setTransitions((prev) =>
-      prev.filter((t) => t.source !== stateId && t.target !== stateId)
-    )
+    execute(commands.removeNodes([stateId]))
   }
 
   /**
@@ -136,7 +218,7 @@ export function FlowManager({ flowDoc, onUpdate, project }: FlowManagerProps) {
         label: transitionLabel || 'Transition'
       }
     }
-    setTransitions((prev) => [...prev, newTransition])
+    execute(commands.addEdge(newTransition))
     // Reset form
     setSourceId('')
     setTargetId('')
@@ -147,7 +229,7 @@ export function FlowManager({ flowDoc, onUpdate, project }: FlowManagerProps) {
    * Remove a transition
    */
   function removeTransition(transitionId: string) {
-    setTransitions((prev) => prev.filter((t) => t.id !== transitionId))
+    execute(commands.removeEdge(transitionId))
   }
 
   /**
@@ -160,7 +242,7 @@ export function FlowManager({ flowDoc, onUpdate, project }: FlowManagerProps) {
   }
 
   return (
-    <div style={{ border: '1px solid #ccc', padding: '1rem', margin: '1rem 0', borderRadius: '4px' }}>
+    <div style={{ border: '1px solid #ccc', padding: '1rem', margin: '1rem 0', borderRadius: '4px' }} onKeyDown={handleKeyDown}>
       <h3>Flow Editor</h3>
 
       {/* Flow Title and Save Button */}
@@ -169,18 +251,69 @@ export function FlowManager({ flowDoc, onUpdate, project }: FlowManagerProps) {
           Document Title:{' '}
           <input 
             value={title} 
-            onChange={(e) => setTitle(e.target.value)}
+            onChange={(e) => execute(commands.setTitle(e.target.value))}
             style={{ padding: '0.3rem', marginLeft: '0.5rem' }}
           />
         </label>
         <button 
-          onClick={saveFlow}
+          onClick={() => saveNow()}
+          disabled={!pending}
           style={{ padding: '0.5rem 1rem', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
         >
           Save Flow
         </button>
+        <SaveStatusIndicator status={status} error={saveError} onRetry={() => saveNow()} />
+        <button
+          onClick={undo}
+          disabled={!canUndo}
+          title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+          style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: 'transparent', color: '#333', border: '1px solid #999', borderRadius: '4px', cursor: 'pointer' }}
+        >
+          ↶ Undo
+        </button>
+        <button
+          onClick={redo}
+          disabled={!canRedo}
+          title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: 'transparent', color: '#333', border: '1px solid #999', borderRadius: '4px', cursor: 'pointer' }}
+        >
+          ↷ Redo
+        </button>
+        <button
+          onClick={() => setShowHistory((prev) => !prev)}
+          style={{ padding: '0.5rem 1rem', marginLeft: '0.5rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+        >
+          {showHistory ? 'Hide History' : 'Show History'}
+        </button>
       </div>
 
+      {recoveredDraft && (
+        <DraftRecoveryBanner
+          draft={recoveredDraft}
+          headRevision={flowDoc.revision}
+          onRestore={() => restoreDraft(recoveredDraft)}
+          onDiscard={dismissRecoveredDraft}
+        />
+      )}
+
+      {conflict && (
+        <MergeDialog
+          base={{ title: conflict.baseDoc.title, ...conflict.baseDoc.content }}
+          local={conflict.local}
+          remote={{ title: conflict.remoteDoc.title, ...conflict.remoteDoc.content }}
+          onResolve={handleMergeResolved}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          docId={flowDoc.docId}
+          headVersion={flowDoc.updatedAt}
+          onRestore={(doc) => handleRestore(doc as FlowDoc)}
+        />
+      )}
+
       <hr />
 
       {/* States Management */}
@@ -63,7 +63,8 @@ export class FlowRunner {
       // Load the agent document
       const agentDoc = await docFlowKit.getDocument(state.agentId) as AgentDoc | null
       
-      if (!agentDoc) {
+      // A trashed agent counts as missing
+      if (!agentDoc || agentDoc.deletedAt) {
         return `Error: Agent with id=${state.agentId} not found.`
       }
       
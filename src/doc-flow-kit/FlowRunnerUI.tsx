@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
-import { FlowDoc, FlowStateNode, FlowTransitionEdge, ProjectDoc } from './types'
+import { FlowDoc, FlowStateNode, FlowTransitionEdge, ProjectDoc, TranscriptDoc } from './types'
 import { FlowRunner } from './FlowRunner'
+import { docFlowKit } from './DocFlowKit'
 
 interface FlowRunnerUIProps {
   flowDoc: FlowDoc
@@ -16,6 +17,8 @@ export function FlowRunnerUI({ flowDoc, project, onClose }: FlowRunnerUIProps) {
   const [currentStateId, setCurrentStateId] = useState<string | null>(null)
   const [logs, setLogs] = useState<string[]>([`Flow "${flowDoc.title}" loaded and ready to run.`])
   const [isRunning, setIsRunning] = useState(false)
+  const [startedAt, setStartedAt] = useState(() => new Date().toISOString())
+  const [isSaving, setIsSaving] = useState(false)
   
   // Get the current state and available transitions
   const currentState = currentStateId 
@@ -92,8 +95,46 @@ export function FlowRunnerUI({ flowDoc, project, onClose }: FlowRunnerUIProps) {
   function handleReset() {
     runner.reset()
     setCurrentStateId(null)
+    setStartedAt(new Date().toISOString())
     addLog('Flow reset. Select a start state to begin again.')
   }
+
+  /**
+   * Save the execution log as a Transcript document in the project
+   */
+  async function handleSaveTranscript() {
+    setIsSaving(true)
+    try {
+      const transcript: TranscriptDoc = {
+        docId: crypto.randomUUID(),
+        docType: 'Transcript',
+        title: `${flowDoc.title} run ${new Date(startedAt).toLocaleString()}`,
+        content: {
+          flowId: flowDoc.docId,
+          startedAt,
+          entries: logs,
+        },
+        references: [{ docId: flowDoc.docId, docType: 'Flow', title: flowDoc.title }],
+        projectIds: [project.docId],
+      }
+      await docFlowKit.createDocument(transcript)
+
+      // Read the project fresh; the prop may be behind
+      const currentProject = await docFlowKit.getDocument(project.docId) as ProjectDoc | null
+      if (currentProject) {
+        currentProject.content.documents = [
+          ...currentProject.content.documents,
+          { docId: transcript.docId, docType: 'Transcript', title: transcript.title },
+        ]
+        await docFlowKit.updateDocument(currentProject)
+      }
+      addLog(`Transcript saved as "${transcript.title}".`)
+    } catch (error) {
+      addLog(`Error saving transcript: ${error instanceof Error ? error.message : String(error)}`)
+    } finally {
+      setIsSaving(false)
+    }
+  }
   
   /**
    * Add a log entry
@@ -113,6 +154,21 @@ export function FlowRunnerUI({ flowDoc, project, onClose }: FlowRunnerUIProps) {
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1rem' }}>
         <h3 style={{ margin: 0 }}>Flow Runner: {flowDoc.title}</h3>
         <div>
+          <button
+            onClick={handleSaveTranscript}
+            disabled={isSaving}
+            style={{
+              marginRight: '0.5rem',
+              padding: '0.3rem 0.6rem',
+              backgroundColor: '#4CAF50',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: isSaving ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {isSaving ? 'Saving...' : 'Save Transcript'}
+          </button>
           <button 
             onClick={handleReset}
             style={{ 
@@ -0,0 +1,138 @@
+import { GraphEdge, GraphNode } from './types'
+import { GraphContent } from './GraphMerge'
+import { EditCommand } from './EditHistory'
+
+/**
+ * What the diagram and flow editors edit
+ */
+export type GraphEditorState<N extends GraphNode = GraphNode, E extends GraphEdge = GraphEdge> = GraphContent<N, E> & {
+  title: string
+}
+
+type Command<N extends GraphNode, E extends GraphEdge> = EditCommand<GraphEditorState<N, E>>
+
+export function setTitle<N extends GraphNode, E extends GraphEdge>(title: string): Command<N, E> {
+  return {
+    label: 'Rename document',
+    mergeKey: 'title',
+    apply: (state) => (state.title === title ? state : { ...state, title }),
+  }
+}
+
+export function addNode<N extends GraphNode, E extends GraphEdge>(node: N): Command<N, E> {
+  return { label: 'Add node', apply: (state) => ({ ...state, nodes: [...state.nodes, node] }) }
+}
+
+/**
+ * Removes nodes along with every edge touching them, as one step
+ */
+export function removeNodes<N extends GraphNode, E extends GraphEdge>(nodeIds: string[]): Command<N, E> {
+  const ids = new Set(nodeIds)
+  return {
+    label: nodeIds.length === 1 ? 'Remove node' : `Remove ${nodeIds.length} nodes`,
+    apply: (state) => {
+      if (!state.nodes.some((n) => ids.has(n.id))) return state
+      return {
+        ...state,
+        nodes: state.nodes.filter((n) => !ids.has(n.id)),
+        edges: state.edges.filter((e) => !ids.has(e.source) && !ids.has(e.target)),
+      }
+    },
+  }
+}
+
+/**
+ * Changes one node. Edits with the same `field` on the same node in a row
+ * are undone together.
+ * @param field Names what changed, e.g. "label"; also used to merge edits
+ */
+export function updateNode<N extends GraphNode, E extends GraphEdge>(
+  nodeId: string,
+  update: (node: N) => N,
+  label: string,
+  field?: string
+): Command<N, E> {
+  return {
+    label,
+    mergeKey: field && `node:${nodeId}:${field}`,
+    apply: (state) => {
+      const node = state.nodes.find((n) => n.id === nodeId)
+      if (!node) return state
+      const updated = update(node)
+      return updated === node ? state : { ...state, nodes: state.nodes.map((n) => (n.id === nodeId ? updated : n)) }
+    },
+  }
+}
+
+export function relabelNode<N extends GraphNode, E extends GraphEdge>(nodeId: string, label: string): Command<N, E> {
+  return updateNode<N, E>(nodeId, (n) => (n.label === label ? n : { ...n, label }), 'Rename node', 'label')
+}
+
+export function retypeNode<N extends GraphNode, E extends GraphEdge>(nodeId: string, type: string): Command<N, E> {
+  return updateNode<N, E>(nodeId, (n) => (n.type === type ? n : { ...n, type }), 'Change node type', 'type')
+}
+
+/**
+ * Applies several node changes as one step, e.g. moving a selection
+ */
+export function updateNodes<N extends GraphNode, E extends GraphEdge>(
+  updates: Map<string, (node: N) => N>,
+  label: string
+): Command<N, E> {
+  return {
+    label,
+    apply: (state) => {
+      let changed = false
+      const nodes = state.nodes.map((n) => {
+        const update = updates.get(n.id)
+        const updated = update ? update(n) : n
+        if (updated !== n) changed = true
+        return updated
+      })
+      return changed ? { ...state, nodes } : state
+    },
+  }
+}
+
+export function addEdge<N extends GraphNode, E extends GraphEdge>(edge: E): Command<N, E> {
+  return { label: 'Add edge', apply: (state) => ({ ...state, edges: [...state.edges, edge] }) }
+}
+
+export function removeEdge<N extends GraphNode, E extends GraphEdge>(edgeId: string): Command<N, E> {
+  return {
+    label: 'Remove edge',
+    apply: (state) =>
+      state.edges.some((e) => e.id === edgeId) ? { ...state, edges: state.edges.filter((e) => e.id !== edgeId) } : state,
+  }
+}
+
+export function replaceEdge<N extends GraphNode, E extends GraphEdge>(edge: E, label = 'Edit edge'): Command<N, E> {
+  return {
+    label,
+    apply: (state) => ({ ...state, edges: state.edges.map((e) => (e.id === edge.id ? edge : e)) }),
+  }
+}
+
+/**
+ * Rewrites the whole edge list, e.g. relinking what an ActionItem mitigates
+ */
+export function updateEdges<N extends GraphNode, E extends GraphEdge>(update: (edges: E[]) => E[], label: string): Command<N, E> {
+  return {
+    label,
+    apply: (state) => {
+      const edges = update(state.edges)
+      return edges === state.edges ? state : { ...state, edges }
+    },
+  }
+}
+
+/**
+ * Swaps in a whole new state as one undoable step: a restored revision or a merge result
+ */
+export function replaceGraph<N extends GraphNode, E extends GraphEdge>(next: GraphEditorState<N, E>, label: string): Command<N, E> {
+  return { label, apply: () => next }
+}
+
+export function isSameGraph<N extends GraphNode, E extends GraphEdge>(a: GraphEditorState<N, E>, b: GraphEditorState<N, E>): boolean {
+  return a.title === b.title && JSON.stringify(a.nodes) === JSON.stringify(b.nodes) && JSON.stringify(a.edges) === JSON.stringify(b.edges)
+}
@@ -0,0 +1,339 @@
+import { NodeBasedContent, NodePosition } from './types'
+
+/**
+ * TB puts effects (the Incident) at the top and causes below; LR puts
+ * effects on the right and causes to their left
+ */
+export type LayoutDirection = 'TB' | 'LR'
+
+export interface LayoutOptions {
+  nodeWidth: number
+  nodeHeight: number
+  direction?: LayoutDirection
+  /**
+   * Space between layers
+   */
+  layerGap?: number
+  /**
+   * Space between neighbouring nodes of a layer
+   */
+  nodeGap?: number
+  /**
+   * Lay out only these nodes; edges to other nodes are ignored
+   */
+  nodeIds?: string[]
+  /**
+   * Where nodes are now. The result starts at the top-left corner of the
+   * laid-out nodes' current bounding box, and 'tidy' keeps their order.
+   */
+  positions?: Record<string, NodePosition>
+  /**
+   * 'layout' reorders layers to reduce edge crossings; 'tidy' keeps each
+   * layer in its current order and only straightens and spaces it
+   */
+  mode?: 'layout' | 'tidy'
+}
+
+// Sweeps of the barycentre heuristic; the ordering with fewest crossings wins
+const ORDERING_PASSES = 24
+const COORDINATE_PASSES = 8
+const DUMMY_PREFIX = '\u0000dummy:'
+
+type Link = [string, string]
+
+/**
+ * Layered (Sugiyama-style) layout: cycles are broken, nodes are put in
+ * layers by their distance from the final effects, with roots on the far
+ * side, layers are ordered to keep crossings low and nodes are then placed
+ * near the middle of their neighbours. The same input always gives the same
+ * result.
+ */
+export function layoutGraph(content: NodeBasedContent, options: LayoutOptions): Record<string, NodePosition> {
+  const { nodeWidth, nodeHeight, direction = 'TB', layerGap = 60, nodeGap = 30, positions = {}, mode = 'layout' } = options
+  const included = options.nodeIds ? new Set(options.nodeIds) : null
+  const nodes = content.nodes.filter((n) => !included || included.has(n.id))
+  if (nodes.length === 0) return {}
+  const ids = nodes.map((n) => n.id)
+  const idSet = new Set(ids)
+
+  const seen = new Set<string>()
+  const links: Link[] = []
+  for (const edge of content.edges) {
+    const key = `${edge.source}\u0000${edge.target}`
+    if (edge.source === edge.target || !idSet.has(edge.source) || !idSet.has(edge.target) || seen.has(key)) continue
+    seen.add(key)
+    links.push([edge.source, edge.target])
+  }
+
+  const finalEffects = nodes.filter((n) => n.type === 'Incident' || n.type === 'Damage').map((n) => n.id)
+  const acyclic = removeCycles([...finalEffects, ...ids], links)
+  const layerOf = assignLayers(ids, acyclic, new Set(nodes.filter((n) => n.type === 'ActionItem').map((n) => n.id)))
+  const { layers, adjacent } = addDummies(ids, acyclic, layerOf)
+
+  const horizontal = direction === 'TB'
+  const crossOf = (id: string) => {
+    const p = positions[id]
+    return p ? (horizontal ? p.x : p.y) : undefined
+  }
+  if (mode === 'tidy') {
+    orderByCurrentPosition(layers, adjacent, crossOf)
+  } else {
+    reduceCrossings(layers, adjacent)
+  }
+
+  const crossSize = horizontal ? nodeWidth : nodeHeight
+  const mainSize = horizontal ? nodeHeight : nodeWidth
+  const cross = assignCoordinates(layers, adjacent, (id) => (id.startsWith(DUMMY_PREFIX) ? 0 : crossSize), nodeGap)
+
+  const result: Record<string, NodePosition> = {}
+  const lastLayer = layers.length - 1
+  layers.forEach((layer, index) => {
+    const main = (horizontal ? index : lastLayer - index) * (mainSize + layerGap)
+    for (const id of layer) {
+      if (id.startsWith(DUMMY_PREFIX)) continue
+      result[id] = horizontal ? { x: cross.get(id)!, y: main } : { x: main, y: cross.get(id)! }
+    }
+  })
+
+  // Keep the laid-out nodes where they were on the canvas
+  const current = ids.map((id) => positions[id]).filter((p): p is NodePosition => !!p)
+  const originX = current.length > 0 ? Math.min(...current.map((p) => p.x)) : 0
+  const originY = current.length > 0 ? Math.min(...current.map((p) => p.y)) : 0
+  const minX = Math.min(...Object.values(result).map((p) => p.x))
+  const minY = Math.min(...Object.values(result).map((p) => p.y))
+  for (const id of Object.keys(result)) {
+    result[id] = { x: Math.round(result[id].x - minX + originX), y: Math.round(result[id].y - minY + originY) }
+  }
+  return result
+}
+
+/**
+ * Reverses the edges that close a cycle. The search walks from effects back
+ * to their causes, starting from `starts` in order, so a cycle through the
+ * Incident is broken on its far side rather than at the Incident.
+ */
+function removeCycles(starts: string[], links: Link[]): Link[] {
+  const incoming = new Map<string, Link[]>()
+  for (const link of links) incoming.set(link[1], [...(incoming.get(link[1]) ?? []), link])
+  const state = new Map<string, 'active' | 'done'>()
+  const reversed = new Set<Link>()
+
+  for (const start of starts) {
+    if (state.has(start)) continue
+    // Iterative DFS so long causal chains can't overflow the stack
+    const stack: { id: string; next: number }[] = [{ id: start, next: 0 }]
+    state.set(start, 'active')
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1]
+      const causes = incoming.get(frame.id) ?? []
+      if (frame.next >= causes.length) {
+        state.set(frame.id, 'done')
+        stack.pop()
+        continue
+      }
+      const link = causes[frame.next++]
+      const cause = link[0]
+      if (state.get(cause) === 'active') reversed.add(link)
+      else if (!state.has(cause)) {
+        state.set(cause, 'active')
+        stack.push({ id: cause, next: 0 })
+      }
+    }
+  }
+  return links.map((link) => (reversed.has(link) ? [link[1], link[0]] : link))
+}
+
+/**
+ * Layer 0 holds the final effects; each cause sits one layer beyond its
+ * furthest effect. Roots (causes with no causes of their own) then move to
+ * the last layer. ActionItems stay next to what they mitigate.
+ */
+function assignLayers(ids: string[], links: Link[], actionItemIds: Set<string>): Map<string, number> {
+  const outgoing = outgoingLinks(links)
+  const hasCause = new Set(links.map((l) => l[1]))
+  const layerOf = new Map<string, number>()
+
+  // Effects come before their causes, so a cause's effects always have layers already
+  const order = topologicalOrder(ids, links).reverse()
+  for (const id of order) {
+    const effects = outgoing.get(id) ?? []
+    layerOf.set(id, effects.length === 0 ? 0 : Math.max(...effects.map(([, target]) => layerOf.get(target)! + 1)))
+  }
+
+  const deepest = Math.max(...layerOf.values())
+  for (const id of ids) {
+    if (!hasCause.has(id) && !actionItemIds.has(id) && (outgoing.get(id) ?? []).length > 0) layerOf.set(id, deepest)
+  }
+  return layerOf
+}
+
+function topologicalOrder(ids: string[], links: Link[]): string[] {
+  const outgoing = outgoingLinks(links)
+  const inDegree = new Map(ids.map((id) => [id, 0]))
+  for (const [, target] of links) inDegree.set(target, inDegree.get(target)! + 1)
+  const queue = ids.filter((id) => inDegree.get(id) === 0)
+  const order: string[] = []
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i]
+    order.push(id)
+    for (const [, target] of outgoing.get(id) ?? []) {
+      inDegree.set(target, inDegree.get(target)! - 1)
+      if (inDegree.get(target) === 0) queue.push(target)
+    }
+  }
+  return order
+}
+
+/**
+ * Splits edges spanning several layers with dummy vertices, so every link
+ * joins neighbouring layers. `adjacent` lists each vertex's neighbours one
+ * layer up and one layer down.
+ */
+function addDummies(ids: string[], links: Link[], layerOf: Map<string, number>) {
+  const layers: string[][] = Array.from({ length: Math.max(...layerOf.values()) + 1 }, () => [])
+  const up = new Map<string, string[]>()
+  const down = new Map<string, string[]>()
+  const connect = (upper: string, lower: string) => {
+    down.set(upper, [...(down.get(upper) ?? []), lower])
+    up.set(lower, [...(up.get(lower) ?? []), upper])
+  }
+
+  for (const id of ids) layers[layerOf.get(id)!].push(id)
+  let dummyCount = 0
+  for (const [cause, effect] of links) {
+    // The effect is on a lower-numbered layer than its cause
+    let upper = effect
+    for (let layer = layerOf.get(effect)! + 1; layer < layerOf.get(cause)!; layer++) {
+      const dummy = `${DUMMY_PREFIX}${dummyCount++}`
+      layers[layer].push(dummy)
+      connect(upper, dummy)
+      upper = dummy
+    }
+    connect(upper, cause)
+  }
+  return { layers, adjacent: { up, down } }
+}
+
+type Adjacency = { up: Map<string, string[]>; down: Map<string, string[]> }
+
+function reduceCrossings(layers: string[][], adjacent: Adjacency): void {
+  let best = layers.map((layer) => [...layer])
+  let bestCrossings = countCrossings(layers, adjacent)
+
+  for (let pass = 0; pass < ORDERING_PASSES && bestCrossings > 0; pass++) {
+    const downward = pass % 2 === 0
+    const indices = layers.map((_, i) => i)
+    for (const i of downward ? indices.slice(1) : indices.slice(0, -1).reverse()) {
+      const reference = layers[downward ? i - 1 : i + 1]
+      const neighbours = downward ? adjacent.up : adjacent.down
+      sortByBarycenter(layers, i, reference, neighbours)
+    }
+    const crossings = countCrossings(layers, adjacent)
+    if (crossings < bestCrossings) {
+      best = layers.map((layer) => [...layer])
+      bestCrossings = crossings
+    }
+  }
+  best.forEach((layer, i) => (layers[i] = layer))
+}
+
+function sortByBarycenter(layers: string[][], index: number, reference: string[], neighbours: Map<string, string[]>): void {
+  const rank = new Map(reference.map((id, i) => [id, i]))
+  const layer = layers[index]
+  const keyed = layer.map((id, i) => {
+    const ranks = (neighbours.get(id) ?? []).map((n) => rank.get(n)).filter((r): r is number => r !== undefined)
+    // Vertices with no neighbours there keep their place
+    const key = ranks.length > 0 ? ranks.reduce((a, b) => a + b, 0) / ranks.length : i * (reference.length / Math.max(1, layer.length))
+    return { id, key, i }
+  })
+  keyed.sort((a, b) => a.key - b.key || a.i - b.i)
+  layers[index] = keyed.map((k) => k.id)
+}
+
+function orderByCurrentPosition(layers: string[][], adjacent: Adjacency, crossOf: (id: string) => number | undefined): void {
+  // A dummy sits between the ends of its edge
+  const estimate = (id: string): number => {
+    const own = crossOf(id)
+    if (own !== undefined) return own
+    const ends = [...(adjacent.up.get(id) ?? []), ...(adjacent.down.get(id) ?? [])]
+      .map((n) => (n.startsWith(DUMMY_PREFIX) ? undefined : crossOf(n)))
+      .filter((v): v is number => v !== undefined)
+    return ends.length > 0 ? ends.reduce((a, b) => a + b, 0) / ends.length : 0
+  }
+  layers.forEach((layer, i) => {
+    layers[i] = layer
+      .map((id, order) => ({ id, order, at: estimate(id) }))
+      .sort((a, b) => a.at - b.at || a.order - b.order)
+      .map((entry) => entry.id)
+  })
+}
+
+function countCrossings(layers: string[][], adjacent: Adjacency): number {
+  let crossings = 0
+  for (let i = 0; i < layers.length - 1; i++) {
+    const lowerRank = new Map(layers[i + 1].map((id, r) => [id, r]))
+    const pairs: [number, number][] = []
+    layers[i].forEach((id, r) => {
+      for (const lower of adjacent.down.get(id) ?? []) pairs.push([r, lowerRank.get(lower)!])
+    })
+    for (let a = 0; a < pairs.length; a++) {
+      for (let b = a + 1; b < pairs.length; b++) {
+        if ((pairs[a][0] - pairs[b][0]) * (pairs[a][1] - pairs[b][1]) < 0) crossings++
+      }
+    }
+  }
+  return crossings
+}
+
+/**
+ * Positions along each layer: every vertex is pulled towards the middle of
+ * its neighbours, then the layer is spread out again so nothing overlaps.
+ * Spreading left-to-right and right-to-left and averaging the two keeps
+ * the layer centred on where its vertices want to be.
+ */
+function assignCoordinates(
+  layers: string[][],
+  adjacent: Adjacency,
+  sizeOf: (id: string) => number,
+  gap: number
+): Map<string, number> {
+  const position = new Map<string, number>()
+  for (const layer of layers) {
+    let next = 0
+    for (const id of layer) {
+      position.set(id, next)
+      next += sizeOf(id) + gap
+    }
+  }
+  const center = (id: string) => position.get(id)! + sizeOf(id) / 2
+
+  for (let pass = 0; pass < COORDINATE_PASSES; pass++) {
+    const downward = pass % 2 === 0
+    const indices = layers.map((_, i) => i)
+    for (const i of downward ? indices.slice(1) : indices.slice(0, -1).reverse()) {
+      const neighbours = downward ? adjacent.up : adjacent.down
+      const layer = layers[i]
+      const desired = layer.map((id) => {
+        const ns = neighbours.get(id) ?? []
+        return ns.length > 0 ? ns.reduce((sum, n) => sum + center(n), 0) / ns.length - sizeOf(id) / 2 : position.get(id)!
+      })
+
+      const forward: number[] = []
+      for (let k = 0; k < layer.length; k++) {
+        forward[k] = k === 0 ? desired[k] : Math.max(desired[k], forward[k - 1] + sizeOf(layer[k - 1]) + gap)
+      }
+      const backward: number[] = []
+      for (let k = layer.length - 1; k >= 0; k--) {
+        backward[k] = k === layer.length - 1 ? desired[k] : Math.min(desired[k], backward[k + 1] - sizeOf(layer[k]) - gap)
+      }
+      layer.forEach((id, k) => position.set(id, (forward[k] + backward[k]) / 2))
+    }
+  }
+  return position
+}
+
+function outgoingLinks(links: Link[]): Map<string, Link[]> {
+  const groups = new Map<string, Link[]>()
+  for (const link of links) groups.set(link[0], [...(groups.get(link[0]) ?? []), link])
+  return groups
+}
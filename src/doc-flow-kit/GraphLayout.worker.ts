@@ -0,0 +1,14 @@
+import { layoutGraph } from './GraphLayout'
+import { LayoutRequest, LayoutResponse } from './LayoutService'
+
+// Runs layouts off the main thread for LayoutService
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const { id, content, options } = event.data
+  let response: LayoutResponse
+  try {
+    response = { id, positions: layoutGraph(content, options) }
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) }
+  }
+  self.postMessage(response)
+}
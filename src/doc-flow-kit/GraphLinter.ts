@@ -0,0 +1,257 @@
+import { GraphNode, LintRuleSettings, LintSeverity, NodeBasedContent } from './types'
+import { checkTemporalConsistency } from './Timeline'
+
+/**
+ * One problem a rule found, before the project's severity is applied
+ */
+export interface LintProblem {
+  message: string
+  /**
+   * Nodes involved, in the order worth visiting them
+   */
+  nodeIds: string[]
+}
+
+export interface LintRule {
+  id: string
+  description: string
+  defaultSeverity: LintSeverity
+  check: (content: NodeBasedContent) => LintProblem[]
+}
+
+export interface LintFinding extends LintProblem {
+  ruleId: string
+  severity: LintSeverity
+}
+
+const rules = new Map<string, LintRule>()
+
+/**
+ * Registers (or replaces) a lint rule
+ */
+export function registerLintRule(rule: LintRule): void {
+  rules.set(rule.id, rule)
+}
+
+export function getLintRules(): LintRule[] {
+  return [...rules.values()]
+}
+
+export const SEVERITY_COLORS: Record<LintSeverity, string> = {
+  error: '#f44336',
+  warning: '#FF9800',
+  info: '#2196F3',
+}
+
+const SEVERITY_ORDER: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+/**
+ * Runs every rule that isn't switched off in `settings`
+ * @returns Findings, most severe first
+ */
+export function lintGraph(content: NodeBasedContent, settings: LintRuleSettings = {}): LintFinding[] {
+  const findings: LintFinding[] = []
+  for (const rule of rules.values()) {
+    const setting = settings[rule.id] ?? rule.defaultSeverity
+    if (setting === 'off') continue
+    for (const problem of rule.check(content)) {
+      findings.push({ ...problem, ruleId: rule.id, severity: setting })
+    }
+  }
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+}
+
+function describe(node: GraphNode): string {
+  return `${node.type} "${node.label}"`
+}
+
+/**
+ * Strongly connected components with more than one node, or a node with an
+ * edge to itself (Tarjan's algorithm)
+ */
+function findCycles({ nodes, edges }: NodeBasedContent): string[][] {
+  const successors = new Map<string, string[]>(nodes.map((n) => [n.id, []]))
+  for (const edge of edges) successors.get(edge.source)?.push(edge.target)
+
+  const index = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const stack: string[] = []
+  const onStack = new Set<string>()
+  const cycles: string[][] = []
+  let counter = 0
+
+  function visit(id: string) {
+    index.set(id, counter)
+    lowLink.set(id, counter)
+    counter++
+    stack.push(id)
+    onStack.add(id)
+
+    for (const next of successors.get(id) ?? []) {
+      if (!index.has(next)) {
+        visit(next)
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!))
+      } else if (onStack.has(next)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!))
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== id)
+      if (component.length > 1 || successors.get(id)!.includes(id)) cycles.push(component.reverse())
+    }
+  }
+
+  for (const node of nodes) {
+    if (!index.has(node.id)) visit(node.id)
+  }
+  return cycles
+}
+
+/**
+ * Groups nodes into subgraphs connected by edges in either direction
+ */
+function findComponents({ nodes, edges }: NodeBasedContent): string[][] {
+  const neighbours = new Map<string, string[]>(nodes.map((n) => [n.id, []]))
+  for (const edge of edges) {
+    neighbours.get(edge.source)?.push(edge.target)
+    neighbours.get(edge.target)?.push(edge.source)
+  }
+
+  const seen = new Set<string>()
+  const components: string[][] = []
+  for (const node of nodes) {
+    if (seen.has(node.id)) continue
+    const component: string[] = []
+    const queue = [node.id]
+    seen.add(node.id)
+    while (queue.length > 0) {
+      const id = queue.shift()!
+      component.push(id)
+      for (const next of neighbours.get(id) ?? []) {
+        if (!seen.has(next)) {
+          seen.add(next)
+          queue.push(next)
+        }
+      }
+    }
+    components.push(component)
+  }
+  return components
+}
+
+registerLintRule({
+  id: 'no-cycles',
+  description: 'Causes must not loop back on themselves',
+  defaultSeverity: 'error',
+  check: (content) =>
+    findCycles(content).map((cycle) => ({
+      message:
+        cycle.length === 1
+          ? `${describe(content.nodes.find((n) => n.id === cycle[0])!)} is its own cause.`
+          : `${cycle.length} nodes form a causal cycle.`,
+      nodeIds: cycle,
+    })),
+})
+
+registerLintRule({
+  id: 'single-incident',
+  description: 'A graph explains exactly one Incident',
+  defaultSeverity: 'error',
+  check: ({ nodes }) => {
+    const incidents = nodes.filter((n) => n.type === 'Incident')
+    return incidents.length > 1
+      ? [{ message: `The graph has ${incidents.length} Incident nodes; split it into one graph per Incident.`, nodeIds: incidents.map((n) => n.id) }]
+      : []
+  },
+})
+
+registerLintRule({
+  id: 'connected',
+  description: 'Every node is connected to the rest of the graph',
+  defaultSeverity: 'warning',
+  check: (content) => {
+    const components = findComponents(content)
+    if (components.length < 2) return []
+    // The subgraph holding the Incident (or else the largest) is the main one
+    const incidentIds = new Set(content.nodes.filter((n) => n.type === 'Incident').map((n) => n.id))
+    const main =
+      components.find((c) => c.some((id) => incidentIds.has(id))) ??
+      components.reduce((a, b) => (b.length > a.length ? b : a))
+    return components
+      .filter((c) => c !== main)
+      .map((c) => ({
+        message:
+          c.length === 1
+            ? `${describe(content.nodes.find((n) => n.id === c[0])!)} is not connected to the graph.`
+            : `${c.length} nodes form a subgraph that is not connected to the rest.`,
+        nodeIds: c,
+      }))
+  },
+})
+
+registerLintRule({
+  id: 'action-item-attached',
+  description: 'ActionItems are attached to a cause they address',
+  defaultSeverity: 'warning',
+  check: ({ nodes, edges }) => {
+    const typeOf = new Map(nodes.map((n) => [n.id, n.type]))
+    return nodes
+      .filter((n) => n.type === 'ActionItem')
+      .filter(
+        (n) =>
+          !edges.some(
+            (e) =>
+              (e.source === n.id && typeOf.get(e.target) !== 'ActionItem') ||
+              (e.target === n.id && typeOf.get(e.source) !== 'ActionItem')
+          )
+      )
+      .map((n) => ({ message: `${describe(n)} is not attached to a cause.`, nodeIds: [n.id] }))
+  },
+})
+
+registerLintRule({
+  id: 'proximate-cause-parent',
+  description: 'ProximateCause nodes are direct causes of the Incident',
+  defaultSeverity: 'error',
+  check: ({ nodes, edges }) => {
+    const incidentIds = new Set(nodes.filter((n) => n.type === 'Incident').map((n) => n.id))
+    return nodes
+      .filter((n) => n.type === 'ProximateCause')
+      .filter((n) => !edges.some((e) => e.source === n.id && incidentIds.has(e.target)))
+      .map((n) => ({ message: `${describe(n)} is not a direct cause of the Incident.`, nodeIds: [n.id] }))
+  },
+})
+
+registerLintRule({
+  id: 'unique-labels',
+  description: 'Node labels are unique',
+  defaultSeverity: 'info',
+  check: ({ nodes }) => {
+    const byLabel = new Map<string, GraphNode[]>()
+    for (const node of nodes) {
+      const key = node.label.trim().toLowerCase()
+      if (!key) continue
+      byLabel.set(key, [...(byLabel.get(key) ?? []), node])
+    }
+    return [...byLabel.values()]
+      .filter((group) => group.length > 1)
+      .map((group) => ({
+        message: `${group.length} nodes are labelled "${group[0].label.trim()}".`,
+        nodeIds: group.map((n) => n.id),
+      }))
+  },
+})
+
+registerLintRule({
+  id: 'temporal-order',
+  description: 'Causes start no later than their effects',
+  defaultSeverity: 'warning',
+  check: (content) => checkTemporalConsistency(content).map(({ message, nodeIds }) => ({ message, nodeIds })),
+})
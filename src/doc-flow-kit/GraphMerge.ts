@@ -0,0 +1,115 @@
+import { GraphEdge, GraphNode } from './types'
+import { canonicalJson } from './DocumentDiff'
+
+/**
+ * Which side wins when both editors changed the same item
+ */
+export type MergeChoice = 'local' | 'remote'
+
+/**
+ * An item that was changed differently on both sides.
+ * `undefined` on a side means that side deleted the item.
+ */
+export interface MergeConflict<T> {
+  key: string            // `${kind}:${id}`, used to look up the chosen side
+  kind: 'node' | 'edge'
+  id: string
+  base?: T
+  local?: T
+  remote?: T
+  choice: MergeChoice
+}
+
+export interface GraphContent<N extends GraphNode = GraphNode, E extends GraphEdge = GraphEdge> {
+  nodes: N[]
+  edges: E[]
+}
+
+export interface GraphMergeResult<N extends GraphNode = GraphNode, E extends GraphEdge = GraphEdge> {
+  merged: GraphContent<N, E>
+  conflicts: MergeConflict<N | E>[]
+  droppedEdges: E[]      // Edges left pointing at a node the merge removed
+}
+
+/**
+ * Three-way merge of node and edge lists, matched by id.
+ * Changes made on only one side are taken automatically; items changed on
+ * both sides are reported as conflicts and resolved using `choices`
+ * (defaulting to the local side).
+ * @param base The version both editors started from
+ * @param local This editor's unsaved version
+ * @param remote The version currently stored
+ * @param choices Resolution per conflict key
+ */
+export function mergeGraphContent<N extends GraphNode, E extends GraphEdge>(
+  base: GraphContent<N, E>,
+  local: GraphContent<N, E>,
+  remote: GraphContent<N, E>,
+  choices: Record<string, MergeChoice> = {}
+): GraphMergeResult<N, E> {
+  const nodeConflicts: MergeConflict<N>[] = []
+  const edgeConflicts: MergeConflict<E>[] = []
+  const nodes = mergeItems('node', base.nodes, local.nodes, remote.nodes, choices, nodeConflicts)
+  const edges = mergeItems('edge', base.edges, local.edges, remote.edges, choices, edgeConflicts)
+
+  const nodeIds = new Set(nodes.map((n) => n.id))
+  const droppedEdges = edges.filter((e) => !nodeIds.has(e.source) || !nodeIds.has(e.target))
+
+  return {
+    merged: {
+      nodes,
+      edges: edges.filter((e) => !droppedEdges.includes(e)),
+    },
+    conflicts: [...nodeConflicts, ...edgeConflicts],
+    droppedEdges,
+  }
+}
+
+/**
+ * Three-way merge of a single value, such as a document title
+ */
+export function mergeValue<T>(base: T, local: T, remote: T): T {
+  if (canonicalJson(local) === canonicalJson(base)) return remote
+  return local
+}
+
+function mergeItems<T extends { id: string }>(
+  kind: 'node' | 'edge',
+  base: T[],
+  local: T[],
+  remote: T[],
+  choices: Record<string, MergeChoice>,
+  conflicts: MergeConflict<T>[]
+): T[] {
+  const baseById = new Map(base.map((item) => [item.id, item]))
+  const localById = new Map(local.map((item) => [item.id, item]))
+  const remoteById = new Map(remote.map((item) => [item.id, item]))
+  const same = (a?: T, b?: T) => canonicalJson(a) === canonicalJson(b)
+
+  // Remote order first, then anything only the local side has
+  const ids = [...new Set([...remote.map((i) => i.id), ...local.map((i) => i.id), ...base.map((i) => i.id)])]
+  const result: T[] = []
+
+  for (const id of ids) {
+    const b = baseById.get(id)
+    const l = localById.get(id)
+    const r = remoteById.get(id)
+
+    let winner: T | undefined
+    if (same(l, r)) {
+      winner = l
+    } else if (same(l, b)) {
+      winner = r
+    } else if (same(r, b)) {
+      winner = l
+    } else {
+      const key = `${kind}:${id}`
+      const choice = choices[key] ?? 'local'
+      conflicts.push({ key, kind, id, base: b, local: l, remote: r, choice })
+      winner = choice === 'local' ? l : r
+    }
+
+    if (winner) result.push(winner)
+  }
+  return result
+}
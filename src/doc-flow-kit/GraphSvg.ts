@@ -0,0 +1,69 @@
+import { NodeBasedContent } from './types'
+import { layoutGraph } from './GraphLayout'
+
+const NODE_WIDTH = 160
+const NODE_HEIGHT = 44
+const GAP_X = 30
+const GAP_Y = 60
+const MARGIN = 20
+
+export const NODE_COLORS: Record<string, string> = {
+  Incident: '#f44336',
+  Damage: '#E91E63',
+  Event: '#2196F3',
+  UnEvent: '#9E9E9E',
+  State: '#4CAF50',
+  Assumption: '#FFC107',
+  Process: '#FF9800',
+  ActionItem: '#9C27B0',
+  ProximateCause: '#FF5722',
+  GenericNode: '#607D8B',
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Renders a graph as a standalone SVG string, for reports and exports
+ */
+export function renderGraphSvg(content: NodeBasedContent): string {
+  const layout = layoutGraph(content, { nodeWidth: NODE_WIDTH, nodeHeight: NODE_HEIGHT, nodeGap: GAP_X, layerGap: GAP_Y })
+  const position = new Map(Object.entries(layout).map(([id, p]) => [id, { x: p.x + MARGIN, y: p.y + MARGIN }]))
+  const placed = [...position.values()]
+  const width = MARGIN * 2 + Math.max(0, ...placed.map((p) => p.x - MARGIN + NODE_WIDTH))
+  const height = MARGIN * 2 + Math.max(0, ...placed.map((p) => p.y - MARGIN + NODE_HEIGHT))
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" font-family="sans-serif" font-size="12">`,
+    '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#555"/></marker></defs>',
+  ]
+
+  for (const edge of content.edges) {
+    const from = position.get(edge.source)
+    const to = position.get(edge.target)
+    if (!from || !to) continue
+    const dash = edge.type === 'mitigates' ? ' stroke-dasharray="5,4"' : ''
+    parts.push(
+      `<line x1="${from.x + NODE_WIDTH / 2}" y1="${from.y}" x2="${to.x + NODE_WIDTH / 2}" y2="${to.y + NODE_HEIGHT}" stroke="#555" stroke-width="1.5"${dash} marker-end="url(#arrow)"/>`
+    )
+  }
+
+  for (const node of content.nodes) {
+    const { x, y } = position.get(node.id)!
+    const label = node.label.length > 24 ? `${node.label.slice(0, 23)}…` : node.label
+    parts.push(
+      `<g><title>${escapeXml(`${node.type}: ${node.label}`)}</title>` +
+        `<rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="6" fill="white" stroke="${NODE_COLORS[node.type] ?? '#607D8B'}" stroke-width="2"/>` +
+        `<text x="${x + NODE_WIDTH / 2}" y="${y + 18}" text-anchor="middle">${escapeXml(label)}</text>` +
+        `<text x="${x + NODE_WIDTH / 2}" y="${y + 34}" text-anchor="middle" fill="#888" font-size="10">${escapeXml(node.type)}</text></g>`
+    )
+  }
+
+  parts.push('</svg>')
+  return parts.join('\n')
+}
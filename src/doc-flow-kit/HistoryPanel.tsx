@@ -0,0 +1,181 @@
+import { useEffect, useState } from 'react'
+import { BaseDocument, DocumentDiff, DocumentRevisionSummary, UserDoc } from './types'
+import { docFlowKit } from './DocFlowKit'
+import { isEmptyDiff } from './DocumentDiff'
+
+interface HistoryPanelProps {
+  docId: string
+  /**
+   * Changes whenever the head document is saved, so the list gets refreshed
+   */
+  headVersion?: string
+  onRestore: (restoredDoc: BaseDocument) => void
+}
+
+/**
+ * Lists the stored revisions of a document and lets the user compare two of
+ * them or restore an older one as the new head.
+ */
+export function HistoryPanel({ docId, headVersion, onRestore }: HistoryPanelProps) {
+  const [revisions, setRevisions] = useState<DocumentRevisionSummary[]>([])
+  const [authorNames, setAuthorNames] = useState<Record<string, string>>({})
+  const [selected, setSelected] = useState<number[]>([])
+  const [diff, setDiff] = useState<DocumentDiff | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function loadRevisions() {
+      try {
+        const list = await docFlowKit.listRevisions(docId)
+        const authorIds = [...new Set(list.map((r) => r.authorId).filter((id): id is string => !!id))]
+        const names: Record<string, string> = {}
+        for (const authorId of authorIds) {
+          const userDoc = await docFlowKit.getDocument(authorId) as UserDoc | null
+          names[authorId] = userDoc?.content.displayName || userDoc?.content.email || authorId.substring(0, 8)
+        }
+        if (!cancelled) {
+          setRevisions(list)
+          setAuthorNames(names)
+          setError(null)
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(`Error loading history: ${err instanceof Error ? err.message : String(err)}`)
+        }
+      }
+    }
+
+    loadRevisions()
+    return () => {
+      cancelled = true
+    }
+  }, [docId, headVersion])
+
+  function toggleSelected(revision: number) {
+    setDiff(null)
+    setSelected((prev) => {
+      if (prev.includes(revision)) return prev.filter((r) => r !== revision)
+      // Keep at most two revisions selected for comparison
+      return [...prev, revision].slice(-2)
+    })
+  }
+
+  async function compareSelected() {
+    if (selected.length !== 2) return
+    const [from, to] = [...selected].sort((a, b) => a - b)
+    try {
+      setDiff(await docFlowKit.diffRevisions(docId, from, to))
+    } catch (err) {
+      setError(`Error comparing revisions: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  async function restore(revision: number) {
+    if (!confirm(`Restore revision ${revision}? This is saved as a new revision; nothing is lost.`)) {
+      return
+    }
+    try {
+      const restored = await docFlowKit.restoreRevision(docId, revision)
+      setSelected([])
+      setDiff(null)
+      onRestore(restored)
+    } catch (err) {
+      setError(`Error restoring revision: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  return (
+    <div style={{ border: '1px solid #ddd', padding: '0.75rem', borderRadius: '4px', marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h4 style={{ margin: 0 }}>History</h4>
+        <button
+          onClick={compareSelected}
+          disabled={selected.length !== 2}
+          style={{ padding: '0.3rem 0.6rem', backgroundColor: selected.length === 2 ? '#2196F3' : '#cccccc', color: 'white', border: 'none', borderRadius: '4px', cursor: selected.length === 2 ? 'pointer' : 'not-allowed' }}
+        >
+          Compare Selected
+        </button>
+      </div>
+
+      {error && <p style={{ color: '#f44336' }}>{error}</p>}
+
+      {revisions.length === 0 ? (
+        <p>No revisions recorded yet.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, maxHeight: '240px', overflowY: 'auto' }}>
+          {revisions.map((rev, index) => (
+            <li key={rev.revision} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.3rem 0', borderBottom: '1px solid #f0f0f0' }}>
+              <input
+                type="checkbox"
+                checked={selected.includes(rev.revision)}
+                onChange={() => toggleSelected(rev.revision)}
+              />
+              <strong>r{rev.revision}</strong>
+              <span style={{ flexGrow: 1 }}>
+                {new Date(rev.timestamp).toLocaleString()}
+                {rev.authorId ? ` by ${authorNames[rev.authorId] ?? rev.authorId}` : ''}
+                {' '}- "{rev.title}"
+              </span>
+              <code style={{ fontSize: '0.8rem', color: '#666' }}>{rev.contentHash.substring(0, 8)}</code>
+              {index === 0 ? (
+                <span style={{ fontSize: '0.8rem', color: '#666' }}>current</span>
+              ) : (
+                <button
+                  onClick={() => restore(rev.revision)}
+                  style={{ padding: '0.2rem 0.5rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+                >
+                  Restore
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {diff && <DiffSummary diff={diff} />}
+    </div>
+  )
+}
+
+/**
+ * Human-readable rendering of a DocumentDiff
+ */
+function DiffSummary({ diff }: { diff: DocumentDiff }) {
+  if (isEmptyDiff(diff)) {
+    return <p>Revisions r{diff.fromRevision} and r{diff.toRevision} are identical.</p>
+  }
+
+  const describe = (value: unknown) => {
+    const text = JSON.stringify(value)
+    return text === undefined ? '(none)' : text.length > 80 ? `${text.substring(0, 77)}...` : text
+  }
+
+  return (
+    <div style={{ fontSize: '0.9rem', backgroundColor: '#f9f9f9', padding: '0.5rem', borderRadius: '4px' }}>
+      <strong>Changes from r{diff.fromRevision} to r{diff.toRevision}</strong>
+      <ul style={{ margin: '0.5rem 0', paddingLeft: '1.2rem' }}>
+        {diff.title && <li>Title: "{diff.title.before}" → "{diff.title.after}"</li>}
+        {diff.nodes?.added.map((n) => <li key={`na-${n.id}`} style={{ color: '#4CAF50' }}>Added node "{n.label}" ({n.type})</li>)}
+        {diff.nodes?.removed.map((n) => <li key={`nr-${n.id}`} style={{ color: '#f44336' }}>Removed node "{n.label}" ({n.type})</li>)}
+        {diff.nodes?.changed.map(({ before, after }) => (
+          <li key={`nc-${after.id}`}>
+            Changed node "{before.label}" ({before.type})
+            {before.label !== after.label || before.type !== after.type ? ` → "${after.label}" (${after.type})` : ''}
+          </li>
+        ))}
+        {diff.edges && (diff.edges.added.length > 0 || diff.edges.removed.length > 0 || diff.edges.changed.length > 0) && (
+          <li>
+            Edges: {diff.edges.added.length} added, {diff.edges.removed.length} removed, {diff.edges.changed.length} changed
+          </li>
+        )}
+        {diff.fields.map((f) => (
+          <li key={f.path}>
+            <code>{f.path}</code>: {describe(f.before)} → {describe(f.after)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
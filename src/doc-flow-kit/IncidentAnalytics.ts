@@ -0,0 +1,230 @@
+import { DiagramDoc, GraphNode, ProjectDoc, WBANodeType } from './types'
+import { docFlowKit } from './DocFlowKit'
+import { analyzeCausalStructure } from './CausalAnalysis'
+import { getTiming } from './Timeline'
+
+const NODE_TYPES: WBANodeType[] = [
+  'Incident',
+  'Damage',
+  'Event',
+  'UnEvent',
+  'State',
+  'Assumption',
+  'Process',
+  'ActionItem',
+  'ProximateCause',
+  'GenericNode',
+]
+
+// Negations like "not" and "no" are kept: they change what a factor means
+const STOP_WORDS = new Set(['a', 'an', 'the', 'of', 'to', 'in', 'on', 'at', 'for', 'and', 'or', 'by', 'with', 'was', 'were', 'is', 'are', 'be', 'been', 'had', 'has'])
+
+/**
+ * One causal factor node in one diagram
+ */
+export interface FactorOccurrence {
+  diagramId: string
+  diagramTitle: string
+  node: GraphNode
+  type: WBANodeType
+  /**
+   * Normalized label words, sorted and without duplicates
+   */
+  tokens: string[]
+  isRootCause: boolean
+  /**
+   * Month of the incident (YYYY-MM): the earliest node start time, or when
+   * the diagram was created
+   */
+  period?: string
+}
+
+/**
+ * Factors from different diagrams with similar labels
+ */
+export interface FactorCluster {
+  id: string
+  /**
+   * The label used most often in the cluster
+   */
+  label: string
+  type: WBANodeType
+  occurrences: FactorOccurrence[]
+  diagramIds: string[]
+  rootCauseCount: number
+}
+
+export interface TypeCount {
+  type: WBANodeType
+  occurrences: number
+  rootCauses: number
+}
+
+export interface ProjectAnalytics {
+  diagramCount: number
+  occurrences: FactorOccurrence[]
+  /**
+   * Largest root cause count first
+   */
+  clusters: FactorCluster[]
+  typeCounts: TypeCount[]
+  /**
+   * Every month with an incident, in order
+   */
+  periods: string[]
+}
+
+export interface AnalyticsOptions {
+  /**
+   * Jaccard similarity two labels need to share a cluster (0-1)
+   */
+  similarity?: number
+}
+
+/**
+ * Lower-cases a label and splits it into words, dropping punctuation, filler
+ * words and plural endings so "Valves not checked." and "valve not checked"
+ * compare equal
+ */
+export function normalizeLabel(label: string): string[] {
+  const words = label
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+  return [...new Set(words)].sort()
+}
+
+/**
+ * Maps type names from older or imported diagrams ("proximate cause",
+ * "un_event") onto the WBA node types; anything unknown is a GenericNode
+ */
+export function normalizeNodeType(type: string): WBANodeType {
+  const key = type.toLowerCase().replace(/[^a-z]/g, '')
+  return NODE_TYPES.find((t) => t.toLowerCase() === key) ?? 'GenericNode'
+}
+
+export function jaccardSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1
+  const setB = new Set(b)
+  const shared = a.filter((word) => setB.has(word)).length
+  return shared / (a.length + b.length - shared)
+}
+
+/**
+ * The causal factors of each diagram; ActionItems are left out
+ */
+export function collectFactorOccurrences(diagrams: DiagramDoc[]): FactorOccurrence[] {
+  const occurrences: FactorOccurrence[] = []
+  for (const diagram of diagrams) {
+    const rootIds = new Set(analyzeCausalStructure(diagram.content).rootIds)
+    const period = incidentPeriod(diagram)
+    for (const node of diagram.content.nodes) {
+      const type = normalizeNodeType(node.type)
+      if (type === 'ActionItem') continue
+      occurrences.push({
+        diagramId: diagram.docId,
+        diagramTitle: diagram.title,
+        node,
+        type,
+        tokens: normalizeLabel(node.label),
+        isRootCause: rootIds.has(node.id),
+        period,
+      })
+    }
+  }
+  return occurrences
+}
+
+function incidentPeriod(diagram: DiagramDoc): string | undefined {
+  const starts = diagram.content.nodes
+    .map((node) => getTiming(node).startTime)
+    .filter((time): time is string => !!time && !Number.isNaN(Date.parse(time)))
+    .sort((a, b) => Date.parse(a) - Date.parse(b))
+  const date = starts[0] ?? diagram.createdAt
+  return date ? new Date(date).toISOString().slice(0, 7) : undefined
+}
+
+/**
+ * Groups factors of the same type whose labels are similar. Each factor
+ * joins the most similar existing cluster, compared against the cluster's
+ * first label, or starts a new one.
+ */
+export function clusterFactors(occurrences: FactorOccurrence[], similarity = 0.5): FactorCluster[] {
+  const groups: { seed: FactorOccurrence; members: FactorOccurrence[] }[] = []
+  for (const occurrence of occurrences) {
+    if (occurrence.tokens.length === 0) continue
+    let best: (typeof groups)[number] | undefined
+    let bestScore = similarity
+    for (const group of groups) {
+      if (group.seed.type !== occurrence.type) continue
+      const score = jaccardSimilarity(group.seed.tokens, occurrence.tokens)
+      if (score >= bestScore) {
+        best = group
+        bestScore = score
+      }
+    }
+    if (best) best.members.push(occurrence)
+    else groups.push({ seed: occurrence, members: [occurrence] })
+  }
+
+  return groups
+    .map(({ seed, members }) => ({
+      id: `${seed.type}:${seed.tokens.join(' ')}`,
+      label: mostCommon(members.map((m) => m.node.label.trim())),
+      type: seed.type,
+      occurrences: members,
+      diagramIds: [...new Set(members.map((m) => m.diagramId))],
+      rootCauseCount: members.filter((m) => m.isRootCause).length,
+    }))
+    .sort((a, b) => b.rootCauseCount - a.rootCauseCount || b.diagramIds.length - a.diagramIds.length)
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>()
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1)
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0]
+}
+
+/**
+ * Occurrences per period, in the order of `periods`
+ */
+export function countByPeriod(occurrences: FactorOccurrence[], periods: string[], rootCausesOnly = false): number[] {
+  return periods.map((period) =>
+    occurrences.filter((o) => o.period === period && (!rootCausesOnly || o.isRootCause)).length
+  )
+}
+
+export function analyzeIncidents(diagrams: DiagramDoc[], options: AnalyticsOptions = {}): ProjectAnalytics {
+  const occurrences = collectFactorOccurrences(diagrams)
+  const typeCounts = NODE_TYPES.filter((type) => type !== 'ActionItem')
+    .map((type) => {
+      const ofType = occurrences.filter((o) => o.type === type)
+      return { type, occurrences: ofType.length, rootCauses: ofType.filter((o) => o.isRootCause).length }
+    })
+    .filter((count) => count.occurrences > 0)
+
+  return {
+    diagramCount: diagrams.length,
+    occurrences,
+    clusters: clusterFactors(occurrences, options.similarity),
+    typeCounts,
+    periods: [...new Set(occurrences.map((o) => o.period).filter((p): p is string => !!p))].sort(),
+  }
+}
+
+/**
+ * Loads every diagram listed in the project; trashed or missing ones are
+ * skipped
+ */
+export async function loadProjectDiagrams(project: ProjectDoc): Promise<DiagramDoc[]> {
+  const diagrams: DiagramDoc[] = []
+  for (const ref of project.content.documents) {
+    if (ref.docType !== 'Diagram') continue
+    const doc = await docFlowKit.getDocument(ref.docId) as DiagramDoc | null
+    if (doc && !doc.deletedAt && doc.docType === 'Diagram') diagrams.push(doc)
+  }
+  return diagrams
+}
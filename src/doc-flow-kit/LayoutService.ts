@@ -0,0 +1,62 @@
+import { NodeBasedContent, NodePosition } from './types'
+import { LayoutOptions, layoutGraph } from './GraphLayout'
+
+export interface LayoutRequest {
+  id: number
+  content: NodeBasedContent
+  options: LayoutOptions
+}
+
+export type LayoutResponse =
+  | { id: number; positions: Record<string, NodePosition> }
+  | { id: number; error: string }
+
+let worker: Worker | null = null
+let nextRequestId = 0
+const pending = new Map<number, { resolve: (positions: Record<string, NodePosition>) => void; reject: (error: Error) => void }>()
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null
+  if (!worker) {
+    worker = new Worker(new URL('./GraphLayout.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+      const response = event.data
+      const request = pending.get(response.id)
+      if (!request) return
+      pending.delete(response.id)
+      if ('error' in response) request.reject(new Error(response.error))
+      else request.resolve(response.positions)
+    }
+    // A worker that failed to load or crashed is replaced on the next request
+    worker.onerror = (event) => {
+      for (const request of pending.values()) request.reject(new Error(event.message || 'Layout worker failed'))
+      pending.clear()
+      worker?.terminate()
+      worker = null
+    }
+  }
+  return worker
+}
+
+/**
+ * Computes a layered layout in a Web Worker, so large diagrams don't freeze
+ * the editor. Runs in the calling thread where workers aren't available.
+ */
+export function computeLayout(content: NodeBasedContent, options: LayoutOptions): Promise<Record<string, NodePosition>> {
+  const target = getWorker()
+  if (!target) return Promise.resolve(layoutGraph(content, options))
+
+  // Only what the layout reads, to keep the copy to the worker small
+  const request: LayoutRequest = {
+    id: nextRequestId++,
+    content: {
+      nodes: content.nodes.map(({ id, type, label }) => ({ id, type, label, properties: {} })),
+      edges: content.edges.map(({ id, source, target, type }) => ({ id, source, target, type })),
+    },
+    options,
+  }
+  return new Promise((resolve, reject) => {
+    pending.set(request.id, { resolve, reject })
+    target.postMessage(request)
+  })
+}
@@ -0,0 +1,47 @@
+import { GraphNode } from './types'
+import { LintFinding, SEVERITY_COLORS } from './GraphLinter'
+
+interface LintPanelProps {
+  findings: LintFinding[]
+  nodes: GraphNode[]
+  onSelectNode: (nodeId: string) => void
+}
+
+/**
+ * Lists graph lint findings with a link to each node involved
+ */
+export function LintPanel({ findings, nodes, onSelectNode }: LintPanelProps) {
+  const labelOf = (id: string) => nodes.find((n) => n.id === id)?.label || id
+
+  return (
+    <div style={{ border: '1px solid #ddd', padding: '0.75rem', borderRadius: '4px', marginBottom: '1rem' }}>
+      <h4 style={{ margin: 0 }}>Graph Check</h4>
+      {findings.length === 0 ? (
+        <p style={{ color: '#4CAF50' }}>No structural problems found.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0 }}>
+          {findings.map((finding, i) => (
+            <li key={`${finding.ruleId}-${i}`} style={{ padding: '0.3rem 0', borderBottom: '1px solid #f0f0f0' }}>
+              <span style={{ color: SEVERITY_COLORS[finding.severity], fontWeight: 'bold', marginRight: '0.5rem' }}>
+                {finding.severity}
+              </span>
+              {finding.message}
+              <span style={{ color: '#999', marginLeft: '0.5rem', fontSize: '0.85rem' }}>({finding.ruleId})</span>
+              <div style={{ display: 'flex', gap: '0.3rem', flexWrap: 'wrap', marginTop: '0.2rem' }}>
+                {finding.nodeIds.map((nodeId) => (
+                  <button
+                    key={nodeId}
+                    onClick={() => onSelectNode(nodeId)}
+                    style={{ padding: '0.1rem 0.4rem', backgroundColor: 'transparent', color: '#2196F3', border: '1px solid #2196F3', borderRadius: '4px', cursor: 'pointer' }}
+                  >
+                    {labelOf(nodeId)}
+                  </button>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'react'
+import { GraphEdge, GraphNode } from './types'
+import { GraphContent, MergeChoice, mergeGraphContent, mergeValue } from './GraphMerge'
+
+interface MergeDialogProps<N extends GraphNode, E extends GraphEdge> {
+  base: GraphContent<N, E> & { title: string }
+  local: GraphContent<N, E> & { title: string }
+  remote: GraphContent<N, E> & { title: string }
+  onResolve: (merged: GraphContent<N, E> & { title: string }) => void
+  onCancel: () => void
+}
+
+/**
+ * Shown when a save is rejected because the document changed elsewhere.
+ * Non-overlapping changes are merged automatically; the user picks a side
+ * for each node or edge that both editors changed.
+ */
+export function MergeDialog<N extends GraphNode, E extends GraphEdge>({
+  base,
+  local,
+  remote,
+  onResolve,
+  onCancel,
+}: MergeDialogProps<N, E>) {
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({})
+  const result = useMemo(
+    () => mergeGraphContent(base, local, remote, choices),
+    [base, local, remote, choices]
+  )
+  const title = mergeValue(base.title, local.title, remote.title)
+
+  // Resolve edge endpoints against every version so deleted nodes still get a name
+  const labelFor = (nodeId: string) =>
+    [local.nodes, remote.nodes, base.nodes].flat().find((n) => n.id === nodeId)?.label ?? nodeId
+
+  const describe = (item: N | E | undefined, kind: 'node' | 'edge') => {
+    if (!item) return 'deleted'
+    if (kind === 'node') {
+      const node = item as N
+      return `"${node.label}" (${node.type})`
+    }
+    const edge = item as E
+    const label = edge.properties?.label ? ` "${edge.properties.label}"` : ''
+    return `${labelFor(edge.source)} → ${labelFor(edge.target)}${label}`
+  }
+
+  return (
+    <div style={{ position: 'fixed', inset: 0, backgroundColor: 'rgba(0,0,0,0.4)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1300 }}>
+      <div style={{ backgroundColor: 'white', color: '#222', padding: '1.5rem', borderRadius: '4px', maxWidth: '720px', width: '90%', maxHeight: '80vh', overflowY: 'auto' }}>
+        <h3 style={{ marginTop: 0 }}>This document was changed elsewhere</h3>
+        <p>
+          Someone saved a newer version while you were editing. Changes that don't overlap have been
+          combined. {result.conflicts.length > 0
+            ? `Choose which version to keep for the ${result.conflicts.length} item(s) you both changed.`
+            : 'Nothing you both changed conflicts.'}
+        </p>
+
+        {result.conflicts.length > 0 && (
+          <ul style={{ listStyle: 'none', padding: 0 }}>
+            {result.conflicts.map((conflict) => (
+              <li key={conflict.key} style={{ border: '1px solid #eee', borderRadius: '4px', padding: '0.5rem', marginBottom: '0.5rem' }}>
+                <div style={{ fontWeight: 'bold', marginBottom: '0.3rem' }}>
+                  {conflict.kind === 'node' ? 'Node' : 'Edge'}: {describe(conflict.base ?? conflict.local ?? conflict.remote, conflict.kind)}
+                </div>
+                <label style={{ display: 'block' }}>
+                  <input
+                    type="radio"
+                    checked={conflict.choice === 'local'}
+                    onChange={() => setChoices((prev) => ({ ...prev, [conflict.key]: 'local' }))}
+                  />{' '}
+                  Keep mine: {describe(conflict.local, conflict.kind)}
+                </label>
+                <label style={{ display: 'block' }}>
+                  <input
+                    type="radio"
+                    checked={conflict.choice === 'remote'}
+                    onChange={() => setChoices((prev) => ({ ...prev, [conflict.key]: 'remote' }))}
+                  />{' '}
+                  Keep theirs: {describe(conflict.remote, conflict.kind)}
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {result.droppedEdges.length > 0 && (
+          <p style={{ color: '#f44336' }}>
+            {result.droppedEdges.length} edge(s) will be removed because one of their nodes was deleted.
+          </p>
+        )}
+
+        <p>
+          Result: {result.merged.nodes.length} nodes, {result.merged.edges.length} edges, title "{title}".
+        </p>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '0.5rem' }}>
+          <button
+            onClick={onCancel}
+            style={{ padding: '0.5rem 1rem', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onResolve({ ...result.merged, title })}
+            style={{ padding: '0.5rem 1rem', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+          >
+            Save Merged Version
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
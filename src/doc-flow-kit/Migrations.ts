@@ -0,0 +1,90 @@
+import { BaseDocument, GraphEdge, GraphNode } from './types'
+import { getSchema } from './Schemas'
+
+/**
+ * Upgrades a document in place by exactly one schema version
+ */
+export type Migration = (doc: BaseDocument) => void
+
+const migrations = new Map<string, Map<number, Migration>>()
+
+/**
+ * Registers the migration that takes a docType from `fromVersion` to
+ * `fromVersion + 1`. Documents without a schemaVersion predate versioning
+ * and start at 0.
+ */
+export function registerMigration(docType: string, fromVersion: number, migrate: Migration): void {
+  if (!migrations.has(docType)) migrations.set(docType, new Map())
+  migrations.get(docType)!.set(fromVersion, migrate)
+}
+
+/**
+ * Whether a document is older than its docType's current schema
+ */
+export function needsMigration(doc: BaseDocument): boolean {
+  const schema = getSchema(doc.docType)
+  return !!schema && (doc.schemaVersion ?? 0) < schema.version
+}
+
+/**
+ * Runs every migration between the document's schemaVersion and the current
+ * schema version, in order, updating the document in place
+ * @returns Whether anything was migrated
+ * @throws Error if a step in the chain has no registered migration
+ */
+export function migrateDocument(doc: BaseDocument): boolean {
+  const schema = getSchema(doc.docType)
+  if (!schema) return false
+
+  let version = doc.schemaVersion ?? 0
+  if (version >= schema.version) return false
+
+  while (version < schema.version) {
+    const migrate = migrations.get(doc.docType)?.get(version)
+    if (!migrate) {
+      throw new Error(`No migration for ${doc.docType} documents from schema version ${version}`)
+    }
+    migrate(doc)
+    version++
+  }
+  doc.schemaVersion = version
+  return true
+}
+
+/**
+ * Version 1 makes graphs well-formed: node properties always exist, and
+ * edges left pointing at deleted nodes are dropped
+ */
+function migrateGraphToV1(doc: BaseDocument): void {
+  doc.content.nodes = ((doc.content.nodes ?? []) as GraphNode[]).map((node) => ({
+    ...node,
+    properties: node.properties ?? {},
+  }))
+  const nodeIds = new Set(doc.content.nodes.map((node: GraphNode) => node.id))
+  doc.content.edges = ((doc.content.edges ?? []) as GraphEdge[]).filter(
+    (edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target)
+  )
+}
+
+registerMigration('Diagram', 0, migrateGraphToV1)
+registerMigration('Flow', 0, migrateGraphToV1)
+
+// Version 2 gives diagram edges causal semantics; untyped and generic edges were always cause → effect
+registerMigration('Diagram', 1, (doc) => {
+  doc.content.edges = (doc.content.edges as GraphEdge[]).map((edge) =>
+    !edge.type || edge.type === 'genericEdge' ? { ...edge, type: 'causal' } : edge
+  )
+})
+
+registerMigration('Agent', 0, (doc) => {
+  doc.content.promptTemplate = doc.content.promptTemplate ?? ''
+})
+
+registerMigration('Project', 0, (doc) => {
+  doc.content.name = doc.content.name ?? doc.title
+  doc.content.documents = doc.content.documents ?? []
+})
+
+registerMigration('User', 0, (doc) => {
+  doc.content.projects = doc.content.projects ?? []
+})
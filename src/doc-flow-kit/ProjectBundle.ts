@@ -0,0 +1,298 @@
+import { BaseDocument, DiagramDoc, DocRef, FlowDoc, ProjectDoc } from './types'
+import { DocFlowKit, docFlowKit } from './DocFlowKit'
+import { hashDocument } from './DocumentDiff'
+import { getOutgoingReferences } from './References'
+import { getAttachmentBlobIds, mapAttachments } from './Evidence'
+import { getSubDiagramId, setSubDiagramId } from './SubDiagrams'
+import { BundleValidationError, SchemaValidationError } from './errors'
+
+/**
+ * Bump when the bundle layout changes; importers reject versions they don't know
+ */
+export const BUNDLE_SCHEMA_VERSION = 2
+
+// Version 1 bundles had no blobs; their attachments are dropped on import
+const READABLE_SCHEMA_VERSIONS = [1, BUNDLE_SCHEMA_VERSION]
+
+export interface BundleManifestEntry {
+  docId: string
+  docType: string
+  title: string
+  checksum: string   // hashDocument() of the exported document
+}
+
+export interface BundleManifest {
+  format: 'whybecause-project'
+  schemaVersion: number
+  exportedAt: string
+  projectId: string
+  documents: BundleManifestEntry[]   // Includes the project itself
+}
+
+/**
+ * An evidence attachment's data, base64-encoded so it fits in JSON
+ */
+export interface BundleBlob {
+  blobId: string
+  contentType: string
+  data: string
+}
+
+/**
+ * A project and every document it references, as one portable JSON value
+ */
+export interface ProjectBundle {
+  manifest: BundleManifest
+  project: ProjectDoc
+  documents: BaseDocument[]
+  blobs?: BundleBlob[]   // Missing from version 1 bundles
+}
+
+/**
+ * Packages a project with every document reachable from it: the project's
+ * DocRefs, each document's `references`, and agents used by flow states.
+ * Evidence attachments are included too.
+ * @param projectId The project to export
+ * @param kit DocFlowKit instance to read from
+ */
+export async function exportProject(projectId: string, kit: DocFlowKit = docFlowKit): Promise<ProjectBundle> {
+  const project = await kit.getDocument(projectId)
+  if (!project || project.docType !== 'Project') {
+    throw new Error(`Project ${projectId} not found`)
+  }
+
+  const documents = new Map<string, BaseDocument>()
+  const pending = getOutgoingReferences(project)
+  while (pending.length > 0) {
+    const docId = pending.pop()!
+    if (docId === projectId || documents.has(docId)) continue
+    const doc = await kit.getDocument(docId)
+    if (!doc) continue   // Dangling reference; nothing to export
+    documents.set(docId, doc)
+    pending.push(...getOutgoingReferences(doc))
+  }
+
+  const all = [project, ...documents.values()]
+  const manifest: BundleManifest = {
+    format: 'whybecause-project',
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    projectId,
+    documents: await Promise.all(
+      all.map(async (doc) => ({
+        docId: doc.docId,
+        docType: doc.docType,
+        title: doc.title,
+        checksum: await hashDocument(doc),
+      }))
+    ),
+  }
+
+  const blobs: BundleBlob[] = []
+  for (const blobId of new Set([...documents.values()].flatMap(getAttachmentBlobIds))) {
+    const blob = await kit.getBlob(blobId)
+    if (!blob) continue   // Already missing; the attachment is dropped on import
+    blobs.push({ blobId, contentType: blob.type, data: await blobToBase64(blob) })
+  }
+
+  return {
+    manifest,
+    project: project as ProjectDoc,
+    documents: [...documents.values()],
+    blobs,
+  }
+}
+
+/**
+ * Checks the structure, schema version and checksums of a parsed bundle
+ * @param data Parsed JSON from a bundle file
+ * @throws BundleValidationError listing every problem found
+ */
+export async function validateBundle(data: unknown): Promise<ProjectBundle> {
+  const problems: string[] = []
+  const bundle = data as Partial<ProjectBundle> | null
+
+  if (!bundle || typeof bundle !== 'object') {
+    throw new BundleValidationError(['Bundle is not a JSON object'])
+  }
+  const { manifest, project, documents, blobs = [] } = bundle
+  if (!manifest || manifest.format !== 'whybecause-project') {
+    throw new BundleValidationError(['Missing or unrecognized manifest'])
+  }
+  if (!READABLE_SCHEMA_VERSIONS.includes(manifest.schemaVersion)) {
+    problems.push(`Unsupported schema version ${manifest.schemaVersion} (expected ${BUNDLE_SCHEMA_VERSION})`)
+  }
+  if (!project || project.docType !== 'Project' || project.docId !== manifest.projectId) {
+    problems.push('Bundle does not contain the project named in its manifest')
+  }
+  if (!Array.isArray(documents)) {
+    problems.push('Bundle has no document list')
+  }
+  if (!Array.isArray(blobs) || blobs.some((blob) => typeof blob?.blobId !== 'string' || typeof blob.data !== 'string')) {
+    problems.push('Bundle has a malformed blob list')
+  }
+  if (problems.length > 0) throw new BundleValidationError(problems)
+
+  const byId = new Map([project!, ...documents!].map((doc) => [doc.docId, doc]))
+  if (byId.size !== documents!.length + 1) {
+    problems.push('Bundle contains duplicate document IDs')
+  }
+  for (const entry of manifest.documents ?? []) {
+    const doc = byId.get(entry.docId)
+    if (!doc) {
+      problems.push(`Document ${entry.docId} ("${entry.title}") is listed in the manifest but missing`)
+    } else if ((await hashDocument(doc)) !== entry.checksum) {
+      problems.push(`Checksum mismatch for document ${entry.docId} ("${entry.title}")`)
+    }
+  }
+  for (const docId of byId.keys()) {
+    if (!manifest.documents?.some((entry) => entry.docId === docId)) {
+      problems.push(`Document ${docId} is not listed in the manifest`)
+    }
+  }
+
+  if (problems.length > 0) throw new BundleValidationError(problems)
+  return bundle as ProjectBundle
+}
+
+/**
+ * Imports a validated bundle as a new project. Every document and blob gets
+ * a fresh id so nothing collides with existing data, and DocRefs,
+ * `references`, flow state agentIds, sub-diagram links and attachments are
+ * rewritten to the new IDs. Attachments whose blob isn't in the bundle are
+ * dropped. Every document is schema-checked before anything is written, and
+ * if a write fails the documents and blobs already written are removed.
+ * @param bundle A bundle returned by validateBundle()
+ * @param kit DocFlowKit instance to write to
+ * @returns The newly created project
+ * @throws BundleValidationError if any document fails its schema
+ */
+export async function importProject(bundle: ProjectBundle, kit: DocFlowKit = docFlowKit): Promise<ProjectDoc> {
+  const idMap = new Map<string, string>()
+  for (const doc of [bundle.project, ...bundle.documents]) {
+    idMap.set(doc.docId, crypto.randomUUID())
+  }
+  const newProjectId = idMap.get(bundle.project.docId)!
+  const remapRef = (ref: DocRef): DocRef => ({ ...ref, docId: idMap.get(ref.docId) ?? ref.docId })
+  const bundledBlobIds = new Set((bundle.blobs ?? []).map((blob) => blob.blobId))
+
+  const documents = bundle.documents.map((original) => {
+    const doc = prepareImported(original, idMap, remapRef)
+    doc.projectIds = [newProjectId]
+    if (doc.docType === 'Flow') {
+      const flow = doc as FlowDoc
+      flow.content.nodes = flow.content.nodes.map((node) =>
+        node.agentId ? { ...node, agentId: idMap.get(node.agentId) ?? node.agentId } : node
+      )
+    }
+    if (doc.docType === 'Diagram') {
+      const diagram = doc as DiagramDoc
+      diagram.content.nodes = diagram.content.nodes.map((node) => {
+        const subDiagramId = getSubDiagramId(node)
+        return subDiagramId ? setSubDiagramId(node, idMap.get(subDiagramId) ?? subDiagramId) : node
+      })
+      // Attachments keep the bundle's blob ids until the blobs are stored
+      diagram.content.nodes = mapAttachments(diagram.content.nodes, (attachment) =>
+        bundledBlobIds.has(attachment.blobId) ? attachment : undefined
+      )
+    }
+    return doc
+  })
+  const project = prepareImported(bundle.project, idMap, remapRef) as ProjectDoc
+  project.content.documents = project.content.documents.map(remapRef)
+
+  const problems: string[] = []
+  for (const doc of [...documents, project]) {
+    try {
+      kit.checkSchema(doc)
+    } catch (err) {
+      if (!(err instanceof SchemaValidationError)) throw err
+      problems.push(`"${doc.title}": ${err.message}`)
+    }
+  }
+  if (problems.length > 0) throw new BundleValidationError(problems)
+
+  const blobIdMap = new Map<string, string>()
+  const createdIds: string[] = []
+  try {
+    for (const blob of bundle.blobs ?? []) {
+      blobIdMap.set(blob.blobId, await kit.storeBlob(base64ToBlob(blob.data, blob.contentType)))
+    }
+    for (const doc of documents) {
+      if (doc.docType === 'Diagram') {
+        const diagram = doc as DiagramDoc
+        diagram.content.nodes = mapAttachments(diagram.content.nodes, (attachment) =>
+          ({ ...attachment, blobId: blobIdMap.get(attachment.blobId)! })
+        )
+      }
+      await kit.createDocument(doc)
+      createdIds.push(doc.docId)
+    }
+    await kit.createDocument(project)
+  } catch (err) {
+    await rollBackImport(kit, createdIds, [...blobIdMap.values()])
+    throw err
+  }
+  return project
+}
+
+/**
+ * Best-effort removal of a failed import's writes, newest first so each
+ * document's referrers are already gone
+ */
+async function rollBackImport(kit: DocFlowKit, docIds: string[], blobIds: string[]): Promise<void> {
+  for (const docId of [...docIds].reverse()) {
+    try {
+      await kit.deleteDocument(docId, { policy: 'nullify' })
+    } catch (err) {
+      console.error(`Failed to remove imported document ${docId}:`, err)
+    }
+  }
+  for (const blobId of blobIds) {
+    try {
+      await kit.deleteBlob(blobId)
+    } catch (err) {
+      console.error(`Failed to remove imported blob ${blobId}:`, err)
+    }
+  }
+}
+
+/**
+ * Copy of an imported document with its ID and references remapped and the
+ * source database's bookkeeping fields dropped
+ */
+function prepareImported(
+  original: BaseDocument,
+  idMap: Map<string, string>,
+  remapRef: (ref: DocRef) => DocRef
+): BaseDocument {
+  const doc = structuredClone(original)
+  doc.docId = idMap.get(original.docId)!
+  doc.references = doc.references?.map(remapRef)
+  delete doc.revision
+  delete doc.ownerId
+  delete doc.updatedAt
+  delete doc.referencedIds
+  delete doc.blobIds
+  // An imported project starts with nothing in the trash
+  delete doc.deletedAt
+  delete doc.deletedBy
+  return doc
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ''
+  // Chunked, since spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function base64ToBlob(data: string, contentType: string): Blob {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type: contentType })
+}
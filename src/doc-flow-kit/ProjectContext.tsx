@@ -1,6 +1,7 @@
-import React, { createContext, useState, useCallback, useContext } from 'react'
+import React, { createContext, useState, useCallback, useContext, useEffect } from 'react'
 import { docFlowKit } from './DocFlowKit'
 import { ProjectDoc } from './types'
+import { ConflictError } from './errors'
 
 /**
  * Interface defining what's stored in the ProjectContext
@@ -18,11 +19,61 @@ interface ProjectContextValue {
  */
 export const ProjectContext = createContext<ProjectContextValue | null>(null)
 
+/**
+ * Copies a document's title into the project's DocRef for it. The project
+ * is written only if it hasn't changed since it was read; if it has, the
+ * sync starts over once from a fresh copy.
+ */
+async function syncDocumentTitle(projectId: string, docId: string, title: string): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    const current = await docFlowKit.getDocument(projectId) as ProjectDoc | null
+    const ref = current?.content.documents.find((d) => d.docId === docId)
+    if (!current || !ref || ref.title === title) return
+    current.content.documents = current.content.documents.map((d) =>
+      d.docId === docId ? { ...d, title } : d
+    )
+    try {
+      await docFlowKit.updateDocument(current, { expectedRevision: current.revision ?? 0 })
+      return
+    } catch (err) {
+      if (!(err instanceof ConflictError) || attempt > 0) throw err
+    }
+  }
+}
+
 /**
  * Provider component for ProjectContext
  */
 export function ProjectProvider({ children }: { children: React.ReactNode }) {
   const [project, setProject] = useState<ProjectDoc | null>(null)
+  const projectId = project?.docId ?? null
+
+  /**
+   * Keep the loaded project current, and keep its document list's titles in
+   * step with the documents themselves
+   */
+  useEffect(() => {
+    if (!projectId) return
+
+    const unsubscribeProject = docFlowKit.subscribe({ docId: projectId }, (event) => {
+      setProject(event.type === 'delete' ? null : event.document as ProjectDoc)
+    })
+
+    const unsubscribeDocuments = docFlowKit.subscribe({ projectId }, async (event) => {
+      // Other tabs sync their own writes
+      if (event.type !== 'update' || event.origin !== 'local') return
+      try {
+        await syncDocumentTitle(projectId, event.docId, event.document.title)
+      } catch (err) {
+        console.error('Error syncing document title into project:', err)
+      }
+    })
+
+    return () => {
+      unsubscribeProject()
+      unsubscribeDocuments()
+    }
+  }, [projectId])
 
   /**
    * Load a project from IndexedDB by ID
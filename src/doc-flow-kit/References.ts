@@ -0,0 +1,68 @@
+import { BaseDocument, DiagramDoc, FlowDoc, ProjectDoc, UserDoc } from './types'
+
+/**
+ * IDs of every document a document links to: its `references`, a project's
+ * DocRefs, the agents assigned to flow states and a user's projects.
+ * DocFlowKit stores the result as `referencedIds` so links can be looked up in reverse.
+ */
+export function getOutgoingReferences(doc: BaseDocument): string[] {
+  const ids = (doc.references ?? []).map((ref) => ref.docId)
+
+  switch (doc.docType) {
+    case 'Project':
+      ids.push(...((doc as ProjectDoc).content.documents ?? []).map((ref) => ref.docId))
+      break
+    case 'Flow':
+      for (const node of (doc as FlowDoc).content.nodes ?? []) {
+        if (node.agentId) ids.push(node.agentId)
+      }
+      break
+    case 'User':
+      ids.push(...((doc as UserDoc).content.projects ?? []))
+      break
+  }
+
+  return [...new Set(ids)]
+}
+
+/**
+ * Returns a copy of `doc` with every link to `targetId` removed
+ * (the nullify delete policy). Flow states keep their place but lose the
+ * agent, and diagram nodes lose their sub-diagram.
+ */
+export function removeReferencesTo(doc: BaseDocument, targetId: string): BaseDocument {
+  const updated = structuredClone(doc)
+  updated.references = updated.references?.filter((ref) => ref.docId !== targetId)
+
+  switch (updated.docType) {
+    case 'Project': {
+      const project = updated as ProjectDoc
+      project.content.documents = project.content.documents.filter((ref) => ref.docId !== targetId)
+      break
+    }
+    case 'Flow': {
+      const flow = updated as FlowDoc
+      flow.content.nodes = flow.content.nodes.map((node) =>
+        node.agentId === targetId ? { ...node, agentId: undefined } : node
+      )
+      break
+    }
+    case 'Diagram': {
+      const diagram = updated as DiagramDoc
+      diagram.content.nodes = diagram.content.nodes.map((node) => {
+        if (node.properties?.subDiagramId !== targetId) return node
+        const properties = { ...node.properties }
+        delete properties.subDiagramId
+        return { ...node, properties }
+      })
+      break
+    }
+    case 'User': {
+      const user = updated as UserDoc
+      user.content.projects = user.content.projects.filter((id) => id !== targetId)
+      break
+    }
+  }
+
+  return updated
+}
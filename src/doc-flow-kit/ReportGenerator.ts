@@ -0,0 +1,282 @@
+import { AgentDoc, DiagramDoc, GraphNode, ReportSectionId, ReportTemplate, WBANodeType } from './types'
+import { docFlowKit } from './DocFlowKit'
+import { getLLMService, LLMSettings, DEFAULT_LLM_SETTINGS } from './LLMService'
+import { getCounterfactualStatus, isCausalEdge, summarizeCounterfactuals } from './Counterfactual'
+import { analyzeCausalStructure } from './CausalAnalysis'
+import { getActionItems } from './ActionItems'
+import { getEvidence } from './Evidence'
+import { escapeXml, renderGraphSvg } from './GraphSvg'
+
+export const REPORT_SECTIONS: { id: ReportSectionId; heading: string }[] = [
+  { id: 'summary', heading: 'Incident Summary' },
+  { id: 'factors', heading: 'Causal Factors' },
+  { id: 'counterfactuals', heading: 'Counterfactual Justifications' },
+  { id: 'rootCauses', heading: 'Root Causes' },
+  { id: 'actionItems', heading: 'Action Items' },
+  { id: 'graph', heading: 'Why-Because Graph' },
+]
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  title: '{diagramTitle}: Why-Because Analysis Report',
+  sections: REPORT_SECTIONS.map((section) => section.id),
+}
+
+// Order factor groups appear in; ActionItems get their own section
+const FACTOR_TYPES: WBANodeType[] = [
+  'Incident',
+  'Damage',
+  'ProximateCause',
+  'Event',
+  'UnEvent',
+  'State',
+  'Process',
+  'Assumption',
+  'GenericNode',
+]
+
+export interface ReportOptions {
+  template?: ReportTemplate
+  /**
+   * Narrative summary, e.g. drafted by the template's agent and edited
+   */
+  summary?: string
+  /**
+   * Display names of action item owners, by user id
+   */
+  ownerNames?: Record<string, string>
+  generatedAt?: Date
+}
+
+export interface GeneratedReport {
+  title: string
+  markdown: string
+  /**
+   * A complete HTML page, styled for printing
+   */
+  html: string
+}
+
+/**
+ * The report as format-neutral blocks, rendered to Markdown or HTML.
+ * `markdown` blocks hold user-written text.
+ */
+type Block =
+  | { kind: 'heading'; level: 2 | 3; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'markdown'; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; header: string[]; rows: string[][] }
+  | { kind: 'svg'; svg: string }
+
+/**
+ * Builds a WBA report for a diagram from the project's template
+ */
+export function generateReport(diagram: DiagramDoc, options: ReportOptions = {}): GeneratedReport {
+  const template = options.template ?? DEFAULT_REPORT_TEMPLATE
+  const generatedAt = options.generatedAt ?? new Date()
+  const title = template.title
+    .replace(/{diagramTitle}/g, () => diagram.title)
+    .replace(/{date}/g, () => generatedAt.toLocaleDateString())
+
+  const blocks: Block[] = []
+  if (template.preamble?.trim()) blocks.push({ kind: 'markdown', text: template.preamble.trim() })
+  for (const sectionId of template.sections) {
+    const section = REPORT_SECTIONS.find((s) => s.id === sectionId)
+    if (!section) continue
+    blocks.push({ kind: 'heading', level: 2, text: section.heading })
+    blocks.push(...SECTION_BUILDERS[sectionId](diagram, options))
+  }
+  blocks.push({ kind: 'paragraph', text: `Generated ${generatedAt.toLocaleString()}.` })
+
+  return { title, markdown: toMarkdown(title, blocks), html: toHtml(title, blocks) }
+}
+
+const SECTION_BUILDERS: Record<ReportSectionId, (diagram: DiagramDoc, options: ReportOptions) => Block[]> = {
+  summary: ({ content }, { summary }) => {
+    const ofType = (type: string) => content.nodes.filter((n) => n.type === type).map((n) => n.label)
+    const counterfactuals = summarizeCounterfactuals(content.edges)
+    const causalCount = content.edges.filter(isCausalEdge).length
+    const blocks: Block[] = []
+    if (summary?.trim()) blocks.push({ kind: 'markdown', text: summary.trim() })
+    blocks.push({ kind: 'list', items: [
+      `Incident: ${ofType('Incident').join('; ') || 'not identified'}`,
+      `Damage: ${ofType('Damage').join('; ') || 'none recorded'}`,
+      `${content.nodes.filter((n) => n.type !== 'ActionItem').length} causal factors linked by ${causalCount} causal edges`,
+      `Counterfactual Test: ${counterfactuals.pass} passed, ${counterfactuals.fail} failed, ${counterfactuals.unchecked} unchecked`,
+    ] })
+    return blocks
+  },
+
+  factors: ({ content }) => {
+    const blocks: Block[] = []
+    for (const type of FACTOR_TYPES) {
+      const nodes = content.nodes.filter((n) => n.type === type)
+      if (nodes.length === 0) continue
+      blocks.push({ kind: 'heading', level: 3, text: `${type} (${nodes.length})` })
+      blocks.push({ kind: 'list', items: nodes.map(describeFactor) })
+    }
+    return blocks.length > 0 ? blocks : [{ kind: 'paragraph', text: 'The diagram has no causal factors yet.' }]
+  },
+
+  counterfactuals: ({ content }) => {
+    const label = labeller(content.nodes)
+    const rows = content.edges
+      .filter(isCausalEdge)
+      .map((edge) => [
+        label(edge.source),
+        label(edge.target),
+        getCounterfactualStatus(edge),
+        edge.properties?.counterfactual?.justification ?? '',
+      ])
+    return rows.length > 0
+      ? [{ kind: 'table', header: ['Cause', 'Effect', 'Verdict', 'Justification'], rows }]
+      : [{ kind: 'paragraph', text: 'There are no causal edges.' }]
+  },
+
+  rootCauses: ({ content }) => {
+    const label = labeller(content.nodes)
+    const analysis = analyzeCausalStructure(content)
+    if (analysis.rootIds.length === 0) {
+      return [{ kind: 'paragraph', text: 'No causal chain reaches an Incident or Damage node.' }]
+    }
+    return [{ kind: 'list', items: analysis.coverage.map(({ rootId, actionItemIds }) =>
+      `${label(rootId)}: ${actionItemIds.length > 0 ? `addressed by ${actionItemIds.map(label).join(', ')}` : 'no action item'}`
+    ) }]
+  },
+
+  actionItems: (diagram, { ownerNames = {} }) => {
+    const rows = getActionItems(diagram).map(({ node, properties, mitigates, overdue }) => [
+      node.label,
+      mitigates?.label ?? '',
+      properties.ownerId ? ownerNames[properties.ownerId] ?? properties.ownerId : '',
+      `${properties.dueDate ?? ''}${overdue ? ' (overdue)' : ''}`,
+      properties.priority ?? '',
+      properties.status ?? '',
+    ])
+    return rows.length > 0
+      ? [{ kind: 'table', header: ['Action', 'Mitigates', 'Owner', 'Due', 'Priority', 'Status'], rows }]
+      : [{ kind: 'paragraph', text: 'No action items have been defined.' }]
+  },
+
+  graph: ({ content }) => [{ kind: 'svg', svg: renderGraphSvg(content) }],
+}
+
+function labeller(nodes: GraphNode[]): (id: string) => string {
+  return (id) => nodes.find((n) => n.id === id)?.label ?? id
+}
+
+function describeFactor(node: GraphNode): string {
+  const evidence = getEvidence(node)
+  return evidence.length > 0 ? `${node.label} (${evidence.length} evidence item(s))` : node.label
+}
+
+function toMarkdown(title: string, blocks: Block[]): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ')
+  const lines: string[] = [`# ${title}`, '']
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'heading':
+        lines.push(`${'#'.repeat(block.level)} ${block.text}`, '')
+        break
+      case 'paragraph':
+      case 'markdown':
+        lines.push(block.text, '')
+        break
+      case 'list':
+        lines.push(...block.items.map((item) => `- ${item}`), '')
+        break
+      case 'table':
+        lines.push(
+          `| ${block.header.join(' | ')} |`,
+          `| ${block.header.map(() => '---').join(' | ')} |`,
+          ...block.rows.map((row) => `| ${row.map(cell).join(' | ')} |`),
+          ''
+        )
+        break
+      case 'svg':
+        lines.push(block.svg, '')
+        break
+    }
+  }
+  return lines.join('\n')
+}
+
+function toHtml(title: string, blocks: Block[]): string {
+  const body = blocks.map((block) => {
+    switch (block.kind) {
+      case 'heading':
+        return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`
+      case 'paragraph':
+        return `<p>${escapeXml(block.text)}</p>`
+      case 'markdown':
+        // Shown as written: paragraphs split on blank lines, line breaks kept
+        return block.text
+          .split(/\n\s*\n/)
+          .map((paragraph) => `<p>${escapeXml(paragraph).replace(/\n/g, '<br>')}</p>`)
+          .join('\n')
+      case 'list':
+        return `<ul>${block.items.map((item) => `<li>${escapeXml(item)}</li>`).join('')}</ul>`
+      case 'table':
+        return (
+          `<table><thead><tr>${block.header.map((h) => `<th>${escapeXml(h)}</th>`).join('')}</tr></thead>` +
+          `<tbody>${block.rows.map((row) => `<tr>${row.map((c) => `<td>${escapeXml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`
+        )
+      case 'svg':
+        return `<figure>${block.svg}</figure>`
+    }
+  })
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+  body { font-family: sans-serif; max-width: 60rem; margin: 2rem auto; color: #222; }
+  h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.2rem; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #ccc; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; }
+  figure { margin: 0; overflow-x: auto; }
+  figure svg { max-width: 100%; height: auto; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    h2 { break-after: avoid; }
+    table, figure { break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+${body.join('\n')}
+</body>
+</html>
+`
+}
+
+/**
+ * Asks the template's agent for a narrative incident summary. The agent's
+ * prompt gets the report's facts as {input} (appended when the prompt has
+ * no {input}) and the diagram title as {diagramTitle}.
+ */
+export async function draftReportSummary(
+  diagram: DiagramDoc,
+  template: ReportTemplate,
+  llmSettings: LLMSettings = DEFAULT_LLM_SETTINGS
+): Promise<string> {
+  if (!template.summaryAgentId) throw new Error('The report template has no summary agent')
+  const agent = await docFlowKit.getDocument(template.summaryAgentId) as AgentDoc | null
+  if (!agent || agent.deletedAt || agent.docType !== 'Agent') {
+    throw new Error(`Summary agent ${template.summaryAgentId} not found`)
+  }
+
+  const facts = generateReport(diagram, {
+    template: { title: diagram.title, sections: ['factors', 'counterfactuals', 'rootCauses', 'actionItems'] },
+  }).markdown
+  const promptTemplate = agent.content.promptTemplate.includes('{input}')
+    ? agent.content.promptTemplate
+    : `${agent.content.promptTemplate}\n\n{input}`
+  const prompt = promptTemplate.replace(/{diagramTitle}/g, () => diagram.title).replace(/{input}/g, () => facts)
+
+  return getLLMService(llmSettings).callLLM(prompt, llmSettings)
+}
@@ -0,0 +1,110 @@
+import { useMemo, useState } from 'react'
+import { DiagramDoc, ReportTemplate, UserDoc } from './types'
+import { LLMSettings } from './LLMService'
+import { DEFAULT_REPORT_TEMPLATE, draftReportSummary, generateReport } from './ReportGenerator'
+
+interface ReportPanelProps {
+  diagramDoc: DiagramDoc
+  /**
+   * The project's report template; the default when unset
+   */
+  template?: ReportTemplate
+  llmSettings?: LLMSettings
+  users: UserDoc[]
+}
+
+/**
+ * Preview of the diagram's report, with Markdown and printable HTML export
+ */
+export function ReportPanel({ diagramDoc, template = DEFAULT_REPORT_TEMPLATE, llmSettings, users }: ReportPanelProps) {
+  const [summary, setSummary] = useState('')
+  const [drafting, setDrafting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const report = useMemo(() => {
+    const ownerNames = Object.fromEntries(users.map((u) => [u.docId, u.content.displayName || u.content.email]))
+    return generateReport(diagramDoc, { template, summary, ownerNames })
+  }, [diagramDoc, template, summary, users])
+
+  async function draftSummary() {
+    setDrafting(true)
+    setError(null)
+    try {
+      setSummary(await draftReportSummary(diagramDoc, template, llmSettings))
+    } catch (err) {
+      setError(`Error drafting summary: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setDrafting(false)
+    }
+  }
+
+  async function copyMarkdown() {
+    await navigator.clipboard.writeText(report.markdown)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  function openPrintable() {
+    const win = window.open('', '_blank')
+    if (!win) {
+      setError('The printable report was blocked by the browser; allow pop-ups for this page.')
+      return
+    }
+    win.document.write(report.html)
+    win.document.close()
+    win.focus()
+    win.print()
+  }
+
+  const buttonStyle = { padding: '0.3rem 0.6rem', marginLeft: '0.5rem', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }
+
+  return (
+    <div style={{ border: '1px solid #ddd', padding: '0.75rem', borderRadius: '4px', marginBottom: '1rem' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <h4 style={{ margin: 0 }}>Report</h4>
+        <div>
+          <button onClick={copyMarkdown} style={{ ...buttonStyle, backgroundColor: '#607D8B' }}>
+            {copied ? 'Copied' : 'Copy Markdown'}
+          </button>
+          <button onClick={openPrintable} style={{ ...buttonStyle, backgroundColor: '#3F51B5' }}>
+            Printable HTML
+          </button>
+        </div>
+      </div>
+      <p style={{ color: '#666', fontSize: '0.9rem' }}>Built from the last saved version of this diagram.</p>
+      {error && <p style={{ color: '#f44336' }}>{error}</p>}
+
+      {template.sections.includes('summary') && (
+        <div style={{ marginBottom: '0.5rem' }}>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '0.3rem' }}>
+            <label htmlFor="report-summary">Incident summary</label>
+            {template.summaryAgentId && (
+              <button
+                onClick={draftSummary}
+                disabled={drafting}
+                style={{ ...buttonStyle, backgroundColor: '#9C27B0' }}
+              >
+                {drafting ? 'Drafting…' : 'Draft with Agent'}
+              </button>
+            )}
+          </div>
+          <textarea
+            id="report-summary"
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            placeholder="Narrative summary of the incident (optional)"
+            rows={4}
+            style={{ width: '100%', boxSizing: 'border-box' }}
+          />
+        </div>
+      )}
+
+      <iframe
+        title="Report preview"
+        srcDoc={report.html}
+        style={{ width: '100%', height: '480px', border: '1px solid #eee' }}
+      />
+    </div>
+  )
+}
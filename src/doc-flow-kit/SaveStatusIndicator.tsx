@@ -0,0 +1,37 @@
+import { SaveStatus } from './Autosave'
+
+interface SaveStatusIndicatorProps {
+  status: SaveStatus
+  /**
+   * Why the last save failed; shown as a tooltip
+   */
+  error?: string | null
+  onRetry?: () => void
+}
+
+const STATUS_DISPLAY: Record<SaveStatus, { text: string; color: string }> = {
+  saved: { text: '✓ All changes saved', color: '#4CAF50' },
+  unsaved: { text: '● Unsaved changes', color: '#FF9800' },
+  saving: { text: 'Saving…', color: '#607D8B' },
+  error: { text: '⚠ Not saved', color: '#f44336' },
+}
+
+/**
+ * Shows whether an editor's changes have been saved
+ */
+export function SaveStatusIndicator({ status, error, onRetry }: SaveStatusIndicatorProps) {
+  const { text, color } = STATUS_DISPLAY[status]
+  return (
+    <span role="status" style={{ display: 'inline-flex', alignItems: 'center', gap: '0.3rem', marginLeft: '0.5rem', color, fontSize: '0.9rem' }}>
+      <span title={status === 'error' ? error ?? undefined : undefined}>{text}</span>
+      {status === 'error' && onRetry && (
+        <button
+          onClick={onRetry}
+          style={{ padding: '0.1rem 0.4rem', backgroundColor: 'transparent', color, border: `1px solid ${color}`, borderRadius: '4px', cursor: 'pointer' }}
+        >
+          Retry
+        </button>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,334 @@
+import { BaseDocument, SchemaIssue } from './types'
+
+/**
+ * Runtime schema for one docType. `version` is stamped on every document
+ * written, and is what migrations bring older documents up to.
+ */
+export interface DocumentSchema {
+  version: number
+  /**
+   * Returns every problem with the document's content; empty when valid
+   */
+  validate: (doc: BaseDocument) => SchemaIssue[]
+}
+
+const schemas = new Map<string, DocumentSchema>()
+
+/**
+ * Registers (or replaces) the schema for a docType
+ */
+export function registerSchema(docType: string, schema: DocumentSchema): void {
+  schemas.set(docType, schema)
+}
+
+export function getSchema(docType: string): DocumentSchema | undefined {
+  return schemas.get(docType)
+}
+
+/**
+ * Checks the fields every document has, then the docType's own schema if
+ * one is registered
+ */
+export function validateDocument(doc: BaseDocument): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  checkString(doc.docId, 'docId', issues)
+  checkString(doc.docType, 'docType', issues)
+  checkString(doc.title, 'title', issues)
+  if (doc.references !== undefined) checkDocRefs(doc.references, 'references', issues)
+  if (!isObject(doc.content)) {
+    issues.push({ path: 'content', message: 'must be an object' })
+    return issues
+  }
+
+  const schema = schemas.get(doc.docType)
+  return schema ? [...issues, ...schema.validate(doc)] : issues
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function checkString(value: unknown, path: string, issues: SchemaIssue[], optional = false): void {
+  if (optional && value === undefined) return
+  if (typeof value !== 'string') issues.push({ path, message: 'must be a string' })
+}
+
+function checkArray(value: unknown, path: string, issues: SchemaIssue[]): value is unknown[] {
+  if (Array.isArray(value)) return true
+  issues.push({ path, message: 'must be an array' })
+  return false
+}
+
+function checkDocRefs(value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (!checkArray(value, path, issues)) return
+  value.forEach((ref, i) => {
+    if (!isObject(ref)) {
+      issues.push({ path: `${path}.${i}`, message: 'must be an object' })
+      return
+    }
+    checkString(ref.docId, `${path}.${i}.docId`, issues)
+    checkString(ref.docType, `${path}.${i}.docType`, issues)
+    checkString(ref.title, `${path}.${i}.title`, issues, true)
+  })
+}
+
+function checkCounterfactual(value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' })
+    return
+  }
+  if (value.verdict !== 'pass' && value.verdict !== 'fail') {
+    issues.push({ path: `${path}.verdict`, message: 'must be "pass" or "fail"' })
+  }
+  checkString(value.justification, `${path}.justification`, issues)
+  checkString(value.checkedBy, `${path}.checkedBy`, issues, true)
+  checkString(value.checkedAt, `${path}.checkedAt`, issues)
+}
+
+function checkSufficiency(value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' })
+    return
+  }
+  if (checkArray(value.causeIds, `${path}.causeIds`, issues)) {
+    value.causeIds.forEach((id, i) => checkString(id, `${path}.causeIds.${i}`, issues))
+  }
+  checkString(value.note, `${path}.note`, issues, true)
+  checkString(value.confirmedBy, `${path}.confirmedBy`, issues, true)
+  checkString(value.confirmedAt, `${path}.confirmedAt`, issues)
+}
+
+function checkActionItem(properties: Record<string, unknown>, path: string, issues: SchemaIssue[]): void {
+  checkString(properties.ownerId, `${path}.ownerId`, issues, true)
+  if (properties.dueDate !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(String(properties.dueDate))) {
+    issues.push({ path: `${path}.dueDate`, message: 'must be a YYYY-MM-DD date' })
+  }
+  if (properties.priority !== undefined && !['low', 'medium', 'high', 'critical'].includes(properties.priority as string)) {
+    issues.push({ path: `${path}.priority`, message: 'must be low, medium, high or critical' })
+  }
+  if (properties.status !== undefined && !['open', 'in-progress', 'verified', 'closed'].includes(properties.status as string)) {
+    issues.push({ path: `${path}.status`, message: 'must be open, in-progress, verified or closed' })
+  }
+}
+
+function checkTiming(properties: Record<string, unknown>, path: string, issues: SchemaIssue[]): void {
+  for (const field of ['startTime', 'endTime']) {
+    const value = properties[field]
+    if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+      issues.push({ path: `${path}.${field}`, message: 'must be an ISO timestamp' })
+    }
+  }
+  if (properties.sequence !== undefined && typeof properties.sequence !== 'number') {
+    issues.push({ path: `${path}.sequence`, message: 'must be a number' })
+  }
+}
+
+function checkPosition(value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (!isObject(value) || !Number.isFinite(value.x) || !Number.isFinite(value.y)) {
+    issues.push({ path, message: 'must be an object with numeric x and y' })
+  }
+}
+
+function checkEvidence(value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (!checkArray(value, path, issues)) return
+  value.forEach((item, i) => {
+    const itemPath = `${path}.${i}`
+    if (!isObject(item)) {
+      issues.push({ path: itemPath, message: 'must be an object' })
+      return
+    }
+    checkString(item.id, `${itemPath}.id`, issues)
+    if (!['interview', 'log', 'photo', 'sensor', 'document', 'other'].includes(item.type as string)) {
+      issues.push({ path: `${itemPath}.type`, message: 'must be interview, log, photo, sensor, document or other' })
+    }
+    checkString(item.source, `${itemPath}.source`, issues)
+    if (!['low', 'medium', 'high'].includes(item.confidence as string)) {
+      issues.push({ path: `${itemPath}.confidence`, message: 'must be low, medium or high' })
+    }
+    checkString(item.excerpt, `${itemPath}.excerpt`, issues, true)
+    checkString(item.addedBy, `${itemPath}.addedBy`, issues, true)
+    checkString(item.addedAt, `${itemPath}.addedAt`, issues)
+    if (item.attachment !== undefined) {
+      if (!isObject(item.attachment)) {
+        issues.push({ path: `${itemPath}.attachment`, message: 'must be an object' })
+      } else {
+        checkString(item.attachment.blobId, `${itemPath}.attachment.blobId`, issues)
+        checkString(item.attachment.fileName, `${itemPath}.attachment.fileName`, issues)
+      }
+    }
+  })
+}
+
+/**
+ * Nodes and edges shared by diagrams and flows: unique ids, and every edge
+ * connecting two nodes of the same graph
+ */
+function checkGraph(
+  content: Record<string, unknown>,
+  issues: SchemaIssue[],
+  checkNode?: (node: Record<string, unknown>, path: string) => void
+): void {
+  const nodeIds = new Set<unknown>()
+
+  if (checkArray(content.nodes, 'content.nodes', issues)) {
+    content.nodes.forEach((node, i) => {
+      const path = `content.nodes.${i}`
+      if (!isObject(node)) {
+        issues.push({ path, message: 'must be an object' })
+        return
+      }
+      checkString(node.id, `${path}.id`, issues)
+      checkString(node.type, `${path}.type`, issues)
+      checkString(node.label, `${path}.label`, issues)
+      if (!isObject(node.properties)) issues.push({ path: `${path}.properties`, message: 'must be an object' })
+      if (nodeIds.has(node.id)) issues.push({ path: `${path}.id`, message: `duplicates node id "${String(node.id)}"` })
+      nodeIds.add(node.id)
+      checkNode?.(node, path)
+    })
+  }
+
+  if (checkArray(content.edges, 'content.edges', issues)) {
+    const edgeIds = new Set<unknown>()
+    content.edges.forEach((edge, i) => {
+      const path = `content.edges.${i}`
+      if (!isObject(edge)) {
+        issues.push({ path, message: 'must be an object' })
+        return
+      }
+      checkString(edge.id, `${path}.id`, issues)
+      checkString(edge.type, `${path}.type`, issues, true)
+      if (edge.properties !== undefined && !isObject(edge.properties)) {
+        issues.push({ path: `${path}.properties`, message: 'must be an object' })
+      }
+      if (edgeIds.has(edge.id)) issues.push({ path: `${path}.id`, message: `duplicates edge id "${String(edge.id)}"` })
+      edgeIds.add(edge.id)
+      for (const end of ['source', 'target'] as const) {
+        if (!nodeIds.has(edge[end])) {
+          issues.push({ path: `${path}.${end}`, message: `points to missing node "${String(edge[end])}"` })
+        }
+      }
+    })
+  }
+}
+
+registerSchema('Diagram', {
+  version: 2,
+  validate: (doc) => {
+    const issues: SchemaIssue[] = []
+    checkGraph(doc.content, issues, (node, path) => {
+      const properties = node.properties as Record<string, unknown> | undefined
+      if (properties?.isRoot !== undefined && typeof properties.isRoot !== 'boolean') {
+        issues.push({ path: `${path}.properties.isRoot`, message: 'must be a boolean' })
+      }
+      checkString(properties?.subDiagramId, `${path}.properties.subDiagramId`, issues, true)
+      if (properties?.factorsComplete !== undefined) {
+        checkSufficiency(properties.factorsComplete, `${path}.properties.factorsComplete`, issues)
+      }
+      if (node.type === 'ActionItem' && properties) checkActionItem(properties, `${path}.properties`, issues)
+      if (properties) checkTiming(properties, `${path}.properties`, issues)
+      if (properties?.evidence !== undefined) checkEvidence(properties.evidence, `${path}.properties.evidence`, issues)
+      if (properties?.position !== undefined) checkPosition(properties.position, `${path}.properties.position`, issues)
+    })
+    if (Array.isArray(doc.content.edges)) {
+      doc.content.edges.forEach((edge: { properties?: Record<string, unknown> }, i: number) => {
+        const check = edge?.properties?.counterfactual
+        if (check !== undefined) checkCounterfactual(check, `content.edges.${i}.properties.counterfactual`, issues)
+      })
+    }
+    return issues
+  },
+})
+
+registerSchema('Flow', {
+  version: 1,
+  validate: (doc) => {
+    const issues: SchemaIssue[] = []
+    checkGraph(doc.content, issues, (node, path) => {
+      checkString(node.agentId, `${path}.agentId`, issues, true)
+    })
+    return issues
+  },
+})
+
+registerSchema('Agent', {
+  version: 1,
+  validate: (doc) => {
+    const issues: SchemaIssue[] = []
+    checkString(doc.content.promptTemplate, 'content.promptTemplate', issues)
+    return issues
+  },
+})
+
+registerSchema('Project', {
+  version: 1,
+  validate: (doc) => {
+    const issues: SchemaIssue[] = []
+    checkString(doc.content.name, 'content.name', issues)
+    checkDocRefs(doc.content.documents, 'content.documents', issues)
+    const { llmSettings } = doc.content
+    if (llmSettings !== undefined) {
+      if (!isObject(llmSettings)) {
+        issues.push({ path: 'content.llmSettings', message: 'must be an object' })
+      } else {
+        checkString(llmSettings.provider, 'content.llmSettings.provider', issues)
+      }
+    }
+    const { reportTemplate } = doc.content
+    if (reportTemplate !== undefined) {
+      if (!isObject(reportTemplate)) {
+        issues.push({ path: 'content.reportTemplate', message: 'must be an object' })
+      } else {
+        checkString(reportTemplate.title, 'content.reportTemplate.title', issues)
+        checkString(reportTemplate.preamble, 'content.reportTemplate.preamble', issues, true)
+        checkString(reportTemplate.summaryAgentId, 'content.reportTemplate.summaryAgentId', issues, true)
+        if (checkArray(reportTemplate.sections, 'content.reportTemplate.sections', issues)) {
+          reportTemplate.sections.forEach((section, i) => {
+            if (!['summary', 'factors', 'counterfactuals', 'rootCauses', 'actionItems', 'graph'].includes(section as string)) {
+              issues.push({ path: `content.reportTemplate.sections.${i}`, message: `unknown report section "${String(section)}"` })
+            }
+          })
+        }
+      }
+    }
+    const { lintRules } = doc.content
+    if (lintRules !== undefined) {
+      if (!isObject(lintRules)) {
+        issues.push({ path: 'content.lintRules', message: 'must be an object' })
+      } else {
+        for (const [ruleId, setting] of Object.entries(lintRules)) {
+          if (!['error', 'warning', 'info', 'off'].includes(setting as string)) {
+            issues.push({ path: `content.lintRules.${ruleId}`, message: 'must be error, warning, info or off' })
+          }
+        }
+      }
+    }
+    return issues
+  },
+})
+
+registerSchema('Transcript', {
+  version: 1,
+  validate: (doc) => {
+    const issues: SchemaIssue[] = []
+    checkString(doc.content.flowId, 'content.flowId', issues)
+    checkString(doc.content.startedAt, 'content.startedAt', issues)
+    if (checkArray(doc.content.entries, 'content.entries', issues)) {
+      doc.content.entries.forEach((entry: unknown, i: number) => checkString(entry, `content.entries.${i}`, issues))
+    }
+    return issues
+  },
+})
+
+registerSchema('User', {
+  version: 1,
+  validate: (doc) => {
+    const issues: SchemaIssue[] = []
+    checkString(doc.content.userId, 'content.userId', issues)
+    checkString(doc.content.email, 'content.email', issues)
+    checkString(doc.content.displayName, 'content.displayName', issues, true)
+    if (checkArray(doc.content.projects, 'content.projects', issues)) {
+      doc.content.projects.forEach((id: unknown, i: number) => checkString(id, `content.projects.${i}`, issues))
+    }
+    return issues
+  },
+})
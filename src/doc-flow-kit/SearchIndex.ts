@@ -0,0 +1,265 @@
+import { AgentDoc, BaseDocument, GraphNode, TranscriptDoc } from './types'
+import { DocFlowKit, docFlowKit } from './DocFlowKit'
+
+/**
+ * Where in a document a piece of indexed text came from
+ */
+export type SearchField = 'title' | 'node' | 'property' | 'prompt' | 'transcript'
+
+export interface SearchOptions {
+  docType?: string
+  projectId?: string
+  limit?: number    // Defaults to 20
+}
+
+/**
+ * One place in one document that matches every search term
+ */
+export interface SearchResult {
+  docId: string
+  docType: string
+  title: string
+  projectIds: string[]
+  field: SearchField
+  nodeId?: string      // Set for node labels and node properties
+  snippet: string
+  score: number
+}
+
+/**
+ * A piece of text from a document, the unit that gets matched and ranked
+ */
+interface IndexEntry {
+  docId: string
+  field: SearchField
+  nodeId?: string
+  text: string
+  tokens: Map<string, number>   // token -> occurrences
+}
+
+// Titles and node labels are what people usually remember
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  node: 2,
+  property: 1,
+  prompt: 1,
+  transcript: 1,
+}
+
+const SNIPPET_RADIUS = 40
+
+/**
+ * Splits text into lowercase words of two or more letters or digits
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((token) => token.length > 1)
+}
+
+/**
+ * In-memory full-text index over the documents in a DocFlowKit. Each
+ * project's documents are loaded the first time a search covers it, and
+ * kept current through change subscriptions. User documents and trashed
+ * documents are never indexed.
+ */
+export class SearchIndex {
+  private readonly kit: DocFlowKit
+  private readonly entries = new Map<string, IndexEntry[]>()   // docId -> entries
+  private readonly docs = new Map<string, BaseDocument>()
+  private readonly postings = new Map<string, Set<IndexEntry>>() // token -> entries
+  private readonly loadedProjects = new Map<string, Promise<void>>()
+  private unsubscribe: (() => void) | null = null
+
+  constructor(kit: DocFlowKit = docFlowKit) {
+    this.kit = kit
+  }
+
+  /**
+   * Finds the places that contain every word of the query (the last word
+   * may be a prefix), best matches first
+   * @param projectIds Projects to search, normally the current user's;
+   *   nothing outside them is returned
+   */
+  public async search(query: string, projectIds: string[], options: SearchOptions = {}): Promise<SearchResult[]> {
+    await this.loadProjects(projectIds)
+    const terms = tokenize(query)
+    if (terms.length === 0) return []
+
+    // Entries containing each term; the last term also matches as a prefix while typing
+    const matchesPerTerm = terms.map((term, i) => this.entriesFor(term, i === terms.length - 1))
+    const [first, ...rest] = matchesPerTerm
+    const results: SearchResult[] = []
+
+    for (const [entry, firstCount] of first) {
+      if (!rest.every((matches) => matches.has(entry))) continue
+      const doc = this.docs.get(entry.docId)
+      if (!doc || !isInProjects(doc, projectIds)) continue
+      if (options.docType && doc.docType !== options.docType) continue
+      if (options.projectId && !doc.projectIds?.includes(options.projectId)) continue
+
+      const occurrences = firstCount + rest.reduce((sum, matches) => sum + matches.get(entry)!, 0)
+      results.push({
+        docId: doc.docId,
+        docType: doc.docType,
+        title: doc.title,
+        projectIds: doc.projectIds ?? [],
+        field: entry.field,
+        nodeId: entry.nodeId,
+        snippet: makeSnippet(entry.text, terms),
+        // Diminishing returns for repeats, so long transcripts don't swamp titles
+        score: FIELD_WEIGHTS[entry.field] * (1 + Math.log(occurrences)),
+      })
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+      .slice(0, options.limit ?? 20)
+  }
+
+  /**
+   * Adds or replaces a document in the index
+   */
+  public indexDocument(doc: BaseDocument): void {
+    this.removeDocument(doc.docId)
+    if (doc.docType === 'User' || doc.deletedAt) return
+
+    const entries = extractText(doc)
+      .filter(({ text }) => text.trim().length > 0)
+      .map(({ field, nodeId, text }): IndexEntry => {
+        const tokens = new Map<string, number>()
+        for (const token of tokenize(text)) tokens.set(token, (tokens.get(token) ?? 0) + 1)
+        return { docId: doc.docId, field, nodeId, text, tokens }
+      })
+
+    for (const entry of entries) {
+      for (const token of entry.tokens.keys()) {
+        if (!this.postings.has(token)) this.postings.set(token, new Set())
+        this.postings.get(token)!.add(entry)
+      }
+    }
+    this.entries.set(doc.docId, entries)
+    this.docs.set(doc.docId, doc)
+  }
+
+  public removeDocument(docId: string): void {
+    for (const entry of this.entries.get(docId) ?? []) {
+      for (const token of entry.tokens.keys()) {
+        const posting = this.postings.get(token)
+        posting?.delete(entry)
+        if (posting?.size === 0) this.postings.delete(token)
+      }
+    }
+    this.entries.delete(docId)
+    this.docs.delete(docId)
+  }
+
+  private async loadProjects(projectIds: string[]): Promise<void> {
+    // Subscribe first so nothing written during a load is missed
+    this.unsubscribe ??= this.kit.subscribe({}, (event) => {
+      if (event.type === 'delete') {
+        this.removeDocument(event.docId)
+      } else if (this.docs.has(event.docId) || isInProjects(event.document, [...this.loadedProjects.keys()])) {
+        this.indexDocument(event.document)
+      }
+    })
+
+    for (const projectId of projectIds) {
+      if (this.loadedProjects.has(projectId)) continue
+      const loading = Promise.all([
+        this.kit.getDocument(projectId),
+        this.kit.queryDocuments({ where: { projectId } }),
+      ]).then(
+        ([project, { documents }]) => {
+          for (const doc of project ? [project, ...documents] : documents) {
+            if (!this.docs.has(doc.docId)) this.indexDocument(doc)
+          }
+        },
+        (err) => {
+          // Let the next search try again
+          this.loadedProjects.delete(projectId)
+          throw err
+        }
+      )
+      this.loadedProjects.set(projectId, loading)
+    }
+    await Promise.all(projectIds.map((projectId) => this.loadedProjects.get(projectId)))
+  }
+
+  /**
+   * Entries containing a term, with how often it occurs in each
+   */
+  private entriesFor(term: string, allowPrefix: boolean): Map<IndexEntry, number> {
+    const matches = new Map<IndexEntry, number>()
+    const add = (token: string) => {
+      for (const entry of this.postings.get(token) ?? []) {
+        matches.set(entry, (matches.get(entry) ?? 0) + entry.tokens.get(token)!)
+      }
+    }
+
+    if (allowPrefix) {
+      for (const token of this.postings.keys()) {
+        if (token.startsWith(term)) add(token)
+      }
+    } else {
+      add(term)
+    }
+    return matches
+  }
+}
+
+/**
+ * Whether a document is one of the projects or belongs to one of them
+ */
+function isInProjects(doc: BaseDocument, projectIds: string[]): boolean {
+  return projectIds.includes(doc.docId) || (doc.projectIds ?? []).some((id) => projectIds.includes(id))
+}
+
+/**
+ * The searchable pieces of text in a document
+ */
+function extractText(doc: BaseDocument): { field: SearchField; nodeId?: string; text: string }[] {
+  const pieces: { field: SearchField; nodeId?: string; text: string }[] = [{ field: 'title', text: doc.title }]
+
+  switch (doc.docType) {
+    case 'Diagram':
+    case 'Flow':
+      for (const node of (doc.content.nodes ?? []) as GraphNode[]) {
+        pieces.push({ field: 'node', nodeId: node.id, text: node.label })
+        const values = Object.values(node.properties ?? {}).map(propertyText).filter(Boolean)
+        if (values.length > 0) {
+          pieces.push({ field: 'property', nodeId: node.id, text: values.join(' · ') })
+        }
+      }
+      break
+    case 'Agent':
+      pieces.push({ field: 'prompt', text: (doc as AgentDoc).content.promptTemplate })
+      break
+    case 'Transcript':
+      pieces.push({ field: 'transcript', text: (doc as TranscriptDoc).content.entries.join('\n') })
+      break
+  }
+  return pieces
+}
+
+function propertyText(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (value && typeof value === 'object') return Object.values(value).map(propertyText).filter(Boolean).join(' ')
+  return ''
+}
+
+/**
+ * A short excerpt around the first occurrence of any of the terms
+ */
+function makeSnippet(text: string, terms: string[]): string {
+  const lower = text.toLowerCase()
+  const positions = terms.map((term) => lower.indexOf(term)).filter((pos) => pos >= 0)
+  const hit = positions.length > 0 ? Math.min(...positions) : 0
+
+  const start = Math.max(0, hit - SNIPPET_RADIUS)
+  const end = Math.min(text.length, hit + SNIPPET_RADIUS * 2)
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim()
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`
+}
+
+// Shared index for the app's DocFlowKit instance
+export const searchIndex = new SearchIndex()
@@ -0,0 +1,138 @@
+import { BaseDocument, DiagramDoc, DocRef, GraphEdge, GraphNode, NodeBasedContent, ProjectDoc } from './types'
+import { docFlowKit } from './DocFlowKit'
+import { isCausalEdge } from './Counterfactual'
+
+/**
+ * Deepest level of sub-diagrams flattenDiagram() descends into
+ */
+const MAX_FLATTEN_DEPTH = 10
+
+export function getSubDiagramId(node: GraphNode): string | undefined {
+  return node.properties?.subDiagramId as string | undefined
+}
+
+export function setSubDiagramId(node: GraphNode, subDiagramId: string | undefined): GraphNode {
+  const properties: Record<string, unknown> = { ...node.properties, subDiagramId }
+  if (!subDiagramId) delete properties.subDiagramId
+  return { ...node, properties }
+}
+
+/**
+ * The references a diagram should have for its nodes: one DocRef per
+ * sub-diagram, plus whatever non-diagram references it already had
+ */
+export function withSubDiagramReferences(references: DocRef[] = [], nodes: GraphNode[]): DocRef[] {
+  const subDiagramIds = [...new Set(nodes.map(getSubDiagramId).filter((id): id is string => !!id))]
+  return [
+    ...references.filter((ref) => ref.docType !== 'Diagram'),
+    ...subDiagramIds.map((docId) => references.find((ref) => ref.docId === docId) ?? { docId, docType: 'Diagram' }),
+  ]
+}
+
+/**
+ * Creates an empty diagram that breaks a node down, in the same projects as
+ * its parent. The caller links it by setting the node's subDiagramId.
+ */
+export async function createSubDiagram(parent: DiagramDoc, node: GraphNode): Promise<DiagramDoc> {
+  const child: DiagramDoc = {
+    docId: crypto.randomUUID(),
+    docType: 'Diagram',
+    title: node.label || `${parent.title} detail`,
+    projectIds: parent.projectIds,
+    content: { nodes: [], edges: [] },
+  }
+  await docFlowKit.createDocument(child)
+
+  for (const projectId of parent.projectIds ?? []) {
+    const project = await docFlowKit.getDocument(projectId) as ProjectDoc | null
+    if (!project) continue
+    project.content.documents = [
+      ...project.content.documents,
+      { docId: child.docId, docType: 'Diagram', title: child.title },
+    ]
+    await docFlowKit.updateDocument(project)
+  }
+  return child
+}
+
+/**
+ * The chain of diagrams that break down into this one, outermost first.
+ * A diagram used by several parents follows the first one found.
+ */
+export async function getDiagramAncestors(docId: string): Promise<DiagramDoc[]> {
+  const ancestors: DiagramDoc[] = []
+  const seen = new Set([docId])
+  let currentId = docId
+
+  for (;;) {
+    const referrers = await docFlowKit.findReferrers(currentId)
+    const parent = referrers.find(
+      (doc): doc is DiagramDoc =>
+        doc.docType === 'Diagram' && !doc.deletedAt && (doc as DiagramDoc).content.nodes.some((n) => getSubDiagramId(n) === currentId)
+    )
+    if (!parent || seen.has(parent.docId)) break
+    seen.add(parent.docId)
+    ancestors.unshift(parent)
+    currentId = parent.docId
+  }
+  return ancestors
+}
+
+/**
+ * Merges a diagram and all its sub-diagrams into one graph. Each
+ * sub-diagram's nodes are added with ids prefixed by the node they break
+ * down (`<nodeId>/<childNodeId>`), and its final effects become causes of
+ * that node, since the sub-diagram explains how the node came about.
+ * @param load Loads a diagram by id; defaults to DocFlowKit
+ */
+export async function flattenDiagram(
+  doc: DiagramDoc,
+  load: (docId: string) => Promise<BaseDocument | null> = (docId) => docFlowKit.getDocument(docId)
+): Promise<NodeBasedContent> {
+  const nodes: GraphNode[] = []
+  const edges: GraphEdge[] = []
+
+  async function addGraph(content: NodeBasedContent, prefix: string, trail: string[]): Promise<void> {
+    const id = (nodeId: string) => prefix + nodeId
+    for (const node of content.nodes) {
+      nodes.push({
+        ...node,
+        id: id(node.id),
+        properties: { ...node.properties, ...(trail.length > 1 ? { flattenedFrom: trail.slice(1) } : {}) },
+      })
+    }
+    for (const edge of content.edges) {
+      edges.push({ ...edge, id: id(edge.id), source: id(edge.source), target: id(edge.target) })
+    }
+
+    if (trail.length > MAX_FLATTEN_DEPTH) return
+    for (const node of content.nodes) {
+      const subDiagramId = getSubDiagramId(node)
+      if (!subDiagramId || trail.includes(subDiagramId)) continue
+      const child = await load(subDiagramId) as DiagramDoc | null
+      if (!child || child.docType !== 'Diagram') continue
+
+      const childPrefix = `${id(node.id)}/`
+      await addGraph(child.content, childPrefix, [...trail, subDiagramId])
+      for (const effectId of finalEffects(child.content)) {
+        edges.push({
+          id: `${childPrefix}${effectId}->${node.id}`,
+          source: childPrefix + effectId,
+          target: id(node.id),
+          type: 'causal',
+        })
+      }
+    }
+  }
+
+  await addGraph(doc.content, '', [doc.docId])
+  return { nodes, edges }
+}
+
+/**
+ * Nodes that cause nothing else in their graph
+ */
+function finalEffects({ nodes, edges }: NodeBasedContent): string[] {
+  const causes = new Set(edges.filter(isCausalEdge).map((e) => e.source))
+  return nodes.filter((n) => n.type !== 'ActionItem' && !causes.has(n.id)).map((n) => n.id)
+}
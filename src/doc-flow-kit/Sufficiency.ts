@@ -0,0 +1,99 @@
+import { CausalNodeProperties, GraphEdge, GraphNode, NodeBasedContent, SufficiencyAssertion } from './types'
+import { getCounterfactualStatus, isCausalEdge } from './Counterfactual'
+
+/**
+ * Why a node fails the Causal Sufficiency Test:
+ * - unconfirmed: it has causes, but nobody has asserted they are complete
+ * - stale: its causes changed after the assertion was made
+ * - uncaused: an Event or State with no causes that isn't marked as a root
+ */
+export type SufficiencyProblem = 'unconfirmed' | 'stale' | 'uncaused'
+
+export interface SufficiencyFinding {
+  nodeId: string
+  problem: SufficiencyProblem
+  message: string
+}
+
+// Node types that must be explained by causes unless marked as a root
+const TYPES_NEEDING_CAUSES = ['Event', 'State']
+
+// Node types that aren't causal factors, so the test doesn't apply
+const EXEMPT_TYPES = ['ActionItem', 'Assumption']
+
+export function getNodeProperties(node: GraphNode): CausalNodeProperties {
+  return (node.properties ?? {}) as CausalNodeProperties
+}
+
+/**
+ * The necessary causal factors of a node: sources of causal edges into it,
+ * leaving out edges that failed the Counterfactual Test
+ */
+export function getCauseIds(nodeId: string, edges: GraphEdge[]): string[] {
+  return edges
+    .filter((e) => e.target === nodeId && isCausalEdge(e) && getCounterfactualStatus(e) !== 'fail')
+    .map((e) => e.source)
+}
+
+/**
+ * Returns a copy of the node asserting that its current causes are sufficient
+ */
+export function confirmFactorsComplete(
+  node: GraphNode,
+  edges: GraphEdge[],
+  confirmedBy?: string,
+  note?: string
+): GraphNode {
+  const factorsComplete: SufficiencyAssertion = {
+    causeIds: getCauseIds(node.id, edges).sort(),
+    note,
+    confirmedBy,
+    confirmedAt: new Date().toISOString(),
+  }
+  return { ...node, properties: { ...node.properties, factorsComplete } }
+}
+
+export function clearFactorsComplete(node: GraphNode): GraphNode {
+  const properties = { ...node.properties }
+  delete properties.factorsComplete
+  return { ...node, properties }
+}
+
+/**
+ * Lists every node whose causes haven't been confirmed as sufficient
+ */
+export function checkSufficiency({ nodes, edges }: NodeBasedContent): SufficiencyFinding[] {
+  const findings: SufficiencyFinding[] = []
+
+  for (const node of nodes) {
+    if (EXEMPT_TYPES.includes(node.type)) continue
+    const { factorsComplete, isRoot } = getNodeProperties(node)
+    const causeIds = getCauseIds(node.id, edges).sort()
+
+    if (causeIds.length === 0) {
+      if (TYPES_NEEDING_CAUSES.includes(node.type) && !isRoot) {
+        findings.push({
+          nodeId: node.id,
+          problem: 'uncaused',
+          message: `${node.type} "${node.label}" has no causes. Add its causes, or mark it as a root.`,
+        })
+      }
+      continue
+    }
+
+    if (!factorsComplete) {
+      findings.push({
+        nodeId: node.id,
+        problem: 'unconfirmed',
+        message: `The ${causeIds.length} cause(s) of "${node.label}" have not been confirmed as sufficient.`,
+      })
+    } else if (factorsComplete.causeIds.join() !== causeIds.join()) {
+      findings.push({
+        nodeId: node.id,
+        problem: 'stale',
+        message: `The causes of "${node.label}" changed after they were confirmed as sufficient.`,
+      })
+    }
+  }
+  return findings
+}
@@ -0,0 +1,49 @@
+import { NodeBasedContent } from './types'
+import { SufficiencyProblem, checkSufficiency } from './Sufficiency'
+
+interface SufficiencyPanelProps {
+  content: NodeBasedContent
+  onSelectNode: (nodeId: string) => void
+}
+
+const PROBLEM_COLORS: Record<SufficiencyProblem, string> = {
+  unconfirmed: '#FF9800',
+  stale: '#FF9800',
+  uncaused: '#f44336',
+}
+
+/**
+ * Lists the nodes that fail the Causal Sufficiency Test, with a link to each
+ */
+export function SufficiencyPanel({ content, onSelectNode }: SufficiencyPanelProps) {
+  const findings = checkSufficiency(content)
+
+  return (
+    <div style={{ border: '1px solid #ddd', padding: '0.75rem', borderRadius: '4px', marginBottom: '1rem' }}>
+      <h4 style={{ margin: 0 }}>Causal Sufficiency</h4>
+      {findings.length === 0 ? (
+        <p style={{ color: '#4CAF50' }}>Every node's causes are confirmed as sufficient.</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0 }}>
+          {findings.map((finding) => (
+            <li
+              key={finding.nodeId}
+              style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', padding: '0.3rem 0', borderBottom: '1px solid #f0f0f0' }}
+            >
+              <span style={{ color: PROBLEM_COLORS[finding.problem], fontWeight: 'bold', minWidth: '6rem' }}>
+                {finding.problem}
+              </span>
+              <span style={{ flexGrow: 1 }}>{finding.message}</span>
+              <button
+                onClick={() => onSelectNode(finding.nodeId)}
+                style={{ padding: '0.2rem 0.5rem', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}
+              >
+                Show
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import { GraphNode, NodeBasedContent, TemporalNodeProperties } from './types'
+import { getCounterfactualStatus, isCausalEdge } from './Counterfactual'
+
+/**
+ * Node types that happen at a point or over a span of time
+ */
+export const TIMED_NODE_TYPES = ['Event', 'UnEvent', 'State', 'Process']
+
+export interface TimelineEntry {
+  node: GraphNode
+  start?: number   // ms since the epoch
+  end?: number
+  sequence?: number
+}
+
+export interface TemporalIssue {
+  message: string
+  nodeIds: string[]
+  edgeId?: string
+}
+
+export function getTiming(node: GraphNode): TemporalNodeProperties {
+  const { startTime, endTime, sequence } = (node.properties ?? {}) as TemporalNodeProperties
+  return { startTime, endTime, sequence }
+}
+
+/**
+ * Returns a copy of the node with the given timing fields changed;
+ * fields set to undefined are removed
+ */
+export function setTiming(node: GraphNode, changes: Partial<TemporalNodeProperties>): GraphNode {
+  const properties: Record<string, unknown> = { ...node.properties, ...changes }
+  for (const key of Object.keys(changes)) {
+    if (properties[key] === undefined) delete properties[key]
+  }
+  return { ...node, properties }
+}
+
+function toEntry(node: GraphNode): TimelineEntry {
+  const { startTime, endTime, sequence } = getTiming(node)
+  return {
+    node,
+    start: startTime ? Date.parse(startTime) : undefined,
+    end: endTime ? Date.parse(endTime) : undefined,
+    sequence,
+  }
+}
+
+/**
+ * The timed nodes in chronological order: nodes with a start time by time,
+ * then nodes with only a relative sequence. Nodes with neither are left out.
+ */
+export function buildTimeline({ nodes }: NodeBasedContent): TimelineEntry[] {
+  const entries = nodes
+    .filter((n) => TIMED_NODE_TYPES.includes(n.type))
+    .map(toEntry)
+    .filter((e) => e.start !== undefined || e.sequence !== undefined)
+
+  const timed = entries.filter((e) => e.start !== undefined).sort((a, b) => a.start! - b.start!)
+  const sequenced = entries.filter((e) => e.start === undefined).sort((a, b) => a.sequence! - b.sequence!)
+  return [...timed, ...sequenced]
+}
+
+/**
+ * Finds spans that end before they start, and causes that begin after their
+ * effect. Causes are compared by start time when both nodes have one, and
+ * otherwise by sequence.
+ */
+export function checkTemporalConsistency({ nodes, edges }: NodeBasedContent): TemporalIssue[] {
+  const issues: TemporalIssue[] = []
+  const entries = new Map(nodes.map((n) => [n.id, toEntry(n)]))
+
+  for (const entry of entries.values()) {
+    if (entry.start !== undefined && entry.end !== undefined && entry.end < entry.start) {
+      issues.push({ message: `"${entry.node.label}" ends before it starts.`, nodeIds: [entry.node.id] })
+    }
+  }
+
+  for (const edge of edges) {
+    if (!isCausalEdge(edge) || getCounterfactualStatus(edge) === 'fail') continue
+    const cause = entries.get(edge.source)
+    const effect = entries.get(edge.target)
+    if (!cause || !effect) continue
+
+    const byTime = cause.start !== undefined && effect.start !== undefined
+    const causeIsLater = byTime
+      ? cause.start! > effect.start!
+      : cause.sequence !== undefined && effect.sequence !== undefined && cause.sequence > effect.sequence
+    if (causeIsLater) {
+      issues.push({
+        message: `Cause "${cause.node.label}" ${byTime ? 'starts' : 'is sequenced'} after its effect "${effect.node.label}".`,
+        nodeIds: [cause.node.id, effect.node.id],
+        edgeId: edge.id,
+      })
+    }
+  }
+  return issues
+}
+
+/**
+ * Converts an ISO timestamp to the local time a datetime-local input shows
+ */
+export function toDateTimeInput(iso?: string): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export function fromDateTimeInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined
+}
@@ -0,0 +1,122 @@
+import { GraphEdge, GraphNode } from './types'
+import { buildTimeline, checkTemporalConsistency } from './Timeline'
+
+interface TimelineViewProps {
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  onSelectNode: (nodeId: string) => void
+}
+
+const TYPE_COLORS: Record<string, string> = {
+  Event: '#2196F3',
+  UnEvent: '#9E9E9E',
+  State: '#4CAF50',
+  Process: '#FF9800',
+}
+
+const WIDTH = 800
+const LABEL_WIDTH = 180
+const ROW_HEIGHT = 26
+const AXIS_HEIGHT = 30
+const TICKS = 5
+
+/**
+ * Lays out the timed nodes of a diagram chronologically. Nodes involved in a
+ * temporal inconsistency are outlined in red.
+ */
+export function TimelineView({ nodes, edges, onSelectNode }: TimelineViewProps) {
+  const entries = buildTimeline({ nodes, edges })
+  const issues = checkTemporalConsistency({ nodes, edges })
+  const flagged = new Set(issues.flatMap((issue) => issue.nodeIds))
+
+  const timed = entries.filter((e) => e.start !== undefined)
+  const sequenced = entries.filter((e) => e.start === undefined)
+
+  const min = Math.min(...timed.map((e) => e.start!))
+  const max = Math.max(...timed.map((e) => Math.max(e.start!, e.end ?? e.start!)))
+  const span = max - min || 1
+  const x = (time: number) => LABEL_WIDTH + ((time - min) / span) * (WIDTH - LABEL_WIDTH - 20)
+  const height = AXIS_HEIGHT + timed.length * ROW_HEIGHT + 10
+
+  return (
+    <div style={{ border: '1px solid #ddd', padding: '0.75rem', borderRadius: '4px', marginBottom: '1rem' }}>
+      <h4 style={{ margin: 0 }}>Timeline</h4>
+
+      {entries.length === 0 && (
+        <p style={{ color: '#666' }}>
+          No node has a start time or order yet. Add them to Event, UnEvent, State and Process nodes.
+        </p>
+      )}
+
+      {timed.length > 0 && (
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} style={{ width: '100%', fontFamily: 'sans-serif', fontSize: '11px' }}>
+          {Array.from({ length: TICKS }, (_, i) => {
+            const time = min + (span * i) / (TICKS - 1)
+            return (
+              <g key={i}>
+                <line x1={x(time)} x2={x(time)} y1={AXIS_HEIGHT - 6} y2={height} stroke="#eee" />
+                <text x={x(time)} y={AXIS_HEIGHT - 10} textAnchor="middle" fill="#666">
+                  {new Date(time).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })}
+                </text>
+              </g>
+            )
+          })}
+          {timed.map((entry, i) => {
+            const y = AXIS_HEIGHT + i * ROW_HEIGHT
+            const color = TYPE_COLORS[entry.node.type] ?? '#607D8B'
+            const outline = flagged.has(entry.node.id) ? '#f44336' : 'none'
+            return (
+              <g key={entry.node.id} onClick={() => onSelectNode(entry.node.id)} style={{ cursor: 'pointer' }}>
+                <title>{`${entry.node.type}: ${entry.node.label}`}</title>
+                <text x={LABEL_WIDTH - 8} y={y + ROW_HEIGHT / 2 + 4} textAnchor="end" fill={flagged.has(entry.node.id) ? '#f44336' : '#333'}>
+                  {entry.node.label.length > 28 ? `${entry.node.label.slice(0, 27)}…` : entry.node.label}
+                </text>
+                {entry.end !== undefined && entry.end > entry.start! ? (
+                  <rect
+                    x={x(entry.start!)}
+                    y={y + 5}
+                    width={Math.max(x(entry.end) - x(entry.start!), 2)}
+                    height={ROW_HEIGHT - 10}
+                    rx={3}
+                    fill={color}
+                    stroke={outline}
+                    strokeWidth={2}
+                  />
+                ) : (
+                  <circle cx={x(entry.start!)} cy={y + ROW_HEIGHT / 2} r={6} fill={color} stroke={outline} strokeWidth={2} />
+                )}
+              </g>
+            )
+          })}
+        </svg>
+      )}
+
+      {sequenced.length > 0 && (
+        <>
+          <h5 style={{ marginBottom: '0.3rem' }}>Relative order (no times)</h5>
+          <ol style={{ marginTop: 0 }}>
+            {sequenced.map((entry) => (
+              <li key={entry.node.id}>
+                <button
+                  onClick={() => onSelectNode(entry.node.id)}
+                  style={{ padding: 0, background: 'none', border: 'none', cursor: 'pointer', textDecoration: 'underline', color: flagged.has(entry.node.id) ? '#f44336' : '#2196F3' }}
+                >
+                  {entry.node.label}
+                </button>{' '}
+                <span style={{ color: '#999' }}>({entry.node.type}, order {entry.sequence})</span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {issues.length > 0 && (
+        <ul style={{ color: '#f44336', paddingLeft: '1.2rem' }}>
+          {issues.map((issue, i) => (
+            <li key={issue.edgeId ?? i}>{issue.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { GraphNode } from './types'
+import { fromDateTimeInput, getTiming, setTiming, toDateTimeInput } from './Timeline'
+
+interface TimingFieldsProps {
+  node: GraphNode
+  onChange: (node: GraphNode) => void
+}
+
+/**
+ * Start, end and relative order of a timed node
+ */
+export function TimingFields({ node, onChange }: TimingFieldsProps) {
+  const { startTime, endTime, sequence } = getTiming(node)
+
+  return (
+    <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', margin: '0.3rem 0 0 1rem', fontSize: '0.9rem' }}>
+      <label>
+        Start:{' '}
+        <input
+          type="datetime-local"
+          value={toDateTimeInput(startTime)}
+          onChange={(e) => onChange(setTiming(node, { startTime: fromDateTimeInput(e.target.value) }))}
+          style={{ padding: '0.2rem' }}
+        />
+      </label>
+      <label>
+        End:{' '}
+        <input
+          type="datetime-local"
+          value={toDateTimeInput(endTime)}
+          onChange={(e) => onChange(setTiming(node, { endTime: fromDateTimeInput(e.target.value) }))}
+          style={{ padding: '0.2rem' }}
+        />
+      </label>
+      <label title="Orders nodes whose times aren't known, lowest first">
+        Order:{' '}
+        <input
+          type="number"
+          value={sequence ?? ''}
+          onChange={(e) => onChange(setTiming(node, { sequence: e.target.value === '' ? undefined : Number(e.target.value) }))}
+          style={{ padding: '0.2rem', width: '4rem' }}
+        />
+      </label>
+    </div>
+  )
+}
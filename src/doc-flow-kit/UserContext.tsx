@@ -9,6 +9,7 @@ interface UserContextValue {
   login: (email: string, password?: string) => Promise<void>;
   logout: () => void;
   createUser: (email: string, displayName?: string) => Promise<User>;
+  addProject: (projectId: string) => Promise<void>;
   isDarkMode: boolean;
   toggleDarkMode: () => void;
 }
@@ -76,6 +77,7 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
           const userDoc = await docFlowKit.getDocument(savedUserIdString) as UserDoc | null;
           if (userDoc && userDoc.docType === 'User') {
             setCurrentUser(userDoc.content);
+            docFlowKit.setCurrentUser(userDoc.docId);
           }
         }
       } catch (err) {
@@ -106,20 +108,24 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
     
     try {
       // Look for existing user with this email
-      const allDocs = await docFlowKit.listDocuments();
-      const userDoc = allDocs.find(
-        doc => doc.docType === 'User' && doc.content.email === email.toLowerCase()
-      ) as UserDoc | undefined;
+      const { documents } = await docFlowKit.queryDocuments<UserDoc>({
+        docType: 'User',
+        where: { email: email.toLowerCase() },
+        limit: 1
+      });
+      const userDoc = documents[0];
       
       if (userDoc) {
         // In a real app, we would verify the password here
         // For now, we'll just accept the login
         setCurrentUser(userDoc.content);
+        docFlowKit.setCurrentUser(userDoc.docId);
         localStorage.setItem('currentUserId', userDoc.docId);
       } else {
         // Create new user if not found
         const newUser = await createUser(email);
         setCurrentUser(newUser);
+        docFlowKit.setCurrentUser(newUser.userId);
         localStorage.setItem('currentUserId', newUser.userId);
       }
     } catch (err) {
@@ -133,6 +139,7 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
   // Logout function
   const logout = () => {
     setCurrentUser(null);
+    docFlowKit.setCurrentUser(null);
     localStorage.removeItem('currentUserId');
   };
 
@@ -161,6 +168,27 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
     return user;
   };
 
+  // Give the current user access to a project
+  const addProject = useCallback(async (projectId: string) => {
+    if (!currentUser || currentUser.projects.includes(projectId)) return;
+
+    const updatedUser: User = {
+      ...currentUser,
+      projects: [...currentUser.projects, projectId]
+    };
+    const existing = await docFlowKit.getDocument(currentUser.userId) as UserDoc | null;
+    const userDoc: UserDoc = {
+      ...existing,
+      docId: currentUser.userId,
+      docType: 'User',
+      title: `User: ${currentUser.email}`,
+      content: updatedUser
+    };
+
+    await docFlowKit.updateDocument(userDoc);
+    setCurrentUser(updatedUser);
+  }, [currentUser]);
+
   // Toggle dark mode
   const toggleDarkMode = useCallback(() => {
     setIsDarkMode(prev => !prev);
@@ -173,6 +201,7 @@ export const UserProvider: React.FC<UserProviderProps> = ({ children }) => {
     login,
     logout,
     createUser,
+    addProject,
     isDarkMode,
     toggleDarkMode
   };
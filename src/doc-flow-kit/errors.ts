@@ -0,0 +1,85 @@
+import { DocRef, SchemaIssue } from './types'
+
+/**
+ * Thrown by DocFlowKit.updateDocument when `expectedRevision` doesn't match
+ * the stored head, i.e. someone else saved the document in the meantime.
+ */
+export class ConflictError extends Error {
+  readonly docId: string
+  readonly expectedRevision: number
+  readonly actualRevision: number
+
+  constructor(docId: string, expectedRevision: number, actualRevision: number) {
+    super(
+      `Document ${docId} was modified elsewhere (expected revision ${expectedRevision}, found ${actualRevision})`
+    )
+    this.name = 'ConflictError'
+    this.docId = docId
+    this.expectedRevision = expectedRevision
+    this.actualRevision = actualRevision
+  }
+}
+
+/**
+ * Thrown by DocFlowKit.deleteDocument under the 'block' policy when other
+ * documents still link to the one being deleted
+ */
+export class ReferentialIntegrityError extends Error {
+  readonly docId: string
+  readonly referrers: DocRef[]
+
+  constructor(docId: string, referrers: DocRef[]) {
+    super(
+      `Document ${docId} is still used by ${referrers.map((r) => `"${r.title ?? r.docId}"`).join(', ')}`
+    )
+    this.name = 'ReferentialIntegrityError'
+    this.docId = docId
+    this.referrers = referrers
+  }
+}
+
+/**
+ * Thrown when an imported project bundle is malformed or fails its checksums
+ */
+export class BundleValidationError extends Error {
+  readonly problems: string[]
+
+  constructor(problems: string[]) {
+    super(`Invalid project bundle: ${problems.join('; ')}`)
+    this.name = 'BundleValidationError'
+    this.problems = problems
+  }
+}
+
+/**
+ * Thrown by DocFlowKit when a document being written doesn't match the
+ * schema registered for its docType
+ */
+export class SchemaValidationError extends Error {
+  readonly docId: string
+  readonly docType: string
+  readonly issues: SchemaIssue[]
+
+  constructor(docId: string, docType: string, issues: SchemaIssue[]) {
+    super(
+      `Invalid ${docType} document ${docId}: ${issues.map((i) => `${i.path} ${i.message}`).join('; ')}`
+    )
+    this.name = 'SchemaValidationError'
+    this.docId = docId
+    this.docType = docType
+    this.issues = issues
+  }
+}
+
+/**
+ * Thrown when a Graphviz DOT file can't be read
+ */
+export class DotParseError extends Error {
+  readonly line: number
+
+  constructor(message: string, line: number) {
+    super(`DOT syntax error on line ${line}: ${message}`)
+    this.name = 'DotParseError'
+    this.line = line
+  }
+}
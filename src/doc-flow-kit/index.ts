@@ -1,9 +1,52 @@
 export * from './types'
 export * from './DocFlowKit'
+export * from './storage'
+export * from './errors'
+export * from './Schemas'
+export * from './Migrations'
+export * from './References'
 export * from './ProjectContext'
 export * from './DiagramManager'
 export * from './FlowManager'
+export * from './HistoryPanel'
+export * from './DocumentHooks'
+export * from './MergeDialog'
+export * from './Counterfactual'
+export * from './CounterfactualReview'
+export * from './Sufficiency'
+export * from './SufficiencyPanel'
+export * from './GraphLinter'
+export * from './LintPanel'
+export * from './CausalAnalysis'
+export * from './CausalAnalysisPanel'
+export * from './ActionItems'
+export * from './ActionItemFields'
+export * from './Timeline'
+export * from './TimelineView'
+export * from './TimingFields'
+export * from './Evidence'
+export * from './EvidenceDrawer'
+export * from './SubDiagrams'
+export * from './DiagramBreadcrumbs'
+export * from './FlattenedDiagramPanel'
+export * from './GraphSvg'
+export * from './ReportGenerator'
+export * from './ReportPanel'
+export * from './IncidentAnalytics'
+export * from './CanvasGeometry'
+export * from './DiagramCanvas'
+export * from './GraphLayout'
+export * from './LayoutService'
+export * from './EditHistory'
+export * from './GraphCommands'
+export * from './Autosave'
+export * from './SaveStatusIndicator'
+export * from './DraftRecoveryBanner'
+export * from './DotFormat'
+export * from './GraphMerge'
 export * from './AgentManager'
 export * from './FlowRunner'
 export * from './FlowRunnerUI'
-export * from './LLMService' 
\ No newline at end of file
+export * from './SearchIndex'
+export * from './LLMService'
+export * from './ProjectBundle' 
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { BaseDocument, DocumentDraft, DocumentQuery, DocumentQueryResult, DocumentRevision } from '../types'
+import { ConflictError } from '../errors'
+import { StorageAdapter, WriteInfo, buildRevision } from './StorageAdapter'
+import { runQueryInMemory } from './query'
+
+/**
+ * The subset of Node's `fs/promises` the adapter needs. Passing it in keeps
+ * Node modules out of the browser bundle:
+ *
+ *   const fs = await import('node:fs/promises')
+ *   const kit = new DocFlowKit(new FileSystemAdapter('./data', fs))
+ */
+export interface FileSystemLike {
+  readFile(path: string, encoding: 'utf8'): Promise<string>
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>
+  readdir(path: string): Promise<string[]>
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>
+  rm(path: string, options: { recursive?: boolean; force?: boolean }): Promise<void>
+}
+
+/**
+ * Node storage that keeps one JSON file per document in a directory:
+ *
+ *   <dir>/documents/<docId>.json
+ *   <dir>/revisions/<docId>/<revision>.json
+ *   <dir>/blobs/<blobId>.json   (base64 data and content type)
+ *   <dir>/drafts/<docId>.json
+ *
+ * Queries read every document file, so this suits scripts and tests rather
+ * than large databases. Writes are serialized within the process.
+ */
+export class FileSystemAdapter implements StorageAdapter {
+  private readonly dir: string
+  private readonly fs: FileSystemLike
+  private writeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(dir: string, fs: FileSystemLike) {
+    this.dir = dir.replace(/\/+$/, '')
+    this.fs = fs
+  }
+
+  public async open(): Promise<void> {
+    await this.fs.mkdir(`${this.dir}/documents`, { recursive: true })
+    await this.fs.mkdir(`${this.dir}/revisions`, { recursive: true })
+    await this.fs.mkdir(`${this.dir}/blobs`, { recursive: true })
+    await this.fs.mkdir(`${this.dir}/drafts`, { recursive: true })
+  }
+
+  public async getDocument(docId: string): Promise<BaseDocument | null> {
+    return this.readJson<BaseDocument>(this.documentPath(docId))
+  }
+
+  public async listDocuments(): Promise<BaseDocument[]> {
+    const files = await this.fs.readdir(`${this.dir}/documents`)
+    const docs = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.readJson<BaseDocument>(`${this.dir}/documents/${file}`))
+    )
+    return docs.filter((doc): doc is BaseDocument => doc !== null)
+  }
+
+  public async queryDocuments<T extends BaseDocument>(query: DocumentQuery): Promise<DocumentQueryResult<T>> {
+    return runQueryInMemory<T>(await this.listDocuments(), query)
+  }
+
+  public async writeDocument(doc: BaseDocument, info: WriteInfo): Promise<void> {
+    await this.serialized(async () => {
+      const history = await this.revisionNumbers(doc.docId)
+      const currentRevision = history.length > 0 ? history[history.length - 1] : 0
+      if (info.expectedRevision !== undefined && info.expectedRevision !== currentRevision) {
+        throw new ConflictError(doc.docId, info.expectedRevision, currentRevision)
+      }
+
+      const entry = buildRevision(doc, currentRevision + 1, info)
+      await this.fs.mkdir(this.revisionDir(doc.docId), { recursive: true })
+      await this.fs.writeFile(`${this.revisionDir(doc.docId)}/${entry.revision}.json`, JSON.stringify(entry), 'utf8')
+      await this.fs.writeFile(this.documentPath(doc.docId), JSON.stringify(doc), 'utf8')
+    })
+  }
+
+  public async deleteDocument(docId: string): Promise<void> {
+    await this.serialized(async () => {
+      await this.fs.rm(this.documentPath(docId), { force: true })
+      await this.fs.rm(this.revisionDir(docId), { recursive: true, force: true })
+    })
+  }
+
+  public async listRevisions(docId: string): Promise<DocumentRevision[]> {
+    const numbers = await this.revisionNumbers(docId)
+    const revisions = await Promise.all(numbers.map((n) => this.getRevision(docId, n)))
+    return revisions.filter((rev): rev is DocumentRevision => rev !== null)
+  }
+
+  public async getRevision(docId: string, revision: number): Promise<DocumentRevision | null> {
+    return this.readJson<DocumentRevision>(`${this.revisionDir(docId)}/${revision}.json`)
+  }
+
+  public async putBlob(blobId: string, data: Blob): Promise<void> {
+    const stored: StoredBlob = { type: data.type, base64: toBase64(new Uint8Array(await data.arrayBuffer())) }
+    await this.fs.writeFile(this.blobPath(blobId), JSON.stringify(stored), 'utf8')
+  }
+
+  public async getBlob(blobId: string): Promise<Blob | null> {
+    const stored = await this.readJson<StoredBlob>(this.blobPath(blobId))
+    return stored ? new Blob([fromBase64(stored.base64)], { type: stored.type }) : null
+  }
+
+  public async deleteBlob(blobId: string): Promise<void> {
+    await this.fs.rm(this.blobPath(blobId), { force: true })
+  }
+
+  public async putDraft(draft: DocumentDraft): Promise<void> {
+    await this.fs.writeFile(this.draftPath(draft.docId), JSON.stringify(draft), 'utf8')
+  }
+
+  public async getDraft(docId: string): Promise<DocumentDraft | null> {
+    return this.readJson<DocumentDraft>(this.draftPath(docId))
+  }
+
+  public async deleteDraft(docId: string): Promise<void> {
+    await this.fs.rm(this.draftPath(docId), { force: true })
+  }
+
+  private blobPath(blobId: string): string {
+    return `${this.dir}/blobs/${encodeURIComponent(blobId)}.json`
+  }
+
+  private draftPath(docId: string): string {
+    return `${this.dir}/drafts/${encodeURIComponent(docId)}.json`
+  }
+
+  private documentPath(docId: string): string {
+    return `${this.dir}/documents/${encodeURIComponent(docId)}.json`
+  }
+
+  private revisionDir(docId: string): string {
+    return `${this.dir}/revisions/${encodeURIComponent(docId)}`
+  }
+
+  /**
+   * Stored revision numbers of a document, ascending
+   */
+  private async revisionNumbers(docId: string): Promise<number[]> {
+    let files: string[]
+    try {
+      files = await this.fs.readdir(this.revisionDir(docId))
+    } catch {
+      return []
+    }
+    return files
+      .map((file) => Number.parseInt(file, 10))
+      .filter((n) => Number.isFinite(n))
+      .sort((a, b) => a - b)
+  }
+
+  private async readJson<T>(path: string): Promise<T | null> {
+    try {
+      return JSON.parse(await this.fs.readFile(path, 'utf8')) as T
+    } catch (err) {
+      if ((err as { code?: string }).code === 'ENOENT') return null
+      throw err
+    }
+  }
+
+  /**
+   * Runs a write after all earlier writes, so check-and-write sequences don't interleave
+   */
+  private serialized<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation)
+    this.writeQueue = result.catch(() => undefined)
+    return result
+  }
+}
+
+interface StoredBlob {
+  type: string
+  base64: string
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked so String.fromCharCode doesn't get too many arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
@@ -0,0 +1,277 @@
+import { openDB, IDBPDatabase, IDBPTransaction } from 'idb'
+import { BaseDocument, DocumentDraft, DocumentQuery, DocumentQueryResult, DocumentRevision, ProjectDoc } from '../types'
+import { ConflictError } from '../errors'
+import { getOutgoingReferences } from '../References'
+import { getAttachmentBlobIds } from '../Evidence'
+import { StorageAdapter, WriteInfo, buildRevision } from './StorageAdapter'
+import { DOCUMENT_INDEXES, DocumentIndexName, QueryCursor, decodeCursor, encodeCursor, matchesQuery, planQuery } from './query'
+
+const DB_VERSION = 8
+
+/**
+ * Browser storage backed by IndexedDB (via `idb`)
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  private db: IDBPDatabase | null = null
+  private readonly dbName: string
+
+  constructor(dbName = 'docFlowKitDB') {
+    this.dbName = dbName
+  }
+
+  public async open(): Promise<void> {
+    this.db = await openDB(this.dbName, DB_VERSION, {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
+        if (!db.objectStoreNames.contains('documents')) {
+          db.createObjectStore('documents', { keyPath: 'docId' })
+        }
+
+        const store = transaction.objectStore('documents')
+        for (const [name, { keyPath, multiEntry }] of Object.entries(DOCUMENT_INDEXES)) {
+          if (!store.indexNames.contains(name)) {
+            store.createIndex(name, keyPath, { multiEntry })
+          }
+        }
+
+        if (oldVersion < 2) {
+          await backfillIndexedFields(transaction)
+        }
+
+        if (oldVersion < 3) {
+          // Keyed by [docId, revision] so a document's history is one contiguous key range
+          db.createObjectStore('revisions', { keyPath: ['docId', 'revision'] })
+        }
+
+        if (oldVersion < 4) {
+          await backfillReferencedIds(transaction)
+        }
+
+        // Version 5 only adds the deletedAt index, created by the loop above
+
+        if (oldVersion < 6) {
+          // Blobs are stored as-is under an out-of-line key
+          db.createObjectStore('blobs')
+        }
+
+        if (oldVersion < 7) {
+          db.createObjectStore('drafts', { keyPath: 'docId' })
+        }
+
+        if (oldVersion < 8) {
+          await backfillBlobIds(transaction)
+        }
+      },
+    })
+  }
+
+  public async getDocument(docId: string): Promise<BaseDocument | null> {
+    const doc = await this.requireDb().get('documents', docId)
+    return doc ?? null
+  }
+
+  public async listDocuments(): Promise<BaseDocument[]> {
+    return this.requireDb().getAll('documents')
+  }
+
+  /**
+   * Walks the most selective index with a cursor; any remaining filters are
+   * checked per record, and iteration stops at `limit`.
+   */
+  public async queryDocuments<T extends BaseDocument>(query: DocumentQuery): Promise<DocumentQueryResult<T>> {
+    const plan = planQuery(query)
+    const range = keyRangeFor(plan.index, plan.value)
+    const limit = query.limit ?? Infinity
+    const documents: T[] = []
+
+    const tx = this.requireDb().transaction('documents', 'readonly')
+    const source = plan.index ? tx.store.index(plan.index) : tx.store
+    let cursor = await source.openCursor(range, plan.direction)
+
+    if (cursor && query.cursor) {
+      // Resume strictly after the last document returned. Both continue
+      // methods land on their target itself, and throw if it isn't ahead.
+      const [key, docId] = decodeCursor(query.cursor)
+      const sign = plan.direction === 'prev' ? -1 : 1
+      const compareTo = (c: { key: IDBValidKey; primaryKey: IDBValidKey }) =>
+        sign * (indexedDB.cmp(c.key, key) || indexedDB.cmp(c.primaryKey, docId))
+
+      if (compareTo(cursor) < 0) {
+        // The object store cursor is keyed by docId alone
+        cursor = plan.index ? await cursor.continuePrimaryKey(key, docId) : await cursor.continue(docId)
+      }
+      if (cursor && compareTo(cursor) === 0) {
+        cursor = await cursor.continue()
+      }
+    }
+
+    let lastPosition: QueryCursor | null = null
+    while (cursor && documents.length < limit) {
+      const doc = cursor.value as T
+      if (matchesQuery(doc, query)) {
+        documents.push(doc)
+        lastPosition = [cursor.key as QueryCursor[0], doc.docId]
+      }
+      cursor = await cursor.continue()
+    }
+    await tx.done
+
+    return {
+      documents,
+      nextCursor: cursor && lastPosition ? encodeCursor(lastPosition) : undefined,
+    }
+  }
+
+  /**
+   * The revision check happens inside the write transaction, so two
+   * concurrent writers expecting the same revision can't both succeed.
+   */
+  public async writeDocument(doc: BaseDocument, info: WriteInfo): Promise<void> {
+    const tx = this.requireDb().transaction(['documents', 'revisions'], 'readwrite')
+    const revisions = tx.objectStore('revisions')
+
+    const latest = await revisions.openCursor(revisionRange(doc.docId), 'prev')
+    const currentRevision = latest ? (latest.value as DocumentRevision).revision : 0
+    if (info.expectedRevision !== undefined && info.expectedRevision !== currentRevision) {
+      throw new ConflictError(doc.docId, info.expectedRevision, currentRevision)
+    }
+
+    const entry = buildRevision(doc, currentRevision + 1, info)
+    await Promise.all([
+      tx.objectStore('documents').put(doc),
+      revisions.put(entry),
+      tx.done,
+    ])
+  }
+
+  public async deleteDocument(docId: string): Promise<void> {
+    const tx = this.requireDb().transaction(['documents', 'revisions'], 'readwrite')
+    await Promise.all([
+      tx.objectStore('documents').delete(docId),
+      tx.objectStore('revisions').delete(revisionRange(docId)),
+      tx.done,
+    ])
+  }
+
+  public async listRevisions(docId: string): Promise<DocumentRevision[]> {
+    return this.requireDb().getAll('revisions', revisionRange(docId))
+  }
+
+  public async getRevision(docId: string, revision: number): Promise<DocumentRevision | null> {
+    const rev = await this.requireDb().get('revisions', [docId, revision])
+    return rev ?? null
+  }
+
+  public async putBlob(blobId: string, data: Blob): Promise<void> {
+    await this.requireDb().put('blobs', data, blobId)
+  }
+
+  public async getBlob(blobId: string): Promise<Blob | null> {
+    const blob = await this.requireDb().get('blobs', blobId)
+    return blob ?? null
+  }
+
+  public async deleteBlob(blobId: string): Promise<void> {
+    await this.requireDb().delete('blobs', blobId)
+  }
+
+  public async putDraft(draft: DocumentDraft): Promise<void> {
+    await this.requireDb().put('drafts', draft)
+  }
+
+  public async getDraft(docId: string): Promise<DocumentDraft | null> {
+    const draft = await this.requireDb().get('drafts', docId)
+    return draft ?? null
+  }
+
+  public async deleteDraft(docId: string): Promise<void> {
+    await this.requireDb().delete('drafts', docId)
+  }
+
+  private requireDb(): IDBPDatabase {
+    if (!this.db) throw new Error('DocFlowKit not initialized')
+    return this.db
+  }
+}
+
+/**
+ * Translates a query plan's match value into an IndexedDB key range
+ */
+function keyRangeFor(index: DocumentIndexName | undefined, value: string | undefined): IDBKeyRange | undefined {
+  if (value === undefined) return undefined
+  if (index === 'docType_updatedAt') {
+    return IDBKeyRange.bound([value, ''], [value, '\uffff'])
+  }
+  return IDBKeyRange.only(value)
+}
+
+/**
+ * Key range covering every revision of one document
+ */
+function revisionRange(docId: string): IDBKeyRange {
+  return IDBKeyRange.bound([docId, 0], [docId, Infinity])
+}
+
+/**
+ * Fills in the fields indexed since version 2 for documents written by version 1:
+ * timestamps, and project membership derived from each project's DocRefs.
+ */
+async function backfillIndexedFields(
+  transaction: IDBPTransaction<unknown, string[], 'versionchange'>
+): Promise<void> {
+  const store = transaction.objectStore('documents')
+  const docs: BaseDocument[] = await store.getAll()
+  const now = new Date().toISOString()
+  const projectIdsByDoc = new Map<string, string[]>()
+
+  for (const doc of docs) {
+    if (doc.docType !== 'Project') continue
+    for (const ref of (doc as ProjectDoc).content.documents ?? []) {
+      const ids = projectIdsByDoc.get(ref.docId) ?? []
+      ids.push(doc.docId)
+      projectIdsByDoc.set(ref.docId, ids)
+    }
+  }
+
+  for (const doc of docs) {
+    doc.createdAt = doc.createdAt ?? now
+    doc.updatedAt = doc.updatedAt ?? now
+    const projectIds = projectIdsByDoc.get(doc.docId)
+    if (projectIds) {
+      doc.projectIds = projectIds
+    }
+    await store.put(doc)
+  }
+}
+
+/**
+ * Computes `referencedIds` for documents written before version 4
+ */
+async function backfillReferencedIds(
+  transaction: IDBPTransaction<unknown, string[], 'versionchange'>
+): Promise<void> {
+  const store = transaction.objectStore('documents')
+  const docs: BaseDocument[] = await store.getAll()
+  for (const doc of docs) {
+    doc.referencedIds = getOutgoingReferences(doc)
+    await store.put(doc)
+  }
+}
+
+/**
+ * Computes `blobIds` for documents written before version 8, from the
+ * document and every revision of it
+ */
+async function backfillBlobIds(
+  transaction: IDBPTransaction<unknown, string[], 'versionchange'>
+): Promise<void> {
+  const store = transaction.objectStore('documents')
+  const revisions = transaction.objectStore('revisions')
+  const docs: BaseDocument[] = await store.getAll()
+  for (const doc of docs) {
+    const history: DocumentRevision[] = await revisions.getAll(revisionRange(doc.docId))
+    const blobIds = new Set([doc, ...history.map((rev) => rev.snapshot)].flatMap(getAttachmentBlobIds))
+    if (blobIds.size === 0) continue
+    doc.blobIds = [...blobIds]
+    await store.put(doc)
+  }
+}
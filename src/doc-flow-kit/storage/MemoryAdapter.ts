@@ -0,0 +1,84 @@
+import { BaseDocument, DocumentDraft, DocumentQuery, DocumentQueryResult, DocumentRevision } from '../types'
+import { ConflictError } from '../errors'
+import { StorageAdapter, WriteInfo, buildRevision } from './StorageAdapter'
+import { runQueryInMemory } from './query'
+
+/**
+ * Non-persistent storage for tests, Node scripts and headless flow runs.
+ * Values are cloned on the way in and out, so callers can't mutate stored state.
+ */
+export class MemoryAdapter implements StorageAdapter {
+  private documents = new Map<string, BaseDocument>()
+  private revisions = new Map<string, DocumentRevision[]>()
+  private blobs = new Map<string, Blob>()
+  private drafts = new Map<string, DocumentDraft>()
+
+  public async open(): Promise<void> {
+    // Nothing to open
+  }
+
+  public async getDocument(docId: string): Promise<BaseDocument | null> {
+    const doc = this.documents.get(docId)
+    return doc ? structuredClone(doc) : null
+  }
+
+  public async listDocuments(): Promise<BaseDocument[]> {
+    return [...this.documents.values()].map((doc) => structuredClone(doc))
+  }
+
+  public async queryDocuments<T extends BaseDocument>(query: DocumentQuery): Promise<DocumentQueryResult<T>> {
+    return runQueryInMemory<T>([...this.documents.values()], query)
+  }
+
+  public async writeDocument(doc: BaseDocument, info: WriteInfo): Promise<void> {
+    const history = this.revisions.get(doc.docId) ?? []
+    const currentRevision = history.length > 0 ? history[history.length - 1].revision : 0
+    if (info.expectedRevision !== undefined && info.expectedRevision !== currentRevision) {
+      throw new ConflictError(doc.docId, info.expectedRevision, currentRevision)
+    }
+
+    const entry = buildRevision(doc, currentRevision + 1, info)
+    this.documents.set(doc.docId, structuredClone(doc))
+    this.revisions.set(doc.docId, [...history, entry])
+  }
+
+  public async deleteDocument(docId: string): Promise<void> {
+    this.documents.delete(docId)
+    this.revisions.delete(docId)
+  }
+
+  public async listRevisions(docId: string): Promise<DocumentRevision[]> {
+    return (this.revisions.get(docId) ?? []).map((rev) => structuredClone(rev))
+  }
+
+  public async getRevision(docId: string, revision: number): Promise<DocumentRevision | null> {
+    const rev = this.revisions.get(docId)?.find((r) => r.revision === revision)
+    return rev ? structuredClone(rev) : null
+  }
+
+  // Blobs are immutable, so they're shared rather than cloned
+  public async putBlob(blobId: string, data: Blob): Promise<void> {
+    this.blobs.set(blobId, data)
+  }
+
+  public async getBlob(blobId: string): Promise<Blob | null> {
+    return this.blobs.get(blobId) ?? null
+  }
+
+  public async deleteBlob(blobId: string): Promise<void> {
+    this.blobs.delete(blobId)
+  }
+
+  public async putDraft(draft: DocumentDraft): Promise<void> {
+    this.drafts.set(draft.docId, structuredClone(draft))
+  }
+
+  public async getDraft(docId: string): Promise<DocumentDraft | null> {
+    const draft = this.drafts.get(docId)
+    return draft ? structuredClone(draft) : null
+  }
+
+  public async deleteDraft(docId: string): Promise<void> {
+    this.drafts.delete(docId)
+  }
+}
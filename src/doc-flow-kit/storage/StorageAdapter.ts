@@ -0,0 +1,78 @@
+import { BaseDocument, DocumentDraft, DocumentQuery, DocumentQueryResult, DocumentRevision } from '../types'
+
+/**
+ * Details of a write that the adapter records alongside the new revision
+ */
+export interface WriteInfo {
+  authorId?: string
+  contentHash: string
+  /**
+   * When set, the write must fail with a ConflictError unless the stored
+   * head revision equals this value.
+   */
+  expectedRevision?: number
+}
+
+/**
+ * Persistence backend used by DocFlowKit.
+ * Every adapter must behave identically; DocFlowKit adds timestamps, hashing
+ * and ownership before calling in, so adapters only store and retrieve.
+ */
+export interface StorageAdapter {
+  /**
+   * Opens or creates the underlying store. Called once by DocFlowKit.initialize().
+   */
+  open(): Promise<void>
+
+  getDocument(docId: string): Promise<BaseDocument | null>
+  listDocuments(): Promise<BaseDocument[]>
+  queryDocuments<T extends BaseDocument>(query: DocumentQuery): Promise<DocumentQueryResult<T>>
+
+  /**
+   * Atomically checks `info.expectedRevision`, assigns the next revision
+   * number to `doc.revision`, stores the document and appends its revision.
+   */
+  writeDocument(doc: BaseDocument, info: WriteInfo): Promise<void>
+
+  /**
+   * Removes a document and its revision history
+   */
+  deleteDocument(docId: string): Promise<void>
+
+  /**
+   * All revisions of a document, oldest first
+   */
+  listRevisions(docId: string): Promise<DocumentRevision[]>
+  getRevision(docId: string, revision: number): Promise<DocumentRevision | null>
+
+  /**
+   * Stores binary data, such as evidence attachments, under an id chosen by
+   * the caller; an existing blob with that id is replaced
+   */
+  putBlob(blobId: string, data: Blob): Promise<void>
+  getBlob(blobId: string): Promise<Blob | null>
+  deleteBlob(blobId: string): Promise<void>
+
+  /**
+   * Stores a document's draft, replacing any earlier draft of it. Drafts
+   * are kept apart from documents and have no revisions.
+   */
+  putDraft(draft: DocumentDraft): Promise<void>
+  getDraft(docId: string): Promise<DocumentDraft | null>
+  deleteDraft(docId: string): Promise<void>
+}
+
+/**
+ * Builds the revision record for a write, given the revision number the adapter assigned
+ */
+export function buildRevision(doc: BaseDocument, revision: number, info: WriteInfo): DocumentRevision {
+  doc.revision = revision
+  return {
+    docId: doc.docId,
+    revision,
+    authorId: info.authorId,
+    timestamp: doc.updatedAt ?? new Date().toISOString(),
+    contentHash: info.contentHash,
+    snapshot: structuredClone(doc),
+  }
+}
@@ -0,0 +1,68 @@
+import { BaseDocument, DocumentQuery } from '../types'
+import { StorageAdapter } from './StorageAdapter'
+import { runQueryInMemory } from './query'
+
+// Covers every query plan: no index, single-key, multi-entry and compound indexes, both directions
+const PAGING_FIXTURES: BaseDocument[] = [
+  { docId: 'doc-a', docType: 'Diagram', title: 'A', content: {}, projectIds: ['p1'], blobIds: ['blob-1'], updatedAt: '2024-01-03T00:00:00.000Z' },
+  { docId: 'doc-b', docType: 'Flow', title: 'B', content: {}, projectIds: ['p1', 'p2'], updatedAt: '2024-01-01T00:00:00.000Z' },
+  { docId: 'doc-c', docType: 'Diagram', title: 'C', content: {}, projectIds: ['p2'], blobIds: ['blob-1', 'blob-2'], updatedAt: '2024-01-02T00:00:00.000Z' },
+  // Same updatedAt as doc-c, so paging has to break the tie on docId
+  { docId: 'doc-d', docType: 'Diagram', title: 'D', content: {}, projectIds: ['p1'], updatedAt: '2024-01-02T00:00:00.000Z' },
+  { docId: 'doc-e', docType: 'Flow', title: 'E', content: {}, projectIds: ['p1'], updatedAt: '2024-01-05T00:00:00.000Z', deletedAt: '2024-01-06T00:00:00.000Z' },
+  { docId: 'doc-f', docType: 'Agent', title: 'F', content: {}, ownerId: 'u1', updatedAt: '2024-01-04T00:00:00.000Z' },
+]
+
+const PAGING_QUERIES: DocumentQuery[] = [
+  {},
+  { deleted: 'include' },
+  { deleted: 'only' },
+  { docType: 'Diagram' },
+  { where: { projectId: 'p1' } },
+  { docType: 'Flow', where: { projectId: 'p1' }, deleted: 'include' },
+  { where: { ownerId: 'u1' } },
+  { where: { blobId: 'blob-1' } },
+  { orderBy: { field: 'updatedAt' } },
+  { orderBy: { field: 'updatedAt', direction: 'desc' } },
+  { docType: 'Diagram', orderBy: { field: 'updatedAt', direction: 'desc' } },
+]
+
+/**
+ * Checks that an adapter pages queries like every other backend: walking
+ * each query one document at a time must return exactly what a single
+ * unpaged query does, in the order runQueryInMemory() gives. Writes a fixed
+ * set of documents, so pass an adapter that is open and empty.
+ * @returns A description of each mismatch; empty when the adapter conforms
+ */
+export async function checkQueryPaging(adapter: StorageAdapter): Promise<string[]> {
+  for (const doc of PAGING_FIXTURES) {
+    await adapter.writeDocument(structuredClone(doc), { contentHash: doc.docId })
+  }
+
+  const problems: string[] = []
+  for (const query of PAGING_QUERIES) {
+    const expected = runQueryInMemory(PAGING_FIXTURES, query).documents.map((doc) => doc.docId)
+    const unpaged = (await adapter.queryDocuments(query)).documents.map((doc) => doc.docId)
+
+    const paged: string[] = []
+    let cursor: string | undefined
+    try {
+      do {
+        const page = await adapter.queryDocuments({ ...query, limit: 1, cursor })
+        paged.push(...page.documents.map((doc) => doc.docId))
+        cursor = page.nextCursor
+      } while (cursor && paged.length <= PAGING_FIXTURES.length)
+    } catch (err) {
+      problems.push(`${JSON.stringify(query)}: paging failed: ${err instanceof Error ? err.message : String(err)}`)
+      continue
+    }
+
+    if (unpaged.join() !== expected.join()) {
+      problems.push(`${JSON.stringify(query)}: returned [${unpaged.join(', ')}], expected [${expected.join(', ')}]`)
+    }
+    if (paged.join() !== expected.join()) {
+      problems.push(`${JSON.stringify(query)}: pages of 1 returned [${paged.join(', ')}], expected [${expected.join(', ')}]`)
+    }
+  }
+  return problems
+}
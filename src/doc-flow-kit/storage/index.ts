@@ -0,0 +1,5 @@
+export * from './StorageAdapter'
+export * from './IndexedDBAdapter'
+export * from './MemoryAdapter'
+export * from './FileSystemAdapter'
+export * from './conformance'
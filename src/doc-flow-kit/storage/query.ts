@@ -0,0 +1,193 @@
+import { BaseDocument, DocumentQuery, DocumentQueryResult } from '../types'
+
+/**
+ * Secondary indexes every storage adapter provides (natively or emulated)
+ */
+export type DocumentIndexName =
+  | 'docType'
+  | 'ownerId'
+  | 'projectIds'
+  | 'email'
+  | 'updatedAt'
+  | 'docType_updatedAt'
+  | 'referencedIds'
+  | 'blobIds'
+  | 'deletedAt'
+
+/**
+ * Key paths of the document indexes, as declared in IndexedDB
+ */
+export const DOCUMENT_INDEXES: Record<DocumentIndexName, { keyPath: string | string[]; multiEntry?: boolean }> = {
+  docType: { keyPath: 'docType' },
+  ownerId: { keyPath: 'ownerId' },
+  projectIds: { keyPath: 'projectIds', multiEntry: true },
+  email: { keyPath: 'content.email' },
+  updatedAt: { keyPath: 'updatedAt' },
+  docType_updatedAt: { keyPath: ['docType', 'updatedAt'] },
+  referencedIds: { keyPath: 'referencedIds', multiEntry: true },
+  blobIds: { keyPath: 'blobIds', multiEntry: true },
+  deletedAt: { keyPath: 'deletedAt' },
+}
+
+/**
+ * Which index a query walks and how. Without an index, documents are walked in docId order.
+ */
+export interface QueryPlan {
+  index?: DocumentIndexName
+  /**
+   * Exact key to match. For docType_updatedAt this is the docType prefix.
+   */
+  value?: string
+  direction: 'next' | 'prev'
+}
+
+/**
+ * Key a document sorts under while walking an index; compared like IndexedDB keys
+ */
+export type IndexKey = string | string[]
+
+/**
+ * Position of the last document returned by a query, encoded into the opaque cursor string
+ */
+export type QueryCursor = [IndexKey, string]
+
+/**
+ * Picks the index that narrows a query down the most
+ */
+export function planQuery(query: DocumentQuery): QueryPlan {
+  const { docType, where = {}, orderBy } = query
+  const direction = orderBy?.direction === 'desc' ? 'prev' : 'next'
+
+  if (orderBy?.field === 'updatedAt') {
+    return docType
+      ? { index: 'docType_updatedAt', value: docType, direction }
+      : { index: 'updatedAt', direction }
+  }
+  if (where.email) return { index: 'email', value: where.email, direction }
+  if (where.referencesDocId) return { index: 'referencedIds', value: where.referencesDocId, direction }
+  if (where.blobId) return { index: 'blobIds', value: where.blobId, direction }
+  // Only trashed documents carry deletedAt, so this index is the trash itself
+  if (query.deleted === 'only') return { index: 'deletedAt', direction }
+  if (where.projectId) return { index: 'projectIds', value: where.projectId, direction }
+  if (where.ownerId) return { index: 'ownerId', value: where.ownerId, direction }
+  if (docType) return { index: 'docType', value: docType, direction }
+  return { direction }
+}
+
+/**
+ * Checks every filter of a query against a single document
+ */
+export function matchesQuery(doc: BaseDocument, query: DocumentQuery): boolean {
+  const { docType, where = {}, deleted = 'exclude' } = query
+  if (deleted === 'exclude' && doc.deletedAt) return false
+  if (deleted === 'only' && !doc.deletedAt) return false
+  if (docType && doc.docType !== docType) return false
+  if (where.ownerId && doc.ownerId !== where.ownerId) return false
+  if (where.projectId && !doc.projectIds?.includes(where.projectId)) return false
+  if (where.email && (doc.docType !== 'User' || doc.content?.email !== where.email)) return false
+  if (where.referencesDocId && !doc.referencedIds?.includes(where.referencesDocId)) return false
+  if (where.blobId && !doc.blobIds?.includes(where.blobId)) return false
+  return true
+}
+
+export function encodeCursor(position: QueryCursor): string {
+  return JSON.stringify(position)
+}
+
+export function decodeCursor(cursor: string): QueryCursor {
+  try {
+    const parsed = JSON.parse(cursor)
+    if (Array.isArray(parsed) && parsed.length === 2 && typeof parsed[1] === 'string') {
+      return parsed as QueryCursor
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error('Invalid query cursor')
+}
+
+/**
+ * Runs a query over documents held in memory, reproducing the order, filtering
+ * and paging of an IndexedDB index walk so every adapter returns the same pages.
+ */
+export function runQueryInMemory<T extends BaseDocument>(
+  docs: BaseDocument[],
+  query: DocumentQuery
+): DocumentQueryResult<T> {
+  const plan = planQuery(query)
+  const sign = plan.direction === 'prev' ? -1 : 1
+  const comparePositions = (a: QueryCursor, b: QueryCursor) =>
+    compareKeys(a[0], b[0]) || compareKeys(a[1], b[1])
+
+  let entries: { position: QueryCursor; doc: BaseDocument }[] = docs
+    .flatMap((doc) => indexKeysOf(doc, plan).map((key) => ({ position: [key, doc.docId] as QueryCursor, doc })))
+    .sort((a, b) => sign * comparePositions(a.position, b.position))
+
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor)
+    entries = entries.filter((entry) => sign * comparePositions(entry.position, after) > 0)
+  }
+
+  const limit = query.limit ?? Infinity
+  const documents: T[] = []
+  let lastPosition: QueryCursor | null = null
+  let examined = 0
+  for (const entry of entries) {
+    if (documents.length >= limit) break
+    examined++
+    if (matchesQuery(entry.doc, query)) {
+      documents.push(structuredClone(entry.doc) as T)
+      lastPosition = entry.position
+    }
+  }
+
+  return {
+    documents,
+    nextCursor: examined < entries.length && lastPosition ? encodeCursor(lastPosition) : undefined,
+  }
+}
+
+/**
+ * The keys a document has in the planned index that fall inside the planned
+ * range. Documents missing the indexed field have none, as in IndexedDB.
+ */
+function indexKeysOf(doc: BaseDocument, plan: QueryPlan): IndexKey[] {
+  const isKey = (value: unknown): value is string => typeof value === 'string'
+
+  switch (plan.index) {
+    case undefined:
+      return [doc.docId]
+    case 'docType_updatedAt':
+      return isKey(doc.updatedAt) && doc.docType === plan.value ? [[doc.docType, doc.updatedAt]] : []
+    case 'updatedAt':
+      return isKey(doc.updatedAt) ? [doc.updatedAt] : []
+    case 'deletedAt':
+      return isKey(doc.deletedAt) ? [doc.deletedAt] : []
+    case 'projectIds':
+      return (doc.projectIds ?? []).filter((id) => id === plan.value)
+    case 'referencedIds':
+      return (doc.referencedIds ?? []).filter((id) => id === plan.value)
+    case 'blobIds':
+      return (doc.blobIds ?? []).filter((id) => id === plan.value)
+    case 'email':
+      return isKey(doc.content?.email) && doc.content.email === plan.value ? [doc.content.email] : []
+    case 'ownerId':
+      return isKey(doc.ownerId) && doc.ownerId === plan.value ? [doc.ownerId] : []
+    case 'docType':
+      return doc.docType === plan.value ? [doc.docType] : []
+  }
+}
+
+function compareKeys(a: IndexKey, b: IndexKey): number {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const result = compareKeys(a[i], b[i])
+      if (result !== 0) return result
+    }
+    return a.length - b.length
+  }
+  // IndexedDB orders arrays after strings
+  if (Array.isArray(a)) return 1
+  if (Array.isArray(b)) return -1
+  return a < b ? -1 : a > b ? 1 : 0
+}
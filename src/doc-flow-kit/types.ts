@@ -11,6 +11,69 @@ export interface BaseDocument {
   content: any
   metadata?: Record<string, any>
   references?: DocRef[]
+  ownerId?: string        // userId of the user who created the document
+  projectIds?: string[]   // Projects this document belongs to
+  createdAt?: string      // ISO timestamp, maintained by DocFlowKit
+  updatedAt?: string      // ISO timestamp, maintained by DocFlowKit
+  revision?: number       // Head revision number, maintained by DocFlowKit
+  referencedIds?: string[] // IDs of every linked document, maintained by DocFlowKit
+  blobIds?: string[]      // Attachment blobs of this and every earlier revision, maintained by DocFlowKit
+  deletedAt?: string      // ISO timestamp; set while the document is in the trash
+  deletedBy?: string      // userId of the user who moved it to the trash
+  schemaVersion?: number  // Version of its docType's schema; missing means written before versioning
+}
+
+/**
+ * One way a document fails its docType's schema
+ */
+export interface SchemaIssue {
+  path: string      // Dotted path into the document, e.g. "content.edges.2.target"
+  message: string
+}
+
+/**
+ * What happens to documents that link to a document being deleted:
+ * - block: refuse with a ReferentialIntegrityError
+ * - nullify: remove the links, keep the referring documents
+ * - cascade: nullify, then also delete documents the deleted one linked to
+ *   that nothing else links to any more
+ */
+export type DeletePolicy = 'block' | 'nullify' | 'cascade'
+
+export interface DeleteOptions {
+  policy?: DeletePolicy   // Defaults to 'block'
+}
+
+/**
+ * A link from one document to a document that doesn't exist
+ */
+export interface DanglingReference {
+  source: DocRef
+  missingDocId: string
+}
+
+/**
+ * Result of DocFlowKit.checkIntegrity
+ */
+export interface IntegrityReport {
+  checkedAt: string
+  documentCount: number
+  danglingReferences: DanglingReference[]
+  /**
+   * Documents other than projects and users that nothing links to
+   */
+  orphanedDocuments: DocRef[]
+}
+
+/**
+ * Options for DocFlowKit.updateDocument
+ */
+export interface UpdateOptions {
+  /**
+   * Revision the caller's copy was based on. If the stored head has moved
+   * on, the write is rejected with a ConflictError instead of overwriting it.
+   */
+  expectedRevision?: number
 }
 
 export interface DocRef {
@@ -19,6 +82,130 @@ export interface DocRef {
   title?: string
 }
 
+/**
+ * Filters for DocFlowKit.queryDocuments. Each field maps onto an
+ * IndexedDB index, so lookups don't need to scan every document.
+ */
+export interface DocumentQueryWhere {
+  ownerId?: string
+  projectId?: string
+  email?: string   // Only matches User documents
+  referencesDocId?: string   // Documents that link to this docId
+  blobId?: string   // Documents with this attachment blob, in any revision
+}
+
+/**
+ * Query accepted by DocFlowKit.queryDocuments
+ */
+export interface DocumentQuery {
+  docType?: string
+  where?: DocumentQueryWhere
+  orderBy?: {
+    field: 'updatedAt'
+    direction?: 'asc' | 'desc'
+  }
+  limit?: number
+  cursor?: string  // Opaque value taken from a previous result's nextCursor
+  /**
+   * Whether documents in the trash are returned: 'exclude' (the default),
+   * 'include' or 'only'
+   */
+  deleted?: 'exclude' | 'include' | 'only'
+}
+
+/**
+ * A page of query results. `nextCursor` is set when more results may follow.
+ */
+export interface DocumentQueryResult<T extends BaseDocument = BaseDocument> {
+  documents: T[]
+  nextCursor?: string
+}
+
+/**
+ * A document write reported to DocFlowKit.subscribe listeners.
+ * `origin` is 'remote' when the write happened in another browser tab.
+ */
+export interface DocumentChangeEvent {
+  type: 'create' | 'update' | 'delete'
+  docId: string
+  /**
+   * The document as written; for 'delete', as it was before deletion
+   */
+  document: BaseDocument
+  origin: 'local' | 'remote'
+}
+
+/**
+ * Which changes a subscriber hears about. Every field given must match;
+ * an empty filter matches everything.
+ */
+export interface DocumentChangeFilter {
+  docId?: string
+  docType?: string
+  projectId?: string
+}
+
+/**
+ * An immutable snapshot of a document, written by DocFlowKit on every create and update
+ */
+export interface DocumentRevision {
+  docId: string
+  revision: number        // 1 for the initial version, incremented on each write
+  authorId?: string       // userId of the user who made the change
+  timestamp: string       // ISO timestamp
+  contentHash: string     // SHA-256 of the title, content and references
+  snapshot: BaseDocument
+}
+
+/**
+ * Edits an editor has not saved yet, kept so they survive a crash or reload
+ */
+export interface DocumentDraft {
+  docId: string
+  baseRevision: number    // revision of the stored document the edits were made on
+  savedAt: string         // ISO timestamp
+  document: BaseDocument  // the document with the edits applied
+}
+
+/**
+ * Revision metadata without the snapshot, for listing history
+ */
+export type DocumentRevisionSummary = Omit<DocumentRevision, 'snapshot'> & {
+  title: string
+}
+
+/**
+ * A single changed value, addressed by a dotted path into the document
+ */
+export interface FieldChange {
+  path: string
+  before: unknown
+  after: unknown
+}
+
+/**
+ * Changes to a list of items that carry an `id` (nodes or edges)
+ */
+export interface ItemListDiff<T> {
+  added: T[]
+  removed: T[]
+  changed: { before: T; after: T }[]
+}
+
+/**
+ * Differences between two revisions of the same document.
+ * `nodes` and `edges` are only set for node-based content.
+ */
+export interface DocumentDiff {
+  docId: string
+  fromRevision: number
+  toRevision: number
+  title?: { before: string; after: string }
+  nodes?: ItemListDiff<GraphNode>
+  edges?: ItemListDiff<GraphEdge>
+  fields: FieldChange[]
+}
+
 /**
  * Why-Because Analysis node types
  */
@@ -53,6 +240,128 @@ export interface GraphEdge {
   properties?: Record<string, any>
 }
 
+/**
+ * Outcome of the WBA Counterfactual Test on a causal edge: "had the cause
+ * not occurred, would the effect have occurred?" An answer of no means the
+ * cause is a necessary causal factor and the edge passes.
+ */
+export type CounterfactualVerdict = 'pass' | 'fail'
+
+export interface CounterfactualCheck {
+  verdict: CounterfactualVerdict
+  justification: string
+  checkedBy?: string    // userId of the reviewer
+  checkedAt: string     // ISO timestamp
+}
+
+/**
+ * Assertion that a node's necessary causal factors are together sufficient
+ * for it to occur (the WBA Causal Sufficiency Test)
+ */
+export interface SufficiencyAssertion {
+  causeIds: string[]    // The causes the assertion was made about
+  note?: string
+  confirmedBy?: string  // userId of the reviewer
+  confirmedAt: string   // ISO timestamp
+}
+
+/**
+ * WBA-specific entries in a diagram node's `properties`
+ */
+export interface CausalNodeProperties {
+  factorsComplete?: SufficiencyAssertion
+  /**
+   * Deliberately left without causes: the analysis stops here
+   */
+  isRoot?: boolean
+  /**
+   * Child diagram that breaks this node down into its own WB-graph. The
+   * parent diagram lists it in its `references` too.
+   */
+  subDiagramId?: string
+  /**
+   * Top-left corner of the node on the diagram canvas
+   */
+  position?: NodePosition
+}
+
+export interface NodePosition {
+  x: number
+  y: number
+}
+
+/**
+ * When a node happened, in the `properties` of Event, UnEvent, State and
+ * Process nodes. Times are ISO timestamps; `sequence` orders nodes whose
+ * times aren't known, lowest first.
+ */
+export interface TemporalNodeProperties {
+  startTime?: string
+  endTime?: string
+  sequence?: number
+}
+
+export type EvidenceType = 'interview' | 'log' | 'photo' | 'sensor' | 'document' | 'other'
+
+export type EvidenceConfidence = 'low' | 'medium' | 'high'
+
+/**
+ * A file kept in DocFlowKit's blob store
+ */
+export interface Attachment {
+  blobId: string
+  fileName: string
+  contentType: string
+  size: number   // bytes
+}
+
+/**
+ * One piece of evidence backing a node, kept in `properties.evidence`
+ */
+export interface EvidenceItem {
+  id: string
+  type: EvidenceType
+  source: string   // Who or what it came from, e.g. "Interview with shift lead"
+  confidence: EvidenceConfidence
+  excerpt?: string
+  attachment?: Attachment
+  addedBy?: string
+  addedAt: string  // ISO timestamp
+}
+
+/**
+ * An edge of a WB-graph. The source is the cause and the target the effect.
+ */
+export interface CausalEdge extends GraphEdge {
+  type: 'causal'
+  properties?: {
+    label?: string
+    counterfactual?: CounterfactualCheck
+    [key: string]: unknown
+  }
+}
+
+export type ActionItemStatus = 'open' | 'in-progress' | 'verified' | 'closed'
+
+export type ActionItemPriority = 'low' | 'medium' | 'high' | 'critical'
+
+/**
+ * Tracking fields in the `properties` of an ActionItem node
+ */
+export interface ActionItemProperties {
+  ownerId?: string      // User id
+  dueDate?: string      // YYYY-MM-DD
+  priority?: ActionItemPriority
+  status?: ActionItemStatus
+}
+
+/**
+ * Links an ActionItem (source) to the causal factor it mitigates (target)
+ */
+export interface MitigationEdge extends GraphEdge {
+  type: 'mitigates'
+}
+
 /**
  * Content structure for node-based diagrams
  */
@@ -79,10 +388,45 @@ export interface ProjectDoc extends BaseDocument {
     name: string
     documents: DocRef[]
     llmSettings?: LLMSettings
+    lintRules?: LintRuleSettings
+    reportTemplate?: ReportTemplate
     // We'll add more fields as we proceed
   }
 }
 
+export type ReportSectionId = 'summary' | 'factors' | 'counterfactuals' | 'rootCauses' | 'actionItems' | 'graph'
+
+/**
+ * How a project's WBA reports are laid out
+ */
+export interface ReportTemplate {
+  /**
+   * Report title; {diagramTitle} and {date} are filled in
+   */
+  title: string
+  /**
+   * Markdown placed under the title, e.g. distribution or confidentiality notes
+   */
+  preamble?: string
+  /**
+   * Sections to include, in order
+   */
+  sections: ReportSectionId[]
+  /**
+   * Agent that writes the narrative incident summary. Its prompt template
+   * receives the facts of the report as {input}.
+   */
+  summaryAgentId?: string
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * Per-project overrides of graph lint rules, keyed by rule id.
+ * Rules left out run at their default severity.
+ */
+export type LintRuleSettings = Record<string, LintSeverity | 'off'>
+
 /**
  * Specialized node for flow state machines
  */
@@ -147,4 +491,16 @@ export interface User {
 export interface UserDoc extends BaseDocument {
   docType: 'User'
   content: User
-} 
\ No newline at end of file
+}
+
+/**
+ * The log of one flow run, saved from the flow runner
+ */
+export interface TranscriptDoc extends BaseDocument {
+  docType: 'Transcript'
+  content: {
+    flowId: string
+    startedAt: string   // ISO timestamp
+    entries: string[]
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Offers text content to the user as a file download
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Turns a title into something safe to use as a file name
+ */
+export function toFileName(title: string): string {
+  return title.trim().replace(/[^a-z0-9-_]+/gi, '_').replace(/^_+|_+$/g, '') || 'untitled';
+}